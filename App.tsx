@@ -14,6 +14,7 @@ import {
   Message,
   QuizQuestion,
   SavedChat,
+  ChatSummary,
   Language,
   SubscriptionStatus,
   UserData,
@@ -21,11 +22,25 @@ import {
   TeachMeCache,
   GroupChat,
   TeachMeType,
+  QuizAttempt,
+  ValidatedQuizResult,
+  LessonTopicRef,
+  MockExam,
+  UsageKey,
 } from "./types";
 import { LANGUAGES, VOICE_MAP } from "./constants";
 import * as geminiService from "./services/geminiService";
 import * as groupService from "./services/groupService";
 import * as storageService from "./services/storageService";
+import * as offlineService from "./services/offlineService";
+import * as mistakeJournalService from "./services/mistakeJournalService";
+import * as quizHistoryService from "./services/quizHistoryService";
+import * as quizBankService from "./services/quizBankService";
+import * as liveQuizService from "./services/liveQuizService";
+import * as placementService from "./services/placementService";
+import * as mockExamService from "./services/mockExamService";
+import * as chatSummaryService from "./services/chatSummaryService";
+import { isUnspacedScript } from "./services/textComparisonService";
 import {
   ChevronDownIcon,
   CloseIcon,
@@ -51,7 +66,8 @@ import {
   MinimizeIcon,
   DocumentTextIcon,
   FlashcardsIcon,
-  CrownIcon
+  CrownIcon,
+  PencilSquareIcon
 } from "./components/Icons";
 import LoadingSpinner from "./components/LoadingSpinner";
 import {
@@ -87,6 +103,14 @@ import NotesModal from "./components/NotesModal.tsx";
 import RecordRTC from 'recordrtc';
 import AgeVerificationModal from "./components/AgeVerificationModal.tsx";
 import FlashcardModal from "./components/FlashcardModal";
+import MistakeJournalModal from "./components/MistakeJournalModal";
+import LiveQuizPanel from "./components/LiveQuizPanel";
+import QuizHistoryModal from "./components/QuizHistoryModal";
+import ErrorAnalyticsModal from "./components/ErrorAnalyticsModal";
+import PlacementTestModal from "./components/PlacementTestModal";
+import QuizReviewList from "./components/QuizReviewList";
+import PronunciationAlignment from "./components/PronunciationAlignment";
+import CorrectionDiff from "./components/CorrectionDiff";
 import TutorialModal from './components/TutorialModal';
 
 // Helper for localStorage (Removed as we are using Firestore for persistence)
@@ -102,6 +126,9 @@ const base64ToArrayBuffer = (base64: string) => {
   return bytes.buffer;
 };
 
+// ID prefix of a solo chat reply that is still streaming in
+const STREAMING_MESSAGE_PREFIX = 'msg-ai-streaming-';
+
 interface AppContentProps {
   user: UserData;
 }
@@ -279,6 +306,7 @@ const UserProfile: React.FC<{
   isCancelling,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [showInsights, setShowInsights] = useState(false);
   const [localProfile, setLocalProfile] = useState<UserProfileData>({
     name: user.name || '',
     hobbies: user.hobbies || '',
@@ -426,6 +454,12 @@ const UserProfile: React.FC<{
                       </div>
                     )}
                   </div>
+                  <button
+                    onClick={() => setShowInsights(true)}
+                    className="mt-3 w-full px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-bold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 text-sm"
+                  >
+                    Study Insights: What to Work On
+                  </button>
                 </div>
                 <div className="border-t dark:border-gray-700 mt-4 pt-4">
                   <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Account Type</h3>
@@ -465,6 +499,14 @@ const UserProfile: React.FC<{
           </div>
         </div>
       )}
+      {showInsights && (
+        <ErrorAnalyticsModal
+          userId={user.uid}
+          languageCode={user.targetLanguage}
+          languageName={LANGUAGES.find(l => l.code === user.targetLanguage)?.name || user.targetLanguage}
+          onClose={() => setShowInsights(false)}
+        />
+      )}
     </>
   );
 };
@@ -657,11 +699,15 @@ const MatchingQuestion: React.FC<{ question: Extract<QuizQuestion, { type: 'matc
 const SpeakingQuestion: React.FC<{ 
   question: Extract<QuizQuestion, { type: 'speaking' }>, 
   onAnswer: (answer: string) => void,
-  targetLanguage: string
-}> = ({ question, onAnswer, targetLanguage }) => {
+  targetLanguage: string,
+  isExam?: boolean // Answer with the transcript straight away, without showing feedback
+}> = ({ question, onAnswer, targetLanguage, isExam }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [feedback, setFeedback] = useState<string | null>(null);
+  const [transcription, setTranscription] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null); // Optional AI explanation of the alignment
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [processingError, setProcessingError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   const [audioDuration, setAudioDuration] = useState(0);
@@ -714,7 +760,9 @@ const SpeakingQuestion: React.FC<{
       
       recorderRef.current = newRecorder;
       setAudioBlob(null);
+      setTranscription(null);
       setFeedback(null);
+      setProcessingError(null);
       setIsRecording(true);
       startTimer();
   
@@ -744,21 +792,45 @@ const SpeakingQuestion: React.FC<{
     }
   }, [stopTimer]);
 
+  // The score comes from a local word alignment of the transcript; the AI is only asked
+  // to explain it if the learner wants
   const handleSubmit = async () => {
     if (!audioBlob) return;
     setIsProcessing(true);
-    setFeedback(null);
+    setProcessingError(null);
     try {
-      const transcription = await geminiService.transcribeAudio(audioBlob, targetLangCode);
-      const aiFeedback = await geminiService.comparePronunciation(question.sentenceToRead, transcription, targetLanguage);
-      setFeedback(aiFeedback);
+      const text = await geminiService.transcribeAudio(audioBlob, targetLangCode);
+      if (isExam) {
+        onAnswer(text);
+        return;
+      }
+      setTranscription(text);
     } catch (error) {
-      setFeedback("Sorry, there was an error processing your audio.");
+      if (isExam) {
+        onAnswer(""); // Counts as unanswered rather than holding up the exam
+        return;
+      }
+      setProcessingError("Sorry, there was an error processing your audio.");
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleExplain = async () => {
+    if (transcription === null || isExplaining) return;
+    setIsExplaining(true);
+    const aiFeedback = await geminiService.comparePronunciation(question.sentenceToRead, transcription, targetLanguage);
+    setFeedback(aiFeedback);
+    setIsExplaining(false);
+  };
+
+  const handleRetry = () => {
+    setAudioBlob(null);
+    setTranscription(null);
+    setFeedback(null);
+    setProcessingError(null);
+  };
+
   const formatTime = (seconds: number) => {
     const min = Math.floor(seconds / 60);
     const sec = seconds % 60;
@@ -785,21 +857,45 @@ const SpeakingQuestion: React.FC<{
         </button>
       )}
 
-      {audioBlob && !isProcessing && !feedback && (
+      {audioBlob && !isProcessing && transcription === null && !processingError && (
         <button onClick={handleSubmit} className="w-full px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600">
-          Submit for Feedback
+          {isExam ? "Submit Recording" : "Submit for Feedback"}
         </button>
       )}
 
       {isProcessing && <LoadingSpinner />}
-      
-      {feedback && (
-        <div className="mt-4 p-4 bg-white dark:bg-gray-800 rounded-lg">
-          <h4 className="font-bold mb-2">Feedback:</h4>
-          <p>{feedback}</p>
-          <button onClick={() => onAnswer("completed")} className="w-full mt-4 px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">
-            Continue
-          </button>
+
+      {processingError && (
+        <div className="mt-4 space-y-2">
+          <p className="text-red-500">{processingError}</p>
+          <div className="flex gap-2">
+            <button onClick={handleRetry} className="flex-1 px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">Try Again</button>
+            <button onClick={() => onAnswer("")} className="flex-1 px-6 py-2 bg-gray-500 text-white font-bold rounded-lg hover:bg-gray-600">Skip</button>
+          </div>
+        </div>
+      )}
+
+      {transcription !== null && (
+        <div className="mt-4 p-4 bg-white dark:bg-gray-800 rounded-lg space-y-4">
+          <PronunciationAlignment expected={question.sentenceToRead} transcript={transcription} />
+          {feedback ? (
+            <div className="text-left">
+              <h4 className="font-bold mb-2">Feedback:</h4>
+              <p>{feedback}</p>
+            </div>
+          ) : (
+            <button onClick={handleExplain} disabled={isExplaining} className="text-sm text-blue-500 hover:underline disabled:opacity-50">
+              {isExplaining ? "Explaining..." : "Explain my pronunciation"}
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button onClick={handleRetry} className="flex-1 px-6 py-2 bg-gray-500 text-white font-bold rounded-lg hover:bg-gray-600">
+              Try Again
+            </button>
+            <button onClick={() => onAnswer(transcription)} className="flex-1 px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">
+              Continue
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -837,6 +933,209 @@ const ListeningQuestion: React.FC<{ question: Extract<QuizQuestion, { type: 'lis
     );
 };
 
+interface OrderingToken {
+  id: number; // Position in the correct order; keeps repeated words apart
+  text: string;
+}
+
+// Give up on avoiding the answer order after this many shuffles
+const MAX_SHUFFLE_ATTEMPTS = 20;
+
+// Shuffles the tokens, making sure the result isn't already the answer when it can be
+const shuffleTokens = (tokens: string[]): OrderingToken[] => {
+  const withIds = tokens.map((text, id) => ({ id, text }));
+  // Every order of identical tokens reads as the answer
+  if (new Set(tokens).size < 2) return withIds;
+  let shuffled = withIds;
+  for (let attempt = 0; attempt < MAX_SHUFFLE_ATTEMPTS && shuffled.every((token, index) => token.text === tokens[index]); attempt++) {
+    shuffled = [...withIds].sort(() => Math.random() - 0.5);
+  }
+  return shuffled;
+};
+
+const OrderingQuestion: React.FC<{ question: Extract<QuizQuestion, { type: 'ordering' }>, onAnswer: (answer: string) => void }> = ({ question, onAnswer }) => {
+  const [bank, setBank] = useState<OrderingToken[]>(() => shuffleTokens(question.tokens));
+  const [placed, setPlaced] = useState<OrderingToken[]>([]);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  // Tap a word to move it between the word bank and the sentence
+  const placeToken = (token: OrderingToken) => {
+    setBank(prev => prev.filter(t => t.id !== token.id));
+    setPlaced(prev => [...prev, token]);
+  };
+
+  const returnToken = (token: OrderingToken) => {
+    setPlaced(prev => prev.filter(t => t.id !== token.id));
+    setBank(prev => [...prev, token]);
+  };
+
+  // Dropping a word on another one in the sentence puts it in that word's place
+  const handleDrop = (targetId: number | null) => {
+    if (draggedId === null || draggedId === targetId) return;
+    const dragged = placed.find(t => t.id === draggedId) || bank.find(t => t.id === draggedId);
+    if (!dragged) return;
+
+    setBank(prev => prev.filter(t => t.id !== draggedId));
+    setPlaced(prev => {
+      const withoutDragged = prev.filter(t => t.id !== draggedId);
+      const targetIndex = targetId === null ? -1 : withoutDragged.findIndex(t => t.id === targetId);
+      if (targetIndex === -1) return [...withoutDragged, dragged];
+      return [...withoutDragged.slice(0, targetIndex), dragged, ...withoutDragged.slice(targetIndex)];
+    });
+    setDraggedId(null);
+  };
+
+  const handleSubmit = () => {
+    const separator = isUnspacedScript(question.correctAnswer) ? '' : ' ';
+    onAnswer(placed.map(t => t.text).join(separator));
+  };
+
+  const tokenClass = "px-3 py-2 rounded-lg cursor-grab active:cursor-grabbing select-none";
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div
+        className="min-h-[3.5rem] p-2 flex flex-wrap gap-2 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => { e.preventDefault(); handleDrop(null); }}
+      >
+        {placed.length === 0 && <span className="p-2 text-sm text-gray-400">Tap or drag the words here in order</span>}
+        {placed.map(token => (
+          <span
+            key={token.id}
+            draggable
+            onDragStart={() => setDraggedId(token.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); e.stopPropagation(); handleDrop(token.id); }}
+            onClick={() => returnToken(token)}
+            className={`${tokenClass} bg-blue-500 text-white ${draggedId === token.id ? 'opacity-50' : ''}`}
+          >
+            {token.text}
+          </span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 justify-center">
+        {bank.map(token => (
+          <span
+            key={token.id}
+            draggable
+            onDragStart={() => setDraggedId(token.id)}
+            onClick={() => placeToken(token)}
+            className={`${tokenClass} bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600`}
+          >
+            {token.text}
+          </span>
+        ))}
+      </div>
+      {bank.length === 0 && (
+        <button onClick={handleSubmit} className="w-full px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">
+          Submit Sentence
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ErrorCorrectionQuestion: React.FC<{ question: Extract<QuizQuestion, { type: 'error-correction' }>, onAnswer: (answer: string) => void }> = ({ question, onAnswer }) => {
+  // Starts from the faulty sentence so the learner only has to change the mistake
+  const [answer, setAnswer] = useState(question.sentenceWithError);
+
+  return (
+    <div className="mt-4 space-y-4">
+      <p className="p-4 text-lg text-center rounded-lg bg-red-50 dark:bg-red-900/30 text-gray-900 dark:text-gray-100">
+        {question.sentenceWithError}
+      </p>
+      <form onSubmit={(e) => { e.preventDefault(); onAnswer(answer); }} className="flex gap-4">
+        <input
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          aria-label="Corrected sentence"
+          className="flex-grow px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100"
+        />
+        <button type="submit" disabled={!answer.trim()} className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 disabled:opacity-50">Submit</button>
+      </form>
+    </div>
+  );
+};
+
+const TranslationQuestion: React.FC<{ question: Extract<QuizQuestion, { type: 'translation' }>, onAnswer: (answer: string) => void }> = ({ question, onAnswer }) => {
+  const [answer, setAnswer] = useState('');
+
+  return (
+    <div className="mt-4 space-y-4">
+      <p className="p-4 text-lg text-center rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100">
+        "{question.sourceSentence}"
+      </p>
+      <form onSubmit={(e) => { e.preventDefault(); onAnswer(answer); }} className="space-y-2">
+        <textarea
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          rows={3}
+          placeholder="Type your translation..."
+          className="w-full px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100"
+        />
+        <button type="submit" disabled={!answer.trim()} className="w-full px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 disabled:opacity-50">Submit</button>
+      </form>
+    </div>
+  );
+};
+
+// Answer controls for one question, shared by the quiz and the mock exam. Give it a
+// `key` per question so each question starts from a clean state.
+const QuizQuestionView: React.FC<{
+  question: QuizQuestion;
+  selectedAnswer?: string | string[];
+  onAnswer: (answer: string | string[]) => void;
+  onSpeak: (text: string) => Promise<void> | void;
+  targetLanguage: string;
+  isExam?: boolean;
+}> = ({ question, selectedAnswer, onAnswer, onSpeak, targetLanguage, isExam }) => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {question.options.map((option, index) => {
+            const isSelected = selectedAnswer === option;
+            return (
+              <button
+                key={index}
+                onClick={() => onAnswer(option)}
+                className={`p-4 rounded-lg text-left transition-colors duration-300 ${
+                  isSelected
+                    ? "bg-blue-500 text-white"
+                    : "bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    case 'matching':
+      return <MatchingQuestion question={question} onAnswer={onAnswer} />;
+    case 'fill-in-the-blank':
+      return (
+          <form onSubmit={(e) => { e.preventDefault(); onAnswer((e.target as any).elements.blank.value); }} className="mt-4 flex gap-4">
+              <input name="blank" className="flex-grow px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100" />
+              <button type="submit" className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">Submit</button>
+          </form>
+      );
+    case 'speaking':
+      return <SpeakingQuestion question={question} onAnswer={onAnswer} targetLanguage={targetLanguage} isExam={isExam} />;
+    case 'listening':
+      return <ListeningQuestion question={question} onAnswer={onAnswer} onSpeak={async (text) => { await onSpeak(text); }} />;
+    case 'ordering':
+      return <OrderingQuestion question={question} onAnswer={onAnswer} />;
+    case 'error-correction':
+      return <ErrorCorrectionQuestion question={question} onAnswer={onAnswer} />;
+    case 'translation':
+      return <TranslationQuestion question={question} onAnswer={onAnswer} />;
+    default:
+      return <p>Unsupported question type.</p>;
+  }
+};
+
 // Quiz Modal Component
 const QuizModal: React.FC<{
   topic: string;
@@ -849,15 +1148,56 @@ const QuizModal: React.FC<{
     totalGraded: number,
     questions: QuizQuestion[],
     userAnswers: (string | string[])[],
+    validatedResults?: ValidatedQuizResult[],
   ) => Promise<void>;
   onSpeakNote: (text: string, topic: string) => void;
   targetLanguage: string;
-}> = ({ questions, topic, onClose, onShareQuizResults, onSpeakNote, targetLanguage }) => {
+  nativeLanguageName: string;
+  level: number;
+  userId: string;
+  retakeOf?: string | null; // Set when retaking the missed questions of a saved attempt
+  lessonTopics: LessonTopicRef[]; // Lessons the explanations may link to
+  onOpenLesson?: (topic: LessonTopicRef) => void;
+  bankId?: string | null; // The quiz bank the questions came from; omit to hide reporting
+}> = ({ questions, topic, onClose, onShareQuizResults, onSpeakNote, targetLanguage, nativeLanguageName, level, userId, retakeOf, lessonTopics, onOpenLesson, bankId }) => {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<(string | string[])[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
   const [quizTopic] = useState(topic);
+  const [validatedResults, setValidatedResults] = useState<ValidatedQuizResult[] | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [reportedIndexes, setReportedIndexes] = useState<Set<number>>(new Set());
+
+  const isMountedRef = useRef(true);
+  useEffect(() => () => { isMountedRef.current = false; }, []);
+
+  // Grade the finished quiz once, explain each answer, and save it to the quiz history.
+  // The score shows as soon as grading is done; explanations fill in after.
+  const gradeAndSave = async (answers: (string | string[])[]) => {
+    const results = await geminiService.validateQuizAnswers(questions, answers, targetLanguage, nativeLanguageName);
+    if (bankId) quizBankService.recordQuizResults(bankId, questions, results);
+    if (isMountedRef.current) {
+      setValidatedResults(results);
+      setIsExplaining(true);
+    }
+    const explainedResults = await geminiService.explainQuizResults(questions, results, lessonTopics, targetLanguage, nativeLanguageName);
+    if (isMountedRef.current) {
+      setValidatedResults(explainedResults);
+      setIsExplaining(false);
+    }
+    await quizHistoryService.saveQuizAttempt(userId, {
+      topic: quizTopic,
+      language: targetLanguage,
+      level,
+      questions,
+      results: explainedResults,
+      score: explainedResults.filter(result => result.isCorrect).length,
+      total: questions.length,
+      retakeOf: retakeOf ?? null,
+      createdAt: Date.now(),
+    });
+  };
 
   if (!questions || questions.length === 0) {
     return (
@@ -878,41 +1218,6 @@ const QuizModal: React.FC<{
   }
 
   const currentQuestion = questions[currentQuestionIndex];
-  const { score, totalGraded } = useMemo(() => {
-    let score = 0;
-    let totalGraded = 0;
-    userAnswers.forEach((answer, index) => {
-      const question = questions[index];
-      if (question.type === 'multiple-choice' || question.type === 'fill-in-the-blank') {
-        totalGraded++;
-        if (answer === question.correctAnswer) {
-          score++;
-        }
-      // FIX: Update matching logic to use the new ID-based answer format
-      } else if (question.type === 'matching' && Array.isArray(answer)) {
-        totalGraded++;
-        
-        const isCorrect = question.pairs.every((pair, i) => {
-            // The correct answer for the Nth term is the Nth term ID mapped to the Nth definition ID.
-            const correctPairId = `term-${i}:def-${i}`;
-            // The user's answer array is guaranteed to be in the order of the terms displayed (which is the original order).
-            return answer[i] === correctPairId;
-        });
-
-        if (isCorrect) {
-            score++;
-        }
-      } else if (question.type === 'speaking' || question.type === 'listening') {
-        // Not graded automatically, but we can give a point for completion
-        if (answer) { // If an answer was submitted
-            score++;
-            totalGraded++;
-        }
-      }
-    });
-    return { score, totalGraded };
-  }, [userAnswers, questions]);
-
   const handleAnswer = (answer: string | string[]) => {
     const newAnswers = [...userAnswers];
     newAnswers[currentQuestionIndex] = answer;
@@ -923,58 +1228,27 @@ const QuizModal: React.FC<{
         setCurrentQuestionIndex(currentQuestionIndex + 1);
       } else {
         setShowResults(true);
+        gradeAndSave(newAnswers);
       }
     }, 500);
   };
 
+  const handleReport = async () => {
+    if (!bankId || !window.confirm("Report this question as wrong or confusing? Questions reported by several learners are removed.")) return;
+    const index = currentQuestionIndex;
+    if (await quizBankService.reportQuizItem(bankId, questions[index])) {
+      setReportedIndexes(prev => new Set(prev).add(index));
+    }
+  };
+
   const handleShare = async () => {
-    if (isSharing) return;
+    if (isSharing || !validatedResults) return;
     setIsSharing(true);
-    
-    await onShareQuizResults(quizTopic, score, totalGraded, questions, userAnswers);
 
-    setIsSharing(false);
-  };
+    const score = validatedResults.filter(result => result.isCorrect).length;
+    await onShareQuizResults(quizTopic, score, questions.length, questions, userAnswers, validatedResults);
 
-  const renderQuestion = () => {
-    switch (currentQuestion.type) {
-      case 'multiple-choice':
-        return (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
-            {currentQuestion.options.map((option, index) => {
-              const isSelected = userAnswers[currentQuestionIndex] === option;
-              return (
-                <button
-                  key={index}
-                  onClick={() => handleAnswer(option)}
-                  className={`p-4 rounded-lg text-left transition-colors duration-300 ${
-                    isSelected
-                      ? "bg-blue-500 text-white"
-                      : "bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
-                  }`}
-                >
-                  {option}
-                </button>
-              );
-            })}
-          </div>
-        );
-      case 'matching':
-        return <MatchingQuestion question={currentQuestion} onAnswer={handleAnswer} key={currentQuestionIndex} />;
-      case 'fill-in-the-blank':
-        return (
-            <form key={currentQuestionIndex} onSubmit={(e) => { e.preventDefault(); handleAnswer((e.target as any).elements.blank.value); }} className="mt-4 flex gap-4">
-                <input name="blank" className="flex-grow px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 dark:text-gray-100" />
-                <button type="submit" className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">Submit</button>
-            </form>
-        );
-      case 'speaking':
-        return <SpeakingQuestion question={currentQuestion} onAnswer={handleAnswer} targetLanguage={targetLanguage} />;
-      case 'listening':
-        return <ListeningQuestion question={currentQuestion} onAnswer={handleAnswer} onSpeak={(text) => onSpeakNote(text, topic)} />;
-      default:
-        return <p>Unsupported question type.</p>;
-    }
+    setIsSharing(false);
   };
 
   return (
@@ -1003,9 +1277,22 @@ const QuizModal: React.FC<{
               <p className="text-2xl text-gray-800 dark:text-gray-200">
                 You scored
               </p>
-              <p className="text-5xl font-bold text-blue-500">
-                {score} / {totalGraded}
-              </p>
+              {validatedResults ? (
+                <>
+                  <p className="text-5xl font-bold text-blue-500">
+                    {validatedResults.filter(result => result.isCorrect).length} / {questions.length}
+                  </p>
+                  {isExplaining && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Preparing explanations...</p>
+                  )}
+                  <QuizReviewList questions={questions} results={validatedResults} onOpenLesson={onOpenLesson} />
+                </>
+              ) : (
+                <div className="flex flex-col items-center gap-2">
+                  <LoadingSpinner />
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Checking your answers...</p>
+                </div>
+              )}
             </div>
           ) : (
             <div className="p-6 space-y-4">
@@ -1015,7 +1302,25 @@ const QuizModal: React.FC<{
               <p className="text-xl font-semibold text-gray-900 dark:text-white">
                 {currentQuestion.question}
               </p>
-              {renderQuestion()}
+              <QuizQuestionView
+                key={currentQuestionIndex}
+                question={currentQuestion}
+                selectedAnswer={userAnswers[currentQuestionIndex]}
+                onAnswer={handleAnswer}
+                onSpeak={(text) => onSpeakNote(text, topic)}
+                targetLanguage={targetLanguage}
+              />
+              {bankId && (
+                <div className="text-right">
+                  {reportedIndexes.has(currentQuestionIndex) ? (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">Thanks, this question was reported.</span>
+                  ) : (
+                    <button onClick={handleReport} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+                      Report a problem with this question
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1031,7 +1336,7 @@ const QuizModal: React.FC<{
               </button>
               <button
                 onClick={handleShare}
-                disabled={isSharing}
+                disabled={isSharing || !validatedResults}
                 className="px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 disabled:opacity-75"
               >
                 {isSharing ? "Sharing..." : "Discuss with Pal"}
@@ -1043,6 +1348,280 @@ const QuizModal: React.FC<{
   );
 };
 
+// Mock Exam Modal Component
+const MockExamModal: React.FC<{
+  language: string;
+  nativeLanguageName: string;
+  initialLevel: number;
+  userId: string;
+  onSpeakNote: (text: string, contextOrLangCode: string) => void;
+  handleUsageCheck: (feature: UsageKey, action: () => void) => Promise<void>;
+  onClose: () => void;
+}> = ({ language, nativeLanguageName, initialLevel, userId, onSpeakNote, handleUsageCheck, onClose }) => {
+  const [stage, setStage] = useState<'intro' | 'loading' | 'active' | 'grading' | 'report'>('intro');
+  const [level, setLevel] = useState(initialLevel);
+  const [exam, setExam] = useState<MockExam | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const [results, setResults] = useState<ValidatedQuizResult[] | null>(null);
+  const [report, setReport] = useState<mockExamService.MockExamReport | null>(null);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+  const answersRef = useRef<(string | string[])[]>([]); // Read by the timer, so kept outside state
+  const deadlineRef = useRef(0);
+  const isFinishingRef = useRef(false);
+
+  const languageCode = LANGUAGES.find((lang) => lang.name === language)?.code || language;
+  const questions = useMemo(() => (exam ? mockExamService.getExamQuestions(exam) : []), [exam]);
+
+  // Which section the current question is in, and its position there
+  const currentPosition = useMemo(() => {
+    let offset = 0;
+    for (const [sectionIndex, section] of (exam?.sections || []).entries()) {
+      if (currentIndex < offset + section.questions.length) {
+        return { section, sectionIndex, indexInSection: currentIndex - offset };
+      }
+      offset += section.questions.length;
+    }
+    return null;
+  }, [exam, currentIndex]);
+
+  const finishExam = useCallback(async (timeUp: boolean) => {
+    if (!exam || isFinishingRef.current) return;
+    isFinishingRef.current = true;
+    setIsTimeUp(timeUp);
+    setStage('grading');
+
+    const answers = questions.map((_, index) => answersRef.current[index] ?? '');
+    const graded = await mockExamService.gradeMockExam(exam, answers, nativeLanguageName);
+    const examReport = mockExamService.buildExamReport(exam, graded);
+    setResults(graded);
+    setReport(examReport);
+    setStage('report');
+
+    quizHistoryService.saveQuizAttempt(userId, {
+      topic: `Mock Exam (${examReport.band})`,
+      language,
+      level: exam.level,
+      questions,
+      results: graded,
+      score: graded.filter((result) => result.isCorrect).length,
+      total: questions.length,
+      retakeOf: null,
+      passage: mockExamService.getExamPassage(exam),
+      createdAt: Date.now(),
+    });
+  }, [exam, questions, nativeLanguageName, userId, language]);
+
+  // Counts down from a fixed deadline, so a throttled background tab can't buy extra time
+  useEffect(() => {
+    if (stage !== 'active') return;
+    const timer = setInterval(() => {
+      setRemainingSeconds(Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000)));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage === 'active' && remainingSeconds === 0) {
+      finishExam(true);
+    }
+  }, [stage, remainingSeconds, finishExam]);
+
+  const handleStart = () => {
+    handleUsageCheck("quizzes", async () => {
+      setStage('loading');
+      try {
+        const newExam = await mockExamService.createMockExam(language, nativeLanguageName, level);
+        answersRef.current = [];
+        isFinishingRef.current = false;
+        deadlineRef.current = Date.now() + newExam.durationSeconds * 1000;
+        setExam(newExam);
+        setCurrentIndex(0);
+        setRemainingSeconds(newExam.durationSeconds);
+        setStage('active');
+      } catch (error) {
+        console.error("Mock exam generation failed:", error);
+        alert("Failed to generate the exam. Please try again.");
+        setStage('intro');
+      }
+    });
+  };
+
+  // Answers are recorded without any feedback; the exam moves straight on
+  const handleAnswer = (answer: string | string[]) => {
+    answersRef.current[currentIndex] = answer;
+    if (currentIndex < questions.length - 1) {
+      setCurrentIndex(currentIndex + 1);
+    } else {
+      finishExam(false);
+    }
+  };
+
+  const handleSubmitEarly = () => {
+    if (window.confirm("Submit the exam now? Unanswered questions will be marked wrong.")) {
+      finishExam(false);
+    }
+  };
+
+  const handleClose = () => {
+    if ((stage === 'active' || stage === 'grading') && !window.confirm("Leave the exam? Your answers will be lost.")) return;
+    onClose();
+  };
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60).toString().padStart(2, "0")}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+  const band = mockExamService.toCefrBand(exam?.level ?? level);
+
+  const renderIntro = () => (
+    <div className="space-y-4 text-gray-700 dark:text-gray-300">
+      <p>
+        A timed exam covering several {language} lessons of one level, in four sections: reading, listening, grammar & vocabulary, and speaking.
+        There is no feedback until the end, and the exam is submitted automatically when time runs out.
+      </p>
+      <div>
+        <p className="font-semibold mb-2 text-center">Exam Level:</p>
+        <div className="flex justify-center gap-2">
+          {[1, 2, 3, 4, 5].map((lvl) => (
+            <button
+              key={lvl}
+              onClick={() => setLevel(lvl)}
+              className={`px-3 py-1 rounded-full text-sm ${level === lvl ? "bg-blue-500 text-white" : "bg-gray-200 dark:bg-gray-700"}`}
+            >
+              {mockExamService.toCefrBand(lvl)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {mockExamService.SECTION_ORDER.map((kind) => (
+          <li key={kind} className="flex justify-between p-2 rounded bg-gray-100 dark:bg-gray-700">
+            <span>{mockExamService.SECTION_LABELS[kind]}</span>
+            <span>{mockExamService.SECTION_SIZES[kind]} questions</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-sm text-center">
+        Time allowed: {mockExamService.getExamDurationSeconds(level) / 60} minutes. Pass mark: {mockExamService.PASS_MARK * 100}% overall and at least {mockExamService.SECTION_PASS_MARK * 100}% in every section.
+      </p>
+      <button onClick={handleStart} className="w-full px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600">
+        Start {mockExamService.toCefrBand(level)} Exam
+      </button>
+    </div>
+  );
+
+  const renderQuestion = () => {
+    if (!exam || !currentPosition) return null;
+    const { section, sectionIndex, indexInSection } = currentPosition;
+    const question = questions[currentIndex];
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Section {sectionIndex + 1} of {exam.sections.length} · {mockExamService.SECTION_LABELS[section.kind]} · Question {indexInSection + 1} of {section.questions.length}
+        </p>
+        {section.passage && (
+          <div className="max-h-60 overflow-y-auto p-4 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 whitespace-pre-line">
+            {section.passage}
+          </div>
+        )}
+        <p className="text-xl font-semibold text-gray-900 dark:text-white">{question.question}</p>
+        <QuizQuestionView
+          key={currentIndex}
+          question={question}
+          onAnswer={handleAnswer}
+          onSpeak={(text) => onSpeakNote(text, languageCode)}
+          targetLanguage={language}
+          isExam
+        />
+        <div className="flex justify-between pt-2">
+          <button onClick={() => handleAnswer('')} className="text-sm text-gray-500 dark:text-gray-400 hover:underline">
+            Skip question
+          </button>
+          <button onClick={handleSubmitEarly} className="text-sm text-red-500 hover:underline">
+            Submit exam
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderReport = () => report && results && (
+    <div className="space-y-4">
+      <div className="text-center space-y-1">
+        <p className={`text-3xl font-bold ${report.passed ? "text-green-600 dark:text-green-400" : "text-red-500"}`}>
+          {report.passed ? `${report.band} Passed` : `${report.band} Not Passed Yet`}
+        </p>
+        <p className="text-gray-700 dark:text-gray-300">
+          {Math.round(report.percent * 100)}% · Estimated level: <span className="font-bold">{report.achievedBand}</span>
+        </p>
+        {isTimeUp && <p className="text-sm text-gray-500 dark:text-gray-400">Time ran out, so unanswered questions were marked wrong.</p>}
+        {report.isReadyForNextLevel && (
+          <p className="text-sm text-blue-500">A score like this suggests you're ready to try the next level's exam.</p>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {report.sections.map((section) => {
+          const sectionPercent = section.total > 0 ? section.score / section.total : 0;
+          return (
+            <li key={section.kind}>
+              <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+                <span>{mockExamService.SECTION_LABELS[section.kind]}</span>
+                <span>{section.score} / {section.total}</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full ${sectionPercent >= mockExamService.SECTION_PASS_MARK ? "bg-green-500" : "bg-red-500"}`}
+                  style={{ width: `${sectionPercent * 100}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <QuizReviewList questions={questions} results={results} />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+            {stage === 'report' ? "Exam Report" : `Mock Exam: ${language} ${band}`}
+          </h2>
+          <div className="flex items-center gap-4">
+            {stage === 'active' && (
+              <span className={`font-mono font-bold ${remainingSeconds < 60 ? "text-red-500 animate-pulse" : "text-gray-700 dark:text-gray-300"}`}>
+                {formatTime(remainingSeconds)}
+              </span>
+            )}
+            <button onClick={handleClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close mock exam">
+              <CloseIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-grow overflow-y-auto p-6">
+          {stage === 'intro' && renderIntro()}
+          {stage === 'loading' && (
+            <div className="flex flex-col items-center gap-2">
+              <LoadingSpinner />
+              <p className="text-sm text-gray-500 dark:text-gray-400">Writing your exam...</p>
+            </div>
+          )}
+          {stage === 'active' && renderQuestion()}
+          {stage === 'grading' && (
+            <div className="flex flex-col items-center gap-2">
+              <LoadingSpinner />
+              <p className="text-sm text-gray-500 dark:text-gray-400">Marking your exam...</p>
+            </div>
+          )}
+          {stage === 'report' && renderReport()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // Replace the entire TeachMeModal component in App.tsx with this corrected version.
 const TeachMeModal: React.FC<{
   language: string;
@@ -1056,6 +1635,7 @@ const TeachMeModal: React.FC<{
     totalGraded: number,
     questions: QuizQuestion[],
     userAnswers: (string | string[])[],
+    validatedResults?: ValidatedQuizResult[],
   ) => void;
   handleUsageCheck: (feature: UsageKey, action: () => void) => Promise<void>;
   isGroupChat: boolean;
@@ -1096,8 +1676,12 @@ const TeachMeModal: React.FC<{
     return initialValue;
   });
 
+  const languageCode = LANGUAGES.find((lang) => lang.name === language)?.code || language;
+
   const [level, setLevel] = useState<number>(() => {
-    const initialValue = (isGroupChat && groupChat?.groupTeachMeSettings?.level) || 1;
+    const initialValue = (isGroupChat && groupChat?.groupTeachMeSettings?.level) ||
+      (!isGroupChat && placementService.getPlacementLevel(user.placementLevels, languageCode, activeTab)) ||
+      1;
     console.log(`%c[DEBUG 1] level INIT: %c${initialValue}`, 'color: #1aff00; font-weight: bold;', 'color: #33ff00;');
     return initialValue;
   });
@@ -1116,7 +1700,13 @@ const TeachMeModal: React.FC<{
 
   const [isLoading, setIsLoading] = useState(false);
   const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[] | null>(null);
+  const [quizBankId, setQuizBankId] = useState<string | null>(null);
   const [showQuiz, setShowQuiz] = useState(false);
+  const [retakeAttempt, setRetakeAttempt] = useState<QuizAttempt | null>(null); // Saved attempt being retaken, if any
+  const [showQuizHistory, setShowQuizHistory] = useState(false);
+  const [showInsights, setShowInsights] = useState(false);
+  const [showPlacementTest, setShowPlacementTest] = useState(false);
+  const [showMockExam, setShowMockExam] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [showVideoGallery, setShowVideoGallery] = useState(false);
@@ -1208,7 +1798,12 @@ const TeachMeModal: React.FC<{
       setIsLoading(true);
       try {
         const nativeLanguageName = LANGUAGES.find(l => l.code === nativeLanguage)?.name || nativeLanguage;
-        const newContent = await geminiService.getContent(selectedTopic, activeTab, language, nativeLanguageName);
+        // Show the lesson as it streams in
+        const newContent = await geminiService.getContent(selectedTopic, activeTab, language, nativeLanguageName, (partialContent) => {
+          if (!isCurrent) return;
+          setContent(partialContent);
+          setIsLoading(false);
+        });
         if (isCurrent) {
           setContent(newContent);
           setCache({ language, type: activeTab, topic: selectedTopic, content: newContent });
@@ -1226,12 +1821,12 @@ const TeachMeModal: React.FC<{
 
 
   // --- 3. HANDLERS (with restored debug logs and NO finally block) ---
-  const handleTopicSelect = async (topic: string) => {
+  const handleTopicSelect = async (topic: string, type: TeachMeType = activeTab, topicLevel: number = level) => {
     if (isHost && onSetGroupTopic) {
       handleUsageCheck("lessons", () => {
         // We no longer await here. We just fire and forget. 
         // The parent component handles all async logic and UI updates via Firestore listener.
-        onSetGroupTopic(topic, activeTab, level, language);
+        onSetGroupTopic(topic, type, topicLevel, language);
       });
     } else if (!isGroupChat) {
       handleUsageCheck("lessons", () => {
@@ -1243,7 +1838,8 @@ const TeachMeModal: React.FC<{
   
   // No changes are needed for the rest of the component logic or the JSX.
   // The following code is identical to the previous version but is included for completeness.
-  const availableTopics = useMemo(() => {
+  // Every lesson on the active track that the user's content preference allows
+  const trackTopics = useMemo(() => {
     
     // --- START FIX: Lesson Content Filtering and Merging Logic ---
     const languageKey = language as keyof typeof grammarData;
@@ -1307,7 +1903,11 @@ const TeachMeModal: React.FC<{
         }
     }
     // --- END FIX ---
-    
+    return baseData;
+  }, [activeTab, language, user.contentPreference, user.isAgeVerified]);
+
+  const availableTopics = useMemo(() => {
+    const baseData = trackTopics;
     let filteredTopics = baseData; // Use the merged content as the source
 
     if (searchQuery.trim()) {
@@ -1323,7 +1923,25 @@ const TeachMeModal: React.FC<{
     }
     
     return filteredTopics;
-  }, [activeTab, level, language, searchQuery, user.contentPreference, user.isAgeVerified]);
+  }, [trackTopics, level, searchQuery]);
+
+  // Lessons a quiz's explanations may link to: the quiz's track, within a level of the quiz
+  const quizLessonTopics = useMemo((): LessonTopicRef[] => {
+    if (retakeAttempt && retakeAttempt.language !== language) return [];
+    const quizLevel = retakeAttempt ? retakeAttempt.level : level;
+    return (trackTopics as any[])
+      .filter((topic) => Math.abs(topic.level - quizLevel) <= 1)
+      .map((topic) => ({ title: topic.title, level: topic.level, type: activeTab }));
+  }, [trackTopics, level, retakeAttempt, language, activeTab]);
+
+  // Each track starts at its own placement level, when the learner has one
+  const handleTabChange = (tab: TeachMeType) => {
+    setActiveTab(tab);
+    const placementLevel = placementService.getPlacementLevel(user.placementLevels, languageCode, tab);
+    if (placementLevel) {
+      setLevel(placementLevel);
+    }
+  };
 
   const handleLevelChange = (lvl: number) => {
     console.log(`%c[DEBUG 5: HANDLER] %cLevel change from ${level} to ${lvl}`, 'color: purple; font-weight: bold;', 'color: inherit;');
@@ -1363,8 +1981,9 @@ const TeachMeModal: React.FC<{
     totalGraded: number,
     questions: QuizQuestion[],
     userAnswers: (string | string[])[],
+    validatedResults?: ValidatedQuizResult[],
   ) => {
-    onShareQuizResults(topic, score, totalGraded, questions, userAnswers);
+    onShareQuizResults(topic, score, totalGraded, questions, userAnswers, validatedResults);
     onClose();
   };
 
@@ -1374,30 +1993,85 @@ const TeachMeModal: React.FC<{
 
     console.log(`%c[DEBUG 9: QUIZ ME] %cTriggered for topic: ${finalTopic}`, 'color: green; font-weight: bold;', 'color: inherit;');
 
+    const nativeLanguageName =
+      LANGUAGES.find((lang) => lang.code === nativeLanguage)?.name ||
+      nativeLanguage;
+    const bankId = quizBankService.getBankId(language, nativeLanguageName, activeTab, finalTopic, level);
+    const startQuiz = (questions: QuizQuestion[]) => {
+      setQuizQuestions(questions);
+      setQuizBankId(bankId);
+      setRetakeAttempt(null);
+      setShowQuiz(true);
+    };
+
+    setIsLoading(true);
+    try {
+      // Quizzes assembled from the shared bank cost no generation, so no usage credit either
+      const bankedQuiz = await quizBankService.getBankedQuiz(bankId);
+      if (bankedQuiz) {
+        startQuiz(bankedQuiz);
+        return;
+      }
+
+      await handleUsageCheck("quizzes", async () => {
+        try {
+          const questions = await quizBankService.generateBankedQuiz(
+            language,
+            nativeLanguageName,
+            activeTab,
+            finalTopic,
+            level,
+          );
+          startQuiz(questions);
+        } catch (error) {
+          alert("Failed to generate quiz. Please try again.");
+          console.error("[DEBUG 9: QUIZ ME] Quiz generation failed:", error);
+        }
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Host only: generates a live quiz on the group's topic and pushes it to every member
+  const handleStartLiveQuiz = () => {
+    const finalTopic = groupTopic || selectedTopic;
+    if (!finalTopic || !groupChat) return;
+
     handleUsageCheck("quizzes", async () => {
       setIsLoading(true);
       try {
-        const nativeLanguageName =
-          LANGUAGES.find((lang) => lang.code === nativeLanguage)?.name ||
-          nativeLanguage;
-        const questions = await geminiService.generateQuiz(
-          finalTopic,
-          activeTab,
-          language,
-          nativeLanguageName,
-          level,
-        );
-        setQuizQuestions(questions);
-        setShowQuiz(true);
+        const questions = await geminiService.generateLiveQuizQuestions(finalTopic, language, level, liveQuizService.LIVE_QUIZ_QUESTION_COUNT);
+        await groupService.startLiveQuiz(groupChat.id, finalTopic, questions);
+        onClose();
       } catch (error) {
-        alert("Failed to generate quiz. Please try again.");
-        console.error("[DEBUG 9: QUIZ ME] Quiz generation failed:", error);
+        alert("Failed to start the group quiz. Please try again.");
+        console.error("Live quiz generation failed:", error);
       } finally {
         setIsLoading(false);
       }
     });
   };
 
+  const handleRetakeMissed = (attempt: QuizAttempt, missedQuestions: QuizQuestion[]) => {
+    setQuizQuestions(missedQuestions);
+    setQuizBankId(null);
+    setRetakeAttempt(attempt);
+    setShowQuizHistory(false);
+    setShowQuiz(true);
+  };
+
+  // Opens the lesson a quiz explanation links to, from the results or the history
+  const handleOpenLesson = (topic: LessonTopicRef) => {
+    setShowQuiz(false);
+    setShowQuizHistory(false);
+    setShowInsights(false);
+    setSearchQuery("");
+    setActiveTab(topic.type);
+    setLevel(topic.level);
+    handleTopicSelect(topic.title, topic.type, topic.level);
+  };
+
   const processSelection = (selection: Selection | null) => {
     const selectedText = selection?.toString().trim() ?? '';
 
@@ -1578,19 +2252,19 @@ const TeachMeModal: React.FC<{
                 <div className='flex-shrink-0'>
                     <div className="flex border-b dark:border-gray-600 mb-4 overflow-x-auto whitespace-nowrap">
                     <button
-                        onClick={() => setActiveTab("Grammar")}
+                        onClick={() => handleTabChange("Grammar")}
                         className={`flex-shrink-0 px-4 py-2 text-center text-sm sm:text-base ${activeTab === "Grammar" ? "border-b-2 border-blue-500 text-blue-500" : "text-gray-500"}`}
                     >
                         Grammar
                     </button>
                     <button
-                        onClick={() => setActiveTab("Vocabulary")}
+                        onClick={() => handleTabChange("Vocabulary")}
                         className={`flex-shrink-0 px-4 py-2 text-center text-sm sm:text-base ${activeTab === "Vocabulary" ? "border-b-2 border-blue-500 text-blue-500" : "text-gray-500"}`}
                     >
                         Vocabulary
                     </button>
                     <button
-                        onClick={() => setActiveTab("Conversation")}
+                        onClick={() => handleTabChange("Conversation")}
                         className={`flex-shrink-0 px-4 py-2 text-center text-sm sm:text-base ${activeTab === "Conversation" ? "border-b-2 border-blue-500 text-blue-500" : "text-gray-500"}`}
                     >
                         Scenarios
@@ -1611,6 +2285,14 @@ const TeachMeModal: React.FC<{
                         </button>
                         ))}
                     </div>
+                    {!isGroupChat && (
+                        <button
+                            onClick={() => setShowPlacementTest(true)}
+                            className="block mx-auto mt-2 text-xs text-blue-500 hover:underline"
+                        >
+                            Not sure? Take the placement test
+                        </button>
+                    )}
                     </div>
                 </div>
                 ) : (
@@ -1723,23 +2405,102 @@ const TeachMeModal: React.FC<{
             <YouTubeIcon className="w-5 h-5" />
             Find Videos
           </button>
-          <button
-            onClick={handleQuizMe}
-            disabled={!(groupTopic || selectedTopic) || isLoading}
-            className="px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
-          >
-            Quiz Me!
-          </button>
+          <div className="flex items-center gap-2">
+            {!isGroupChat && (
+              <button
+                onClick={() => setShowMockExam(true)}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-bold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                Mock Exam
+              </button>
+            )}
+            <button
+              onClick={() => setShowQuizHistory(true)}
+              className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-bold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              Quiz History
+            </button>
+            {!isGroupChat && (
+              <button
+                onClick={() => setShowInsights(true)}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 font-bold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                Insights
+              </button>
+            )}
+            {isHost && (
+              <button
+                onClick={handleStartLiveQuiz}
+                disabled={!(groupTopic || selectedTopic) || isLoading}
+                className="px-4 py-2 bg-purple-500 text-white font-bold rounded-lg hover:bg-purple-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                Start Group Quiz
+              </button>
+            )}
+            <button
+              onClick={handleQuizMe}
+              disabled={!(groupTopic || selectedTopic) || isLoading}
+              className="px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Quiz Me!
+            </button>
+          </div>
         </div>
       </div>
       {showQuiz && quizQuestions && (
         <QuizModal
           questions={quizQuestions}
-          topic={(groupTopic || selectedTopic)!}
+          topic={retakeAttempt ? retakeAttempt.topic : (groupTopic || selectedTopic)!}
           onClose={() => setShowQuiz(false)}
           onShareQuizResults={handleShareAndClose}
           onSpeakNote={onSpeakNote}
-          targetLanguage={language}
+          targetLanguage={retakeAttempt ? retakeAttempt.language : language}
+          nativeLanguageName={LANGUAGES.find((lang) => lang.code === nativeLanguage)?.name || nativeLanguage}
+          level={retakeAttempt ? retakeAttempt.level : level}
+          userId={user.uid}
+          retakeOf={retakeAttempt?.id}
+          lessonTopics={quizLessonTopics}
+          onOpenLesson={isMember ? undefined : handleOpenLesson}
+          bankId={quizBankId}
+        />
+      )}
+      {showMockExam && (
+        <MockExamModal
+          language={language}
+          nativeLanguageName={LANGUAGES.find((lang) => lang.code === nativeLanguage)?.name || nativeLanguage}
+          initialLevel={level}
+          userId={user.uid}
+          onSpeakNote={onSpeakNote}
+          handleUsageCheck={handleUsageCheck}
+          onClose={() => setShowMockExam(false)}
+        />
+      )}
+      {showPlacementTest && (
+        <PlacementTestModal
+          userId={user.uid}
+          languageCode={languageCode}
+          languageName={language}
+          nativeLanguageName={LANGUAGES.find((lang) => lang.code === nativeLanguage)?.name || nativeLanguage}
+          handleUsageCheck={handleUsageCheck}
+          onComplete={(result) => handleLevelChange(result.levels[activeTab] ?? level)}
+          onClose={() => setShowPlacementTest(false)}
+        />
+      )}
+      {showQuizHistory && (
+        <QuizHistoryModal
+          userId={user.uid}
+          onRetake={handleRetakeMissed}
+          onOpenLesson={isMember ? undefined : handleOpenLesson}
+          onClose={() => setShowQuizHistory(false)}
+        />
+      )}
+      {showInsights && (
+        <ErrorAnalyticsModal
+          userId={user.uid}
+          languageCode={languageCode}
+          languageName={language}
+          onOpenLesson={handleOpenLesson}
+          onClose={() => setShowInsights(false)}
         />
       )}
       {showVideoGallery && (
@@ -2042,6 +2803,7 @@ interface ChatModalProps {
     totalGraded: number,
     questions: QuizQuestion[],
     userAnswers: (string | string[])[],
+    validatedResults?: ValidatedQuizResult[],
   ) => void;
   userProfile: UserProfileData;
   handleUsageCheck: (feature: UsageKey, action: () => void) => Promise<void>;
@@ -2120,6 +2882,11 @@ const ChatModal: React.FC<ChatModalProps> = ({
   const [audioDuration, setAudioDuration] = useState(0);
   const [correctionsEnabled, setCorrectionsEnabled] = useState(true);
   const [showTeachMe, setShowTeachMe] = useState(false);
+  const [showMistakeJournal, setShowMistakeJournal] = useState(false);
+  const [dismissedLiveQuizId, setDismissedLiveQuizId] = useState<string | null>(null);
+  // The last live quiz this client saw running. A quiz that had already finished when the
+  // group was opened stays closed; its scoreboard is in the chat history.
+  const [watchedLiveQuizId, setWatchedLiveQuizId] = useState<string | null>(null);
   const chatHistoryRef = useRef<HTMLDivElement>(null);
   const quizSharedRef = useRef(false); 
   const [recorder, setRecorder] = useState<MediaRecorder | null>(null);
@@ -2130,6 +2897,10 @@ const ChatModal: React.FC<ChatModalProps> = ({
   const recorderRef = useRef<RecordRTC | null>(null);
   const messageRefs = useRef<Map<string, HTMLDivElement | null>>(new Map());
 
+  useEffect(() => {
+    if (groupChat?.liveQuiz && groupChat.liveQuiz.phase !== 'finished') setWatchedLiveQuizId(groupChat.liveQuiz.id);
+  }, [groupChat?.liveQuiz?.id, groupChat?.liveQuiz?.phase]);
+
   useEffect(() => {
     // 1. Clear any existing timer when dependencies change
     if (inactivityTimerRef.current) {
@@ -2621,6 +3392,13 @@ const ChatModal: React.FC<ChatModalProps> = ({
             >
               <BookOpenIcon className="w-5 h-5 sm:w-6 sm:h-6" />
             </button>
+            <button
+              onClick={() => setShowMistakeJournal(true)}
+              className="p-1 sm:p-2 rounded-full text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+              aria-label="Open mistake journal"
+            >
+              <PencilSquareIcon className="w-5 h-5 sm:w-6 sm:h-6" />
+            </button>
             <button
                 onClick={onMinimize}
                 className="p-1 sm:p-2 rounded-full text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
@@ -2718,11 +3496,15 @@ const ChatModal: React.FC<ChatModalProps> = ({
 
                   {!msg.audioUrl && (
                     <>
-                      {msg.correction && (
+                      {msg.correction && (msg.mistake?.original && msg.mistake.edits?.length ? (
+                        <div className="mt-2 pt-2 border-t border-green-300 dark:border-green-700 text-sm">
+                          <CorrectionDiff original={msg.mistake.original} corrected={msg.mistake.corrected} edits={msg.mistake.edits} />
+                        </div>
+                      ) : (
                         <p className="mt-2 pt-2 border-t border-green-300 dark:border-green-700 text-sm text-green-700 dark:text-green-300">
                           Correction: <em>{msg.correction}</em>
                         </p>
-                      )}
+                      ))}
                       {msg.translation && (
                         <p className="mt-2 pt-2 border-t border-gray-300 dark:border-gray-600 text-sm text-gray-500 dark:text-gray-400">
                           <em>{msg.translation}</em>
@@ -2741,7 +3523,7 @@ const ChatModal: React.FC<ChatModalProps> = ({
               </div>
             );
           })}
-          {isSending && (
+          {isSending && !messages[messages.length - 1]?.id?.startsWith(STREAMING_MESSAGE_PREFIX) && (
             <div className="flex items-end gap-2 justify-start">
               <img src={partner.avatar} className="w-8 h-8 rounded-full" />
               <div className="max-w-md p-3 rounded-lg bg-gray-200 dark:bg-gray-700">
@@ -2845,6 +3627,26 @@ const ChatModal: React.FC<ChatModalProps> = ({
           groupChat={groupChat}
         />
       )}
+      {showMistakeJournal && (
+        <MistakeJournalModal
+          userId={user.uid}
+          languages={LANGUAGES}
+          initialLanguageCode={partnerLanguageCode}
+          onClose={() => setShowMistakeJournal(false)}
+        />
+      )}
+      {groupChat?.liveQuiz && groupChat.liveQuiz.id !== dismissedLiveQuizId
+        && (groupChat.liveQuiz.phase !== 'finished' || groupChat.liveQuiz.id === watchedLiveQuizId) && (
+        <LiveQuizPanel
+          group={groupChat}
+          quiz={groupChat.liveQuiz}
+          userId={user.uid}
+          userName={user.displayName || 'User'}
+          isHost={userIsGroupCreator}
+          userProfile={userProfile}
+          onClose={() => setDismissedLiveQuizId(groupChat.liveQuiz!.id)}
+        />
+      )}
     </div>
   );
 };
@@ -2888,6 +3690,9 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
   const DEBOUNCE_TIME = 500;
   const [newMessage, setNewMessage] = useState("");
   const [isSending, setIsSending] = useState(false);
+  const [chatSummary, setChatSummary] = useState<ChatSummary | null>(null); // The solo chat's running summary
+  const isSummarizingRef = useRef(false);
+  const chatSessionRef = useRef(0); // Bumped whenever a different solo chat is opened
   const [nudgeCount, setNudgeCount] = useState(0);
   const [showAgeVerification, setShowAgeVerification] = useState(false);
   const [transcriptions, setTranscriptions] = useState<Record<string, string>>({});
@@ -2940,6 +3745,31 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
     }
   }, [nativeLanguage, user]);
 
+  // Send flashcard results saved while offline, now and whenever the connection returns
+  useEffect(() => {
+    if (!userUid) return;
+    const syncOfflineResults = () => {
+      offlineService.syncPendingWrites(userUid);
+    };
+    syncOfflineResults();
+    window.addEventListener('online', syncOfflineResults);
+    return () => window.removeEventListener('online', syncOfflineResults);
+  }, [userUid]);
+
+  // Fold the older part of a long solo chat into its summary, between replies
+  useEffect(() => {
+    if (activeGroup || !currentPartner || isSending || isSummarizingRef.current) return;
+    if (!chatSummaryService.needsSummary(currentChatMessages, chatSummary)) return;
+
+    const session = chatSessionRef.current;
+    isSummarizingRef.current = true;
+    chatSummaryService.updateChatSummary(currentChatMessages, chatSummary, currentPartner)
+      .then(summary => {
+        if (chatSessionRef.current === session) setChatSummary(summary);
+      })
+      .finally(() => { isSummarizingRef.current = false; });
+  }, [currentChatMessages, chatSummary, currentPartner, activeGroup, isSending]);
+
   const handleAddNudge = useCallback((response: Message, messagesSnapshot: Message[]) => {
     if (messagesSnapshot.length === currentChatMessages.length) { 
       setCurrentChatMessages((prev) => [...prev, { ...response, timestamp: Date.now() }]);
@@ -3031,6 +3861,21 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
     rank: getRank(user.xp || 0),
   };
 
+  // Keeps every correction a partner makes in the user's mistake journal
+  const saveToMistakeJournal = (original: string, response: Message, partner: Partner) => {
+    if (!user || !response.correction || !response.mistake) return;
+    mistakeJournalService.saveMistake(user.uid, {
+      original: original.trim(),
+      corrected: response.mistake.corrected,
+      explanation: response.correction,
+      category: response.mistake.category,
+      edits: response.mistake.edits || [],
+      languageCode: LANGUAGES.find(l => l.name === partner.nativeLanguage)?.code || partner.nativeLanguage,
+      partnerName: partner.name,
+      createdAt: Date.now(),
+    });
+  };
+
   const handleTextSubmit = async (e: React.FormEvent, correctionsEnabled: boolean) => {
     e.preventDefault();
     if (!newMessage.trim() || isSending) return;
@@ -3081,6 +3926,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
                 try {
                   const botResponse = await groupService.getGroupBotResponse(currentMessages, activeGroup.partner, userProfile, correctionsEnabled, groupTeachMeCache);
                   await groupService.addMessageToGroup(activeGroup.id, {...botResponse, timestamp: Date.now()}); 
+                  saveToMistakeJournal(messageToSend.replace(/^@bot\s*/i, ''), botResponse, activeGroup.partner);
                 } finally {
                   setIsSending(false);
                 }
@@ -3094,15 +3940,25 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
             try {
                 firestoreService.addXp(user.uid, 1);
                 const aiTimestamp = Date.now();
+                // The reply is shown as it streams in, then replaced by the finished message
+                const streamingId = `${STREAMING_MESSAGE_PREFIX}${aiTimestamp}`;
                 const aiResponse = await geminiService.getChatResponse(
                     messagesContext,
                     currentPartner!,
                     correctionsEnabled,
                     userProfile,
                     teachMeCache,
-                    false
+                    false,
+                    (partialText) => setCurrentChatMessages((prev) => {
+                        const streamingMessage: Message = { id: streamingId, sender: 'ai', text: partialText, timestamp: aiTimestamp };
+                        return prev.some(m => m.id === streamingId)
+                            ? prev.map(m => m.id === streamingId ? streamingMessage : m)
+                            : [...prev, streamingMessage];
+                    }),
+                    chatSummary
                 );
-                setCurrentChatMessages((prev) => [...prev, { ...aiResponse, id: `msg-ai-${aiTimestamp}`, timestamp: aiTimestamp }]);
+                setCurrentChatMessages((prev) => [...prev.filter(m => m.id !== streamingId), { ...aiResponse, id: `msg-ai-${aiTimestamp}`, timestamp: aiTimestamp }]);
+                saveToMistakeJournal(messageToSend, aiResponse, currentPartner!);
             } catch (error) {
                 console.error("Solo Chat Response Error:", error);
                 const errorTimestamp = Date.now();
@@ -3248,7 +4104,9 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
                 true,
                 userProfile,
                 teachMeCache,
-                false
+                false,
+                undefined,
+                chatSummary
             );
             
             setCurrentChatMessages((prev) => {
@@ -3260,6 +4118,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
                 
                 return newMessages;
             });
+            saveToMistakeJournal(transcription, aiResponse, currentPartner);
         
         } catch (error) {
              console.error("AI Response Failed after Transcription:", error);
@@ -3343,11 +4202,14 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
     setCurrentPartner(partner);
     setIsChatMinimized(false);
     setNudgeCount(0);
+    chatSessionRef.current++;
 
     if (savedChat && savedChat.partner.name === partner.name) {
       setCurrentChatMessages(savedChat.messages);
+      setChatSummary(savedChat.summary || null);
     } else {
       setCurrentChatMessages([]);
+      setChatSummary(null);
     }
   };
 
@@ -3374,6 +4236,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
             senderName: msg.senderName || null, 
             text: msg.text,
             correction: msg.correction || null,
+            mistake: msg.mistake || null,
             translation: msg.translation || null,
             audioUrl: msg.audioUrl || null,
             audioDuration: msg.audioDuration || null,
@@ -3383,6 +4246,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
         const chatToSave = {
             partner: currentPartner,
             messages: sanitizedMessages,
+            summary: chatSummary,
         };
         firestoreService.saveChatInFirestore(user.uid, chatToSave);
         
@@ -3414,6 +4278,8 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
       setCurrentPartner(savedChat.partner);
       setActiveGroup(null);
       setCurrentChatMessages(savedChat.messages);
+      chatSessionRef.current++;
+      setChatSummary(savedChat.summary || null);
     }
   };
 
@@ -3423,6 +4289,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
     totalGraded: number,
     questions: QuizQuestion[],
     userAnswers: (string | string[])[],
+    gradedResults?: ValidatedQuizResult[], // Already graded by the quiz, if it got that far
   ): Promise<void> => {
     
     if (isSending) {
@@ -3437,7 +4304,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
               firestoreService.addXp(user.uid, score);
             }
             
-            const validatedResults = await geminiService.validateQuizAnswers(questions, userAnswers, targetLanguage, nativeLanguage);
+            const validatedResults = gradedResults || await geminiService.validateQuizAnswers(questions, userAnswers, targetLanguage, nativeLanguage);
 
             let newScore = 0;
             const incorrectAnswers = questions
@@ -3492,8 +4359,18 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
 
                          quizSummary += `- **My Transcription:** \`${rawUserAnswer || '*(Skipped)*'}\`\n- **Correct Sentence:** \`${correctAnswer}\`\n\n`;
                     }
+                    else if (question.type === 'ordering' && typeof rawUserAnswer === 'string') {
+                        quizSummary += `- **My Word Order:** \`${rawUserAnswer || '*(Skipped)*'}\`\n- **Correct Sentence:** \`${question.correctAnswer}\`\n\n`;
+                    }
+                    else if (question.type === 'error-correction' && typeof rawUserAnswer === 'string') {
+                        quizSummary += `- **Sentence with the mistake:** \`${question.sentenceWithError}\`\n- **My Fix:** \`${rawUserAnswer || '*(Skipped)*'}\`\n- **Correct Sentence:** \`${question.correctAnswer}\`\n\n`;
+                    }
+                    else if (question.type === 'translation' && typeof rawUserAnswer === 'string') {
+                        quizSummary += `- **Sentence to translate:** \`${question.sourceSentence}\`\n- **My Translation:** \`${rawUserAnswer || '*(Skipped)*'}\`\n- **Model Translation:** \`${question.correctAnswer}\`\n\n`;
+                    }
                     else if ((question.type === 'speaking') && typeof rawUserAnswer === 'string') {
-                         quizSummary += `- *Speaking exercise completed.* (AI feedback expected separately)\n\n`;
+                         const pronunciationScore = validatedResults[questions.indexOf(question)]?.pronunciationScore;
+                         quizSummary += `- **Sentence to read:** \`${question.sentenceToRead}\`\n- **What was heard:** \`${rawUserAnswer || '*(Skipped)*'}\`${pronunciationScore !== undefined ? `\n- **Pronunciation Score:** ${pronunciationScore}%` : ''}\n\n`;
                     }
                 });
 
@@ -3543,7 +4420,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
                 }
             } else {
                 try {
-                    const aiResponse = await geminiService.getChatResponse([...currentChatMessages, quizMessage], currentPartner || partners[0], true, userProfile, teachMeCache, false);
+                    const aiResponse = await geminiService.getChatResponse([...currentChatMessages, quizMessage], currentPartner || partners[0], true, userProfile, teachMeCache, false, undefined, chatSummary);
                     setCurrentChatMessages((prev) => [...prev, quizMessage, aiResponse]);
                 } catch (error) {
                     console.error("Error getting quiz results response:", error);
@@ -4135,6 +5012,7 @@ const AppContent: React.FC<AppContentProps> = ({ user, errorModal, setErrorModal
           onSpeak={handleSpeakNote}
           handleUsageCheck={handleUsageCheck} 
           subscriptionStatus={userSubscription}
+          partnerGender={currentPartner?.gender}
         />
       )}
     </div>
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ClozePassage } from '../types';
+import { ClozeGrade } from '../services/clozeService';
+import { CheckIcon, XIcon } from './Icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface ClozeExerciseProps {
+    passage: ClozePassage;
+    grade: ClozeGrade | null; // Set by the parent once the answers are checked
+    onCheck: (answers: Record<number, string>) => void;
+    isChecking?: boolean;
+}
+
+// Renders a multi-blank passage with an inline input per blank, then per-blank results
+const ClozeExercise: React.FC<ClozeExerciseProps> = ({ passage, grade, onCheck, isChecking = false }) => {
+    const [answers, setAnswers] = useState<Record<number, string>>({});
+    const [revealedHints, setRevealedHints] = useState<Set<number>>(new Set());
+
+    const hasAllAnswers = passage.blanks.every(blank => (answers[blank.id] || '').trim());
+
+    const toggleHint = (blankId: number) => {
+        setRevealedHints(prev => {
+            const next = new Set(prev);
+            if (next.has(blankId)) next.delete(blankId); else next.add(blankId);
+            return next;
+        });
+    };
+
+    return (
+        <form
+            className="w-full flex flex-col items-center gap-3"
+            onSubmit={(e) => { e.preventDefault(); if (!grade && hasAllAnswers) onCheck(answers); }}
+        >
+            <p className="text-lg leading-loose text-center text-gray-900 dark:text-white">
+                {passage.segments.map((segment, index) => {
+                    if (segment.type === 'text') return <span key={index}>{segment.text}</span>;
+
+                    const blank = passage.blanks.find(b => b.id === segment.blankId)!;
+                    const result = grade?.results.find(r => r.blankId === blank.id);
+                    if (result) {
+                        return result.isCorrect ? (
+                            <span key={index} className="px-1 rounded bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300 font-semibold">{result.userAnswer}</span>
+                        ) : (
+                            <span key={index} className="px-1 rounded bg-red-100 dark:bg-red-900">
+                                {result.userAnswer && <s className="text-red-600 dark:text-red-400 mr-1">{result.userAnswer}</s>}
+                                <span className="text-green-700 dark:text-green-300 font-semibold">{blank.answer}</span>
+                            </span>
+                        );
+                    }
+                    return (
+                        <span key={index} className="inline-flex items-center mx-1">
+                            <input
+                                type="text"
+                                value={answers[blank.id] || ''}
+                                onChange={(e) => setAnswers(prev => ({ ...prev, [blank.id]: e.target.value }))}
+                                placeholder={`${blank.id + 1}`}
+                                aria-label={`Blank ${blank.id + 1}`}
+                                className="input-style text-center py-0 px-1"
+                                style={{ width: `${Math.max(4, blank.answer.length + 2)}ch` }}
+                                autoFocus={blank.id === 0}
+                                disabled={isChecking}
+                            />
+                            {blank.hint && (
+                                <button type="button" onClick={() => toggleHint(blank.id)} className="ml-1 text-xs text-blue-500 hover:underline" aria-label={`Hint for blank ${blank.id + 1}`}>?</button>
+                            )}
+                        </span>
+                    );
+                })}
+            </p>
+
+            {/* Hints the learner has asked for */}
+            {!grade && revealedHints.size > 0 && (
+                <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
+                    {passage.blanks.filter(blank => revealedHints.has(blank.id)).map(blank => (
+                        <li key={blank.id}>{blank.id + 1}. {blank.hint}</li>
+                    ))}
+                </ul>
+            )}
+
+            {!grade ? (
+                <button type="submit" className="button-primary" disabled={isChecking || !hasAllAnswers}>
+                    {isChecking ? <LoadingSpinner size="sm" /> : 'Check'}
+                </button>
+            ) : (
+                <div className={`p-3 rounded text-center ${grade.ratio === 1 ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300' : 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'}`}>
+                    {grade.ratio === 1 ? <CheckIcon className="w-6 h-6 inline mr-2"/> : <XIcon className="w-6 h-6 inline mr-2"/>}
+                    {grade.correctCount} / {grade.results.length} blanks correct
+                    {/* Other accepted answers, so a "wrong" synonym doesn't feel arbitrary */}
+                    {passage.blanks.some(blank => blank.alternatives.length > 0) && (
+                        <ul className="mt-2 text-xs">
+                            {passage.blanks.filter(blank => blank.alternatives.length > 0).map(blank => (
+                                <li key={blank.id}>{blank.id + 1}. Also accepted: {blank.alternatives.join(', ')}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </form>
+    );
+};
+
+export default ClozeExercise;
@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { CorrectionEdit } from '../types.ts';
+import { buildCorrectionSegments } from '../services/mistakeJournalService';
+import { alignTokens, isUnspacedScript } from '../services/textComparisonService';
+
+interface CorrectionDiffProps {
+  original: string; // The user's sentence
+  corrected: string; // The whole corrected sentence, used if the edits can't be placed
+  edits: CorrectionEdit[];
+}
+
+const Removed: React.FC<{ text: string; title?: string }> = ({ text, title }) =>
+  <del className="text-red-600 dark:text-red-400" title={title}>{text}</del>;
+
+const Added: React.FC<{ text: string; title?: string }> = ({ text, title }) =>
+  <ins className="no-underline font-semibold text-green-700 dark:text-green-300" title={title}>{text}</ins>;
+
+// The user's sentence with each correction shown in place, followed by what each one fixed
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ original, corrected, edits }) => {
+  const segments = useMemo(() => buildCorrectionSegments(original, edits), [original, edits]);
+
+  const renderInlineDiff = () => {
+    if (segments) {
+      return segments.map((segment, index) =>
+        segment.type === 'text' ? <span key={index}>{segment.text}</span> : (
+          <span key={index}>
+            <Removed text={segment.edit.original} title={segment.edit.explanation} />
+            {segment.edit.replacement && <>{' '}<Added text={segment.edit.replacement} title={segment.edit.explanation} /></>}
+          </span>
+        )
+      );
+    }
+    // Overlapping edits: fall back to a word-by-word comparison with the corrected sentence
+    const separator = isUnspacedScript(original) ? '' : ' ';
+    return alignTokens(corrected, original).map((token, index) => (
+      <span key={index}>
+        {index > 0 && separator}
+        {token.type === 'match' && token.actual}
+        {token.type === 'insertion' && <Removed text={token.actual!} />}
+        {token.type === 'missing' && <Added text={token.expected!} />}
+        {token.type === 'substitution' && <><Removed text={token.actual!} />{separator}<Added text={token.expected!} /></>}
+      </span>
+    ));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="break-words">{renderInlineDiff()}</p>
+      <ul className="space-y-1">
+        {edits.map((edit, index) => (
+          <li key={index} className="flex items-start gap-2">
+            <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs capitalize bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">{edit.category}</span>
+            <span className="min-w-0 break-words">
+              <Removed text={edit.original} /> → {edit.replacement ? <Added text={edit.replacement} /> : <em>(remove)</em>}
+              {edit.explanation && <span className="text-gray-600 dark:text-gray-300">: {edit.explanation}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CorrectionDiff;
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { CloseIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import { Flashcard, FlashcardDeck, Language } from '../types.ts';
+import * as deckService from '../services/deckService';
+import * as transferService from '../services/flashcardTransferService';
+import { deleteDeckImage, uploadDeckImage } from '../services/storageService';
+
+interface DeckImportModalProps {
+  userId: string;
+  decks: FlashcardDeck[];
+  initialDeckId: string | null;
+  defaultLanguageCode: string;
+  availableLanguages: Language[];
+  onImported: (decks: FlashcardDeck[], deckId: string) => void;
+  onClose: () => void;
+}
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+const NEW_DECK = '__new__';
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+const DeckImportModal: React.FC<DeckImportModalProps> = ({ userId, decks, initialDeckId, defaultLanguageCode, availableLanguages, onImported, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [rawText, setRawText] = useState<string | null>(null); // Kept so the header toggle can re-parse CSVs
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [table, setTable] = useState<transferService.ImportTable | null>(null);
+  const [mapping, setMapping] = useState<transferService.ColumnMapping>({});
+  const [targetDeckId, setTargetDeckId] = useState<string>(initialDeckId || NEW_DECK);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [newDeckLanguage, setNewDeckLanguage] = useState(defaultLanguageCode);
+  const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('skip');
+  const [isParsing, setIsParsing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetDeck = decks.find(d => d.id === targetDeckId) || null;
+
+  const pendingCards = useMemo(() =>
+    table ? transferService.buildCardsFromTable(table, mapping) : [],
+    [table, mapping]
+  );
+
+  const conflicts = useMemo(() =>
+    transferService.findImportConflicts(pendingCards, targetDeck?.cards || []),
+    [pendingCards, targetDeck]
+  );
+
+  const loadTable = (nextTable: transferService.ImportTable) => {
+    setTable(nextTable);
+    setMapping(transferService.guessColumnMapping(nextTable.headers));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setIsParsing(true);
+    setFileName(file.name);
+    setNewDeckName(file.name.replace(/\.[^.]+$/, ''));
+
+    try {
+      if (/\.(apkg|colpkg)$/i.test(file.name)) {
+        setRawText(null);
+        loadTable(await transferService.parseApkg(file));
+      } else {
+        const text = await file.text();
+        setRawText(text);
+        loadTable(transferService.parseDelimitedText(text, hasHeaderRow));
+      }
+    } catch (parseError: any) {
+      console.error("Error reading import file:", parseError);
+      setTable(null);
+      setError(parseError?.message || "Could not read this file.");
+    } finally {
+      setIsParsing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeaderRow(checked);
+    if (rawText !== null) loadTable(transferService.parseDelimitedText(rawText, checked));
+  };
+
+  const handleImport = async () => {
+    if (!table || pendingCards.length === 0 || isImporting) return;
+    if (targetDeckId === NEW_DECK && !newDeckName.trim()) {
+      setError("Please name the new deck.");
+      return;
+    }
+    setIsImporting(true);
+    setError(null);
+    const uploadedImages: string[] = [];
+
+    try {
+      const existingCards = targetDeck?.cards || [];
+      const conflictingTerms = new Set(conflicts.map(c => c.existing.term.trim().toLowerCase()));
+      const toImport = conflictStrategy === 'skip'
+        ? pendingCards.filter(p => !conflictingTerms.has(p.card.term.trim().toLowerCase()))
+        : pendingCards;
+
+      // Upload images bundled in Anki packages so the cards don't depend on the file
+      const importedCards: Flashcard[] = [];
+      for (const pending of toImport) {
+        const card: Flashcard = { ...pending.card, id: deckService.createCardId() };
+        if (pending.imageFile) {
+          try {
+            card.imageUrl = await uploadDeckImage(pending.imageFile, userId);
+            uploadedImages.push(card.imageUrl);
+          } catch (uploadError) {
+            console.warn(`Skipping image for "${card.term}":`, uploadError);
+          }
+        }
+        importedCards.push(card);
+      }
+
+      let mergedCards: Flashcard[];
+      if (conflictStrategy === 'overwrite') {
+        const incomingByTerm = new Map(importedCards.map(c => [c.term.trim().toLowerCase(), c]));
+        // Replace matching cards in place, keeping their IDs, then append the new ones
+        mergedCards = existingCards.map(existing => {
+          const incoming = incomingByTerm.get(existing.term.trim().toLowerCase());
+          return incoming ? { ...incoming, id: existing.id } : existing;
+        });
+        const existingTerms = new Set(existingCards.map(c => c.term.trim().toLowerCase()));
+        mergedCards.push(...importedCards.filter(c => !existingTerms.has(c.term.trim().toLowerCase())));
+      } else {
+        mergedCards = [...existingCards, ...importedCards];
+      }
+
+      if (targetDeck) {
+        await deckService.saveDeckCards(userId, targetDeck, mergedCards);
+        onImported(decks.map(d => d.id === targetDeck.id ? { ...d, cards: mergedCards, updatedAt: Date.now() } : d), targetDeck.id);
+      } else {
+        const deck = await deckService.createDeck(userId, newDeckName, newDeckLanguage, decks.length, mergedCards);
+        onImported([...decks, deck], deck.id);
+      }
+      onClose();
+    } catch (importError) {
+      console.error("Error importing cards:", importError);
+      // The cards weren't saved, so nothing uses the images uploaded for them
+      await Promise.all(uploadedImages.map(url => deleteDeckImage(url)));
+      setError("The import failed. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Import Cards</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Import">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto flex-grow text-gray-800 dark:text-gray-200">
+          {/* 1. File */}
+          <section className="space-y-2">
+            <h3 className="font-semibold">1. Choose a file</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">CSV or TSV (Quizlet, Excel, Google Sheets) or an Anki deck package (.apkg).</p>
+            <div className="flex items-center gap-3">
+              <label className="px-4 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 cursor-pointer">
+                {isParsing ? <LoadingSpinner size="sm" /> : 'Browse...'}
+                <input type="file" accept=".csv,.tsv,.txt,.apkg,.colpkg" onChange={handleFileChange} className="hidden" disabled={isParsing || isImporting} />
+              </label>
+              {fileName && <span className="text-sm truncate">{fileName}</span>}
+            </div>
+            {rawText !== null && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={hasHeaderRow} onChange={e => handleHeaderToggle(e.target.checked)} />
+                First row contains column names
+              </label>
+            )}
+          </section>
+
+          {table && (
+            <>
+              {/* 2. Column mapping */}
+              <section className="space-y-2">
+                <h3 className="font-semibold">2. Match columns to card fields</h3>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm border dark:border-gray-600">
+                    <thead>
+                      <tr className="bg-gray-100 dark:bg-gray-700">
+                        {table.headers.map((header, index) => (
+                          <th key={index} className="p-2 text-left font-normal align-top">
+                            <div className="font-semibold mb-1 truncate max-w-[10rem]" title={header}>{header}</div>
+                            <select
+                              value={mapping[index] || 'ignore'}
+                              onChange={e => setMapping({ ...mapping, [index]: e.target.value as transferService.MappableField | 'ignore' })}
+                              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                            >
+                              <option value="ignore">Ignore</option>
+                              {transferService.MAPPABLE_FIELDS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                            </select>
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.slice(0, 5).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-t dark:border-gray-600">
+                          {table.headers.map((_, index) => (
+                            <td key={index} className="p-2 truncate max-w-[10rem]" title={row[index]}>{row[index]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {pendingCards.length} of {table.rows.length} rows have a term and will be imported.
+                  {Object.keys(table.media).length > 0 && ` ${Object.keys(table.media).length} images found in the package.`}
+                </p>
+              </section>
+
+              {/* 3. Target deck */}
+              <section className="space-y-2">
+                <h3 className="font-semibold">3. Choose the target deck</h3>
+                <select value={targetDeckId} onChange={e => setTargetDeckId(e.target.value)} className={inputClass}>
+                  <option value={NEW_DECK}>+ Create a new deck</option>
+                  {decks.map(deck => <option key={deck.id} value={deck.id}>{deck.name} ({deck.cards.length} cards)</option>)}
+                </select>
+                {targetDeckId === NEW_DECK && (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <input value={newDeckName} onChange={e => setNewDeckName(e.target.value)} placeholder="New deck name" maxLength={60} className={inputClass} />
+                    <select value={newDeckLanguage} onChange={e => setNewDeckLanguage(e.target.value)} className={`${inputClass} sm:w-48`}>
+                      {availableLanguages.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+                    </select>
+                  </div>
+                )}
+              </section>
+
+              {/* 4. Conflicts */}
+              {conflicts.length > 0 && (
+                <section className="space-y-2 p-4 bg-yellow-50 dark:bg-gray-700 border border-yellow-200 dark:border-gray-600 rounded-lg">
+                  <h3 className="font-semibold">4. {conflicts.length} card{conflicts.length === 1 ? '' : 's'} already in "{targetDeck?.name}"</h3>
+                  <ul className="text-sm max-h-40 overflow-y-auto space-y-1">
+                    {conflicts.map(({ incoming, existing }) => (
+                      <li key={existing.id}>
+                        <strong>{existing.term}</strong>: {existing.translation || existing.definition || '—'}
+                        <span className="text-gray-500 dark:text-gray-400"> → {incoming.card.translation || incoming.card.definition || '—'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    {([['skip', 'Skip duplicates'], ['overwrite', 'Overwrite existing'], ['keepBoth', 'Keep both']] as [ConflictStrategy, string][]).map(([value, label]) => (
+                      <label key={value} className="flex items-center gap-1">
+                        <input type="radio" name="conflictStrategy" checked={conflictStrategy === value} onChange={() => setConflictStrategy(value)} />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t dark:border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-gray-200 dark:bg-gray-600 font-bold rounded-lg">Cancel</button>
+          <button
+            onClick={handleImport}
+            disabled={!table || pendingCards.length === 0 || isImporting}
+            className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 disabled:opacity-50 flex items-center gap-2"
+          >
+            {isImporting && <LoadingSpinner size="sm" />}
+            Import {pendingCards.length > 0 ? pendingCards.length : ''} Cards
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckImportModal;
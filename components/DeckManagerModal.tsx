@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { CloseIcon, TrashIcon, Bars3Icon, ChevronLeftIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import DeckImportModal from './DeckImportModal';
+import { Flashcard, FlashcardDeck, Language } from '../types.ts';
+import * as deckService from '../services/deckService';
+import * as transferService from '../services/flashcardTransferService';
+import { uploadDeckImage } from '../services/storageService';
+
+interface DeckManagerModalProps {
+  userId: string;
+  decks: FlashcardDeck[];
+  defaultLanguageCode: string;
+  availableLanguages: Language[];
+  onDecksChange: (decks: FlashcardDeck[]) => void;
+  onClose: () => void;
+}
+
+const EMPTY_CARD_FORM = { term: '', translation: '', definition: '', sentence: '', imageUrl: '' };
+
+const inputClass = "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100";
+
+const DeckManagerModal: React.FC<DeckManagerModalProps> = ({ userId, decks, defaultLanguageCode, availableLanguages, onDecksChange, onClose }) => {
+  const [editingDeckId, setEditingDeckId] = useState<string | null>(null);
+  const [newDeckName, setNewDeckName] = useState('');
+  const [newDeckLanguage, setNewDeckLanguage] = useState(defaultLanguageCode);
+  const [cardForm, setCardForm] = useState(EMPTY_CARD_FORM);
+  const [editingCardId, setEditingCardId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingImage, setIsUploadingImage] = useState(false);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const editingDeck = decks.find(d => d.id === editingDeckId) || null;
+  const getLanguageName = (code: string) => availableLanguages.find(l => l.code === code)?.name || code;
+
+  // --- Deck list actions ---
+
+  const handleCreateDeck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newDeckName.trim() || isSaving) return;
+    setIsSaving(true);
+    try {
+      const deck = await deckService.createDeck(userId, newDeckName, newDeckLanguage, decks.length);
+      onDecksChange([...decks, deck]);
+      setNewDeckName('');
+      setEditingDeckId(deck.id);
+    } catch (error) {
+      console.error("Error creating deck:", error);
+      alert("Could not create the deck. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteDeck = async (deck: FlashcardDeck) => {
+    if (!window.confirm(`Delete "${deck.name}" and its ${deck.cards.length} cards? This cannot be undone.`)) return;
+    try {
+      await deckService.deleteDeck(userId, deck);
+      onDecksChange(decks.filter(d => d.id !== deck.id));
+    } catch (error) {
+      console.error("Error deleting deck:", error);
+      alert("Could not delete the deck. Please try again.");
+    }
+  };
+
+  // Shared drag-to-reorder logic for decks and cards (same approach as NotesModal)
+  const moveItem = <T extends { id: string }>(items: T[], draggedItemId: string, targetId: string): T[] | null => {
+    const fromIndex = items.findIndex(i => i.id === draggedItemId);
+    const toIndex = items.findIndex(i => i.id === targetId);
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return null;
+    const reordered = [...items];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    return reordered;
+  };
+
+  const handleDeckDragOver = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    const targetId = e.currentTarget.dataset.id;
+    if (!draggedId || !targetId) return;
+    const reordered = moveItem(decks, draggedId, targetId);
+    if (reordered) onDecksChange(reordered.map((d, index) => ({ ...d, order: index })));
+  };
+
+  const handleDeckDragEnd = () => {
+    setDraggedId(null);
+    deckService.reorderDecks(userId, decks).catch(error => console.error("Error saving deck order:", error));
+  };
+
+  // --- Deck editor actions ---
+
+  const saveDeck = async (deck: FlashcardDeck, updates: Partial<Pick<FlashcardDeck, 'name' | 'languageCode' | 'cards'>>) => {
+    const updatedDeck = { ...deck, ...updates, updatedAt: Date.now() };
+    onDecksChange(decks.map(d => d.id === deck.id ? updatedDeck : d));
+    const { cards, ...details } = updates;
+    try {
+      if (cards) await deckService.saveDeckCards(userId, deck, cards);
+      if (Object.keys(details).length > 0) await deckService.updateDeck(userId, deck.id, details);
+    } catch (error) {
+      console.error("Error saving deck:", error);
+      alert("Could not save your changes. Please try again.");
+      onDecksChange(decks); // Roll back the optimistic update
+    }
+  };
+
+  const handleImageFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('image/') || file.size > 5 * 1024 * 1024) {
+      alert("Please choose an image file under 5 MB.");
+      return;
+    }
+    setIsUploadingImage(true);
+    try {
+      const url = await uploadDeckImage(file, userId);
+      setCardForm(prev => ({ ...prev, imageUrl: url }));
+    } catch (error) {
+      console.error("Error uploading card image:", error);
+      alert("Image upload failed. You can paste an image URL instead.");
+    } finally {
+      setIsUploadingImage(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleSaveCard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingDeck || !cardForm.term.trim()) return;
+
+    // Only keep the fields the user actually filled in
+    const card: Flashcard = {
+      id: editingCardId || deckService.createCardId(),
+      term: cardForm.term.trim(),
+      ...(cardForm.translation.trim() && { translation: cardForm.translation.trim() }),
+      ...(cardForm.definition.trim() && { definition: cardForm.definition.trim() }),
+      ...(cardForm.sentence.trim() && { sentence: cardForm.sentence.trim() }),
+      ...(cardForm.imageUrl.trim() && { imageUrl: cardForm.imageUrl.trim() }),
+    };
+
+    const cards = editingCardId
+      ? editingDeck.cards.map(c => c.id === editingCardId ? card : c)
+      : [...editingDeck.cards, card];
+
+    setIsSaving(true);
+    await saveDeck(editingDeck, { cards });
+    setIsSaving(false);
+    setCardForm(EMPTY_CARD_FORM);
+    setEditingCardId(null);
+  };
+
+  const handleEditCard = (card: Flashcard) => {
+    setEditingCardId(card.id);
+    setCardForm({
+      term: card.term,
+      translation: card.translation || '',
+      definition: card.definition || '',
+      sentence: card.sentence || '',
+      imageUrl: card.imageUrl || '',
+    });
+  };
+
+  const handleDeleteCard = (cardId: string) => {
+    if (!editingDeck) return;
+    saveDeck(editingDeck, { cards: editingDeck.cards.filter(c => c.id !== cardId) });
+    if (editingCardId === cardId) {
+      setEditingCardId(null);
+      setCardForm(EMPTY_CARD_FORM);
+    }
+  };
+
+  const handleCardDragOver = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    const targetId = e.currentTarget.dataset.id;
+    if (!editingDeck || !draggedId || !targetId) return;
+    const reordered = moveItem(editingDeck.cards, draggedId, targetId);
+    if (reordered) onDecksChange(decks.map(d => d.id === editingDeck.id ? { ...d, cards: reordered } : d));
+  };
+
+  const handleCardDragEnd = () => {
+    setDraggedId(null);
+    if (editingDeck) {
+      deckService.reorderDeckCards(userId, editingDeck.id, editingDeck.cards)
+        .catch(error => console.error("Error saving card order:", error));
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'tsv' | 'apkg') => {
+    if (!editingDeck || isExporting) return;
+    setIsExporting(true);
+    try {
+      const blob = format === 'apkg'
+        ? await transferService.exportDeckToApkg(editingDeck)
+        : transferService.exportDeckToCsv(editingDeck, format === 'tsv' ? '\t' : ',');
+      transferService.downloadBlob(blob, transferService.toExportFileName(editingDeck.name, format));
+    } catch (error) {
+      console.error(`Error exporting deck as ${format}:`, error);
+      alert("Export failed. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            {editingDeck && (
+              <button onClick={() => { setEditingDeckId(null); setEditingCardId(null); setCardForm(EMPTY_CARD_FORM); }} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Back to decks">
+                <ChevronLeftIcon className="w-6 h-6" />
+              </button>
+            )}
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{editingDeck ? editingDeck.name : 'My Decks'}</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Decks">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-grow">
+          {!editingDeck ? (
+            <>
+              {/* New deck form */}
+              <form onSubmit={handleCreateDeck} className="flex flex-col sm:flex-row gap-2">
+                <input value={newDeckName} onChange={e => setNewDeckName(e.target.value)} placeholder="New deck name" maxLength={60} className={inputClass} />
+                <select value={newDeckLanguage} onChange={e => setNewDeckLanguage(e.target.value)} className={`${inputClass} sm:w-48`}>
+                  {availableLanguages.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+                </select>
+                <button type="submit" disabled={!newDeckName.trim() || isSaving} className="px-4 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 disabled:opacity-50 flex-shrink-0">
+                  Create
+                </button>
+              </form>
+
+              <button onClick={() => setShowImport(true)} className="text-sm text-blue-500 hover:underline">
+                Import from CSV, TSV or Anki (.apkg)...
+              </button>
+
+              {decks.length > 0 ? (
+                <ul className="space-y-3" onDragOver={(e) => e.preventDefault()}>
+                  {decks.map(deck => (
+                    <li
+                      key={deck.id}
+                      data-id={deck.id}
+                      draggable
+                      onDragStart={(e) => { setDraggedId(deck.id); e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', deck.id); }}
+                      onDragOver={handleDeckDragOver}
+                      onDragEnd={handleDeckDragEnd}
+                      className={`bg-gray-100 dark:bg-gray-700 p-4 rounded-lg flex justify-between items-center transition-shadow ${draggedId === deck.id ? 'opacity-50 shadow-2xl' : 'shadow-md'}`}
+                    >
+                      <div className="flex items-center space-x-3 w-full cursor-pointer" onClick={() => setEditingDeckId(deck.id)}>
+                        <Bars3Icon className="w-6 h-6 text-gray-500 cursor-move flex-shrink-0" />
+                        <div className="flex-grow">
+                          <p className="font-semibold text-gray-800 dark:text-gray-200">{deck.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{getLanguageName(deck.languageCode)} · {deck.cards.length} card{deck.cards.length === 1 ? '' : 's'}</p>
+                        </div>
+                      </div>
+                      <button onClick={() => handleDeleteDeck(deck)} className="p-1 text-red-500 hover:text-red-700 dark:hover:text-red-300" title="Delete deck">
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-center text-gray-500 dark:text-gray-400 p-8">You don't have any decks yet. Create one above to start adding your own cards.</p>
+              )}
+            </>
+          ) : (
+            <>
+              {/* Deck settings */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  key={editingDeck.id}
+                  defaultValue={editingDeck.name}
+                  onBlur={e => e.target.value.trim() && e.target.value.trim() !== editingDeck.name && saveDeck(editingDeck, { name: e.target.value.trim() })}
+                  maxLength={60}
+                  className={inputClass}
+                  aria-label="Deck name"
+                />
+                <select value={editingDeck.languageCode} onChange={e => saveDeck(editingDeck, { languageCode: e.target.value })} className={`${inputClass} sm:w-48`} aria-label="Deck language">
+                  {availableLanguages.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+                </select>
+              </div>
+
+              {/* Import / export */}
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <button onClick={() => setShowImport(true)} className="px-3 py-1 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md">Import...</button>
+                <span className="text-gray-500 dark:text-gray-400 ml-2">Export:</span>
+                {(['csv', 'tsv', 'apkg'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={isExporting || editingDeck.cards.length === 0}
+                    className="px-3 py-1 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md disabled:opacity-50"
+                  >
+                    {format === 'apkg' ? 'Anki' : format.toUpperCase()}
+                  </button>
+                ))}
+                {isExporting && <LoadingSpinner size="sm" />}
+              </div>
+
+              {/* Card form */}
+              <form onSubmit={handleSaveCard} className="space-y-2 p-4 bg-blue-50 dark:bg-gray-700 rounded-lg">
+                <h3 className="font-semibold text-gray-800 dark:text-gray-200">{editingCardId ? 'Edit card' : 'Add a card'}</h3>
+                <input value={cardForm.term} onChange={e => setCardForm({ ...cardForm, term: e.target.value })} placeholder={`Term in ${getLanguageName(editingDeck.languageCode)} (required)`} className={inputClass} required />
+                <input value={cardForm.translation} onChange={e => setCardForm({ ...cardForm, translation: e.target.value })} placeholder="Translation" className={inputClass} />
+                <textarea value={cardForm.definition} onChange={e => setCardForm({ ...cardForm, definition: e.target.value })} placeholder="Definition" rows={2} className={inputClass} />
+                <textarea value={cardForm.sentence} onChange={e => setCardForm({ ...cardForm, sentence: e.target.value })} placeholder="Example sentence that uses the term" rows={2} className={inputClass} />
+                <div className="flex items-center gap-2">
+                  <input value={cardForm.imageUrl} onChange={e => setCardForm({ ...cardForm, imageUrl: e.target.value })} placeholder="Image URL" className={inputClass} />
+                  <label className="px-3 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-md cursor-pointer flex-shrink-0">
+                    {isUploadingImage ? <LoadingSpinner size="sm" /> : 'Upload'}
+                    <input type="file" accept="image/*" onChange={handleImageFileChange} className="hidden" disabled={isUploadingImage} />
+                  </label>
+                </div>
+                {cardForm.imageUrl && <img src={cardForm.imageUrl} alt="Card preview" className="max-h-24 rounded" />}
+                <div className="flex justify-end gap-2">
+                  {editingCardId && (
+                    <button type="button" onClick={() => { setEditingCardId(null); setCardForm(EMPTY_CARD_FORM); }} className="px-4 py-2 bg-gray-200 dark:bg-gray-600 rounded-lg">Cancel</button>
+                  )}
+                  <button type="submit" disabled={!cardForm.term.trim() || isSaving || isUploadingImage} className="px-4 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 disabled:opacity-50">
+                    {editingCardId ? 'Save Card' : 'Add Card'}
+                  </button>
+                </div>
+              </form>
+
+              {/* Card list */}
+              {editingDeck.cards.length > 0 ? (
+                <ul className="space-y-2" onDragOver={(e) => e.preventDefault()}>
+                  {editingDeck.cards.map(card => (
+                    <li
+                      key={card.id}
+                      data-id={card.id}
+                      draggable
+                      onDragStart={(e) => { setDraggedId(card.id); e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', card.id); }}
+                      onDragOver={handleCardDragOver}
+                      onDragEnd={handleCardDragEnd}
+                      className={`bg-gray-100 dark:bg-gray-700 p-3 rounded-lg flex justify-between items-center ${draggedId === card.id ? 'opacity-50' : ''}`}
+                    >
+                      <div className="flex items-center space-x-3 w-full cursor-pointer" onClick={() => handleEditCard(card)}>
+                        <Bars3Icon className="w-5 h-5 text-gray-500 cursor-move flex-shrink-0" />
+                        {card.imageUrl && <img src={card.imageUrl} alt="" className="w-10 h-10 object-cover rounded flex-shrink-0" />}
+                        <div className="flex-grow min-w-0">
+                          <p className="font-semibold text-gray-800 dark:text-gray-200 truncate">{card.term}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{card.translation || card.definition || card.sentence || 'No details yet (AI will fill them in)'}</p>
+                        </div>
+                      </div>
+                      <button onClick={() => handleDeleteCard(card.id)} className="p-1 text-red-500 hover:text-red-700 dark:hover:text-red-300" title="Delete card">
+                        <TrashIcon className="w-5 h-5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-center text-gray-500 dark:text-gray-400 p-4">This deck is empty. Add your first card above.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end p-4 border-t dark:border-gray-700">
+          <button onClick={onClose} className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">
+            Done
+          </button>
+        </div>
+      </div>
+
+      {showImport && (
+        <DeckImportModal
+          userId={userId}
+          decks={decks}
+          initialDeckId={editingDeckId}
+          defaultLanguageCode={defaultLanguageCode}
+          availableLanguages={availableLanguages}
+          onImported={(updatedDecks, deckId) => { onDecksChange(updatedDecks); setEditingDeckId(deckId); }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DeckManagerModal;
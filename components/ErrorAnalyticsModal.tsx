@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CloseIcon, BookOpenIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import { LessonTopicRef } from '../types.ts';
+import * as errorAnalyticsService from '../services/errorAnalyticsService';
+
+interface ErrorAnalyticsModalProps {
+  userId: string;
+  languageCode: string;
+  languageName: string;
+  onOpenLesson?: (topic: LessonTopicRef) => void; // Omit to list suggested lessons without links
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<errorAnalyticsService.ErrorSource, string> = {
+  chat: 'Chat corrections',
+  quiz: 'Quiz misses',
+  flashcard: 'Flashcard misses',
+};
+
+const CHANGE_LABELS: Record<errorAnalyticsService.CategoryTrend['change'], { label: string; className: string }> = {
+  rising: { label: '↑ Rising', className: 'text-red-500' },
+  falling: { label: '↓ Improving', className: 'text-green-600 dark:text-green-400' },
+  steady: { label: 'Steady', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+// Weekly error counts for one category as a row of small bars, oldest first
+const WeeklyBars: React.FC<{ weekly: number[] }> = ({ weekly }) => {
+  const highest = Math.max(1, ...weekly);
+  return (
+    <div className="flex items-end gap-0.5 h-6" title={`Mistakes per week, last ${weekly.length} weeks`}>
+      {weekly.map((count, index) => (
+        <div key={index} className="w-2 rounded-sm bg-red-400 dark:bg-red-500" style={{ height: `${Math.max(8, (count / highest) * 100)}%`, opacity: count === 0 ? 0.2 : 1 }} />
+      ))}
+    </div>
+  );
+};
+
+// Where the learner keeps going wrong, across chat, quizzes and flashcards, and what to study next
+const ErrorAnalyticsModal: React.FC<ErrorAnalyticsModalProps> = ({ userId, languageCode, languageName, onOpenLesson, onClose }) => {
+  const [signals, setSignals] = useState<errorAnalyticsService.ErrorSignal[] | null>(null);
+
+  useEffect(() => {
+    errorAnalyticsService.getErrorSignals(userId, languageCode, languageName).then(setSignals);
+  }, [userId, languageCode, languageName]);
+
+  const trends = useMemo(() => errorAnalyticsService.getCategoryTrends(signals || []), [signals]);
+  const recurringTopics = useMemo(() => errorAnalyticsService.getRecurringTopics(signals || []), [signals]);
+  const suggestions = useMemo(() => errorAnalyticsService.suggestLessons(signals || [], languageName), [signals, languageName]);
+
+  const sourceCounts = (Object.keys(SOURCE_LABELS) as errorAnalyticsService.ErrorSource[])
+    .map(source => ({ source, count: (signals || []).filter(signal => signal.source === source).length }));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Study Insights: {languageName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Study Insights">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-6">
+          {signals === null ? (
+            <div className="flex justify-center items-center h-full"><LoadingSpinner /></div>
+          ) : signals.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              No {languageName} mistakes recorded yet. Corrections from your chats, missed quiz questions and missed flashcards will show up here.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                {sourceCounts.map(({ source, count }) => (
+                  <div key={source} className="p-3 rounded bg-gray-100 dark:bg-gray-700">
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">{count}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{SOURCE_LABELS[source]}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Suggested Lessons</h3>
+                {suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No lesson matches your mistakes yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {suggestions.map(({ lesson, reason }) => (
+                      <li key={lesson.title} className="p-3 rounded-lg bg-gray-100 dark:bg-gray-700 flex justify-between items-center gap-3">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900 dark:text-white break-words">{lesson.title}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{lesson.type} · Level {lesson.level} · {reason}</p>
+                        </div>
+                        {onOpenLesson && (
+                          <button onClick={() => onOpenLesson(lesson)} className="flex-shrink-0 flex items-center gap-1 text-sm text-blue-500 hover:underline">
+                            <BookOpenIcon className="w-4 h-4" /> Study
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Mistakes by Category</h3>
+                <ul className="space-y-3">
+                  {trends.map(trend => (
+                    <li key={trend.category} className="flex justify-between items-center gap-3 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-semibold capitalize text-gray-800 dark:text-gray-200">{trend.category}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {trend.total} total
+                          {(Object.keys(SOURCE_LABELS) as errorAnalyticsService.ErrorSource[])
+                            .filter(source => trend.sources[source] > 0)
+                            .map(source => ` · ${trend.sources[source]} ${source}`)
+                            .join('')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <WeeklyBars weekly={trend.weekly} />
+                        <span className={`w-20 text-right text-xs font-semibold ${CHANGE_LABELS[trend.change].className}`}>{CHANGE_LABELS[trend.change].label}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Keeps Coming Back</h3>
+                {recurringTopics.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No topic has tripped you up on more than one day.</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {recurringTopics.map(topic => (
+                      <li key={topic.topic} className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+                        <span className="truncate" title={topic.topic}>{topic.topic}</span>
+                        <span className="whitespace-nowrap text-red-500">{topic.errors} mistakes · {topic.days} days</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorAnalyticsModal;
@@ -1,19 +1,25 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { UserData, Language, TeachMeType, FlashcardSettings, FlashcardActivityType, FlashcardMode, UsageKey, SubscriptionStatus } from '../types';
+import { UserData, Language, TeachMeType, FlashcardSettings, FlashcardActivityType, FlashcardMode, UsageKey, SubscriptionStatus, Flashcard, FlashcardDeck, FlashcardSource, SpeakingTarget, ClozePassage, ConjugationTable, ConjugationVerbSet, FlashcardSessionCardResult } from '../types';
 import { CloseIcon, ChevronLeftIcon, ChevronRightIcon, CheckIcon, XIcon, RefreshIcon, VolumeUpIcon, SentenceIcon, MicIcon } from './Icons';
 import LoadingSpinner from './LoadingSpinner';
+import DeckManagerModal from './DeckManagerModal';
+import ClozeExercise from './ClozeExercise';
+import FlashcardStatsModal from './FlashcardStatsModal';
+import PlacementTestModal from './PlacementTestModal';
 import * as geminiService from '../services/geminiService';
 import * as firestoreService from '../services/firestoreService';
+import * as spacedRepetitionService from '../services/spacedRepetitionService';
+import * as deckService from '../services/deckService';
+import * as pronunciationService from '../services/pronunciationService';
+import * as clozeService from '../services/clozeService';
+import * as conjugationService from '../services/conjugationService';
+import * as offlineService from '../services/offlineService';
+import * as placementService from '../services/placementService';
+import { characterSimilarity, alignTokens, isLenientMatch, TokenDiff } from '../services/textComparisonService';
+import { SPEAKING_PASS_SCORE } from '../services/quizGradingService';
+import { VOICE_MAP } from '../constants';
 import * as RecordRTC from 'recordrtc';
 
-interface Flashcard {
-    id: string;
-    term: string; // The word/phrase in the target language
-    translation?: string; // Translation in native language
-    definition?: string; // Definition in target language (maybe simplified)
-    imageUrl?: string; // URL for the generated image
-}
-
 interface TeachMeData {
     grammarData: Record<string, any[]>;
     vocabData: any[];
@@ -32,6 +38,7 @@ interface FlashcardModalProps {
     onListen: (languageCode: string) => Promise<string>;
     handleUsageCheck: (feature: UsageKey, action: () => Promise<void> | void) => Promise<void>;
     subscriptionStatus: SubscriptionStatus;
+    partnerGender?: 'male' | 'female'; // Current chat partner's voice, used for dictation audio
 }
 
 // Helper: A simple LanguageSelector component (can be moved to Icons.tsx or its own file)
@@ -70,6 +77,48 @@ const extractWordsFromTopic = (topicData: any): string[] => {
     return words.filter(w => w.length > 2);
 };
 
+// Helper: Blanks out the term in a hand-written example sentence, using the same
+// "___" marker as geminiService.getSentence. Returns undefined if the term isn't found
+// as written (e.g. it's conjugated in the sentence).
+const blankOutTerm = (sentence: string, term: string): string | undefined => {
+    const escapedTerm = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const termPattern = new RegExp(escapedTerm, 'i');
+    return termPattern.test(sentence) ? sentence.replace(termPattern, '___') : undefined;
+};
+
+const MAX_CUSTOM_CLOZE_PASSAGES = 15;
+
+interface DictationResult {
+    isCorrect: boolean;
+    diff: TokenDiff[];
+}
+
+// Escapes text for use inside an SSML <speak> block
+const escapeSsml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+interface SpeakingResult {
+    transcription: string;
+    score: number; // 0-100
+    feedback: string | null; // comparePronunciation markdown, filled in once it arrives
+}
+
+// Helper: Prepares a custom deck card for a session. Hand-entered content is kept so
+// loadCardContent only asks the AI for whatever the user left empty.
+const toSessionCard = (card: Flashcard, deck: FlashcardDeck, level: number): Flashcard => {
+    const sessionCard: Flashcard = { ...card, id: `${deck.id}-${card.id}`, topic: deck.name, level, deckId: deck.id };
+    if (card.sentence) {
+        const sentenceWithBlank = blankOutTerm(card.sentence, card.term);
+        if (sentenceWithBlank) {
+            sessionCard.sentenceWithBlank = sentenceWithBlank;
+        } else {
+            // Can't quiz on this sentence, so let the AI write one that uses the exact term
+            delete sessionCard.sentence;
+        }
+    }
+    return sessionCard;
+};
+
 
 const FlashcardModal: React.FC<FlashcardModalProps> = ({
     user,
@@ -82,19 +131,39 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
     onSpeak,
     handleUsageCheck,
     subscriptionStatus,
+    partnerGender,
 }) => {
     // --- STATE ---
     // Load last settings from user profile or use defaults
     const lastSettings = user.flashcardSettings || {};
     
     const [selectedLanguageCode, setSelectedLanguageCode] = useState(lastSettings.languageCode || targetLanguage);
-    const [selectedLevel, setSelectedLevel] = useState(lastSettings.level || 1);
+    const [selectedLevel, setSelectedLevel] = useState(() =>
+        lastSettings.level ||
+        placementService.getPlacementLevel(user.placementLevels, lastSettings.languageCode || targetLanguage, lastSettings.teachMeType || 'Vocabulary') ||
+        1
+    );
     const [teachMeType, setTeachMeType] = useState<TeachMeType>(lastSettings.teachMeType || 'Vocabulary');
     const [selectedTopic, setSelectedTopic] = useState<string | null>(lastSettings.topic !== undefined ? lastSettings.topic : null);
     const [activityType, setActivityType] = useState<FlashcardActivityType>(lastSettings.activityType || 'translation');
     const [mode, setMode] = useState<FlashcardMode>(lastSettings.mode || 'study');
     const [amount, setAmount] = useState(lastSettings.amount || 5);
     const [translationTargetLanguageCode, setTranslationTargetLanguageCode] = useState(lastSettings.translationTargetLanguageCode || nativeLanguage);
+    const [source, setSource] = useState<FlashcardSource>(lastSettings.source || 'teachMe');
+    const [selectedDeckId, setSelectedDeckId] = useState<string | null>(lastSettings.deckId ?? null);
+    const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+    const [offlineDecks, setOfflineDecks] = useState<offlineService.OfflineDeck[]>([]);
+    const [deckDownloadProgress, setDeckDownloadProgress] = useState<{ done: number; total: number } | null>(null);
+    const [showDeckManager, setShowDeckManager] = useState(false);
+    const [showPlacementTest, setShowPlacementTest] = useState(false);
+    const [speakingTarget, setSpeakingTarget] = useState<SpeakingTarget>(lastSettings.speakingTarget || 'term');
+    const [isPronunciationDrill, setIsPronunciationDrill] = useState(false);
+    const [customClozeText, setCustomClozeText] = useState('');
+    const [isCustomCloze, setIsCustomCloze] = useState(false); // Session built from text the user pasted
+    const [conjugationTopic, setConjugationTopic] = useState<string | null>(lastSettings.conjugationTopic ?? null);
+    const [conjugationTenses, setConjugationTenses] = useState<string[]>(lastSettings.conjugationTenses || []);
+    const [verbSet, setVerbSet] = useState<ConjugationVerbSet | null>(null);
+    const [isLoadingVerbSet, setIsLoadingVerbSet] = useState(false);
 
     const [sessionState, setSessionState] = useState<'setup' | 'loading' | 'active' | 'finished'>('setup');
     const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
@@ -114,6 +183,19 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
     useState(false);
     const [isListening, setIsListening] = useState(false);
     const [isTranscribing, setIsTranscribing] = useState(false);
+    const [dueCount, setDueCount] = useState<number | null>(null);
+    const [speakingResult, setSpeakingResult] = useState<SpeakingResult | null>(null);
+    const [isScoringSpeech, setIsScoringSpeech] = useState(false);
+    const gradedSpeakingCardRef = useRef<string | null>(null); // Only the first attempt per card is graded
+    const [dictationResult, setDictationResult] = useState<DictationResult | null>(null);
+    const [isPlayingDictation, setIsPlayingDictation] = useState(false);
+    const [clozeGrade, setClozeGrade] = useState<clozeService.ClozeGrade | null>(null);
+    const [conjugationGrade, setConjugationGrade] = useState<conjugationService.ConjugationGrade | null>(null);
+    const [sessionResults, setSessionResults] = useState<Record<string, FlashcardSessionCardResult>>({}); // First graded answer per card
+    const sessionStartedAtRef = useRef(Date.now());
+    const isSessionSavedRef = useRef(false);
+    const [showStats, setShowStats] = useState(false);
+    const offlineImageUrlsRef = useRef<string[]>([]); // Object URLs for downloaded images, revoked between sessions
 
 
     // Refs for debouncing settings saves
@@ -129,6 +211,11 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         mode: mode,
         amount: amount,
         translationTargetLanguageCode: translationTargetLanguageCode,
+        speakingTarget: speakingTarget,
+        source: source,
+        deckId: selectedDeckId,
+        conjugationTopic: conjugationTopic,
+        conjugationTenses: conjugationTenses,
     });
     const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -170,6 +257,31 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         return sourceData.filter(topic => topic.level === selectedLevel);
     }, [selectedLevel, targetLangName, teachMeType, teachMeData]);
 
+    // Grammar topics about verbs at this level, offered as verb sets for the conjugation drill
+    const conjugationTopics = useMemo(() => {
+        const langKey = targetLangName as keyof typeof teachMeData.grammarData;
+        return (teachMeData.grammarData[langKey] || [])
+            .filter(topic => topic.level === selectedLevel && conjugationService.isConjugationTopic(topic));
+    }, [selectedLevel, targetLangName, teachMeData]);
+
+    // Custom decks written in the selected study language, plus downloaded decks that
+    // couldn't be loaded from Firestore (e.g. while offline)
+    const availableDecks = useMemo(() =>
+        [...decks, ...offlineDecks.filter(offlineDeck => !decks.some(deck => deck.id === offlineDeck.id))]
+            .filter(deck => deck.languageCode === selectedLanguageCode),
+        [decks, offlineDecks, selectedLanguageCode]
+    );
+
+    const selectedDeck = useMemo(() =>
+        availableDecks.find(deck => deck.id === selectedDeckId) || null,
+        [availableDecks, selectedDeckId]
+    );
+
+    const selectedOfflineDeck = useMemo(() =>
+        offlineDecks.find(deck => deck.id === selectedDeckId) || null,
+        [offlineDecks, selectedDeckId]
+    );
+
     // --- EFFECTS & CALLBACKS (Order is important!) ---
 
     // Debounced effect to save settings to Firestore as they change
@@ -183,6 +295,11 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             mode: mode,
             amount: amount,
             translationTargetLanguageCode: translationTargetLanguageCode,
+            speakingTarget: speakingTarget,
+            source: source,
+            deckId: selectedDeckId,
+            conjugationTopic: conjugationTopic,
+            conjugationTenses: conjugationTenses,
         };
         
         if (saveTimeoutRef.current) {
@@ -198,9 +315,76 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                 clearTimeout(saveTimeoutRef.current);
             }
         };
-    }, [selectedLanguageCode, selectedLevel, selectedTopic, teachMeType, activityType, mode, amount, translationTargetLanguageCode, user.uid]);
+    }, [selectedLanguageCode, selectedLevel, selectedTopic, teachMeType, activityType, mode, amount, translationTargetLanguageCode, speakingTarget, source, selectedDeckId, conjugationTopic, conjugationTenses, user.uid]);
+
+    // Save the session to the learner's history once it finishes; isSessionSavedRef keeps it to
+    // one save per session however the values below change afterwards
+    useEffect(() => {
+        if (sessionState !== 'finished' || isSessionSavedRef.current || flashcards.length === 0) return;
+        isSessionSavedRef.current = true;
+
+        const sessionTopic = isPronunciationDrill ? 'Pronunciation drill'
+            : isCustomCloze ? 'My text'
+            : activityType === 'conjugation' ? conjugationTopic
+            : mode === 'due' ? 'Due today'
+            : source === 'deck' ? selectedDeck?.name ?? null
+            : selectedTopic;
+        const finishedAt = Date.now();
+        offlineService.saveSessionOrQueue(user.uid, {
+            languageCode: selectedLanguageCode,
+            topic: sessionTopic,
+            deckId: source === 'deck' && mode !== 'due' ? selectedDeckId : null,
+            activityType,
+            mode,
+            cardCount: flashcards.length,
+            score,
+            results: Object.values(sessionResults),
+            startedAt: sessionStartedAtRef.current,
+            finishedAt,
+            durationMs: finishedAt - sessionStartedAtRef.current,
+            date: spacedRepetitionService.toDateString(new Date(finishedAt)),
+        });
+    }, [sessionState, flashcards.length, isPronunciationDrill, isCustomCloze, activityType, conjugationTopic, mode, source, selectedDeck, selectedDeckId,
+        selectedTopic, selectedLanguageCode, score, sessionResults, user.uid]);
+
+    // Ask which verbs and tenses the chosen verb set covers (tables themselves are cached server-side)
+    useEffect(() => {
+        if (activityType !== 'conjugation' || !conjugationTopic) {
+            setVerbSet(null);
+            return;
+        }
+        let isCancelled = false;
+        setIsLoadingVerbSet(true);
+        geminiService.getConjugationVerbSet(conjugationTopic, targetLangName).then(nextVerbSet => {
+            if (isCancelled) return;
+            setVerbSet(nextVerbSet);
+            // Keep previously chosen tenses that still apply, otherwise start with the lesson's own tense
+            setConjugationTenses(prev => {
+                const kept = prev.filter(tense => nextVerbSet.tenses.includes(tense));
+                return kept.length > 0 ? kept : nextVerbSet.tenses.slice(0, 1);
+            });
+            setIsLoadingVerbSet(false);
+        });
+        return () => { isCancelled = true; };
+    }, [activityType, conjugationTopic, targetLangName]);
+
+    // Load the user's custom decks (and any downloaded copies) once when the modal opens
+    useEffect(() => {
+        deckService.getDecks(user.uid).then(setDecks);
+        offlineService.getOfflineDecks(user.uid).then(setOfflineDecks);
+    }, [user.uid]);
+
+    const revokeOfflineImageUrls = () => {
+        offlineImageUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+        offlineImageUrlsRef.current = [];
+    };
+
+    useEffect(() => revokeOfflineImageUrls, []);
 
 
+    // Review/due 'sentence' cards (and every pasted-text card) are answered blank by blank
+    const isClozeExercise = activityType === 'sentence' && (mode !== 'study' || isCustomCloze);
+
     const loadCardContent = useCallback(async (card: Flashcard | undefined) => {
         // --- START FIX: USE THE REF LOCK ---
         // This check is immune to stale state.
@@ -209,11 +393,13 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
         // --- END FIX ---
 
-        if (!card ||
+        if (!card || activityType === 'conjugation' ||
             (activityType === 'translation' && card.translation) ||
             (activityType === 'definition' && card.definition) ||
             (activityType === 'image' && card.imageUrl) ||
-            (activityType === 'sentence' && card.sentence)) {
+            (isClozeExercise && (card.cloze || card.sentence === '[Sentence Error]')) ||
+            (activityType === 'sentence' && !isClozeExercise && card.sentence) ||
+            ((activityType === 'speaking' || activityType === 'dictation') && (speakingTarget === 'term' || card.sentence))) {
             
             return;
         }
@@ -228,14 +414,15 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
 
         try {
             let updatedCard = { ...card };
-            const currentTopic = selectedTopic; // Capture selectedTopic at call time
+            const currentTopic = card.topic ?? selectedTopic; // Due cards carry their own topic
+            const currentLevel = card.level ?? selectedLevel;
 
             if (activityType === 'translation') {
                 const translationResult = await geminiService.getTranslation(
                     card.term,
                     targetLangName,
                     translationTargetLangName,
-                    selectedLevel
+                    currentLevel
                 );
                 // --- Handle empty/failed translation ---
                 updatedCard.translation = translationResult || "[Translation Error]";
@@ -246,7 +433,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                 updatedCard.imageUrl = await geminiService.generateImageForWord(
                     card.term,
                     targetLangName,
-                    selectedLevel,
+                    currentLevel,
                     currentTopic,
                     handleUsageCheck,
                     subscriptionStatus
@@ -254,7 +441,22 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                 // Ensure imageUrl is not empty, use placeholder on error caught by generateImageForWord
                 if (!updatedCard.imageUrl) updatedCard.imageUrl = `https://via.placeholder.com/300x200.png?text=Error`;
 
-            } else if (activityType === 'sentence' && !card.sentence) { // Check for full sentence (which holds the answer)
+            } else if (isClozeExercise) {
+                // Blank the term plus related articles/particles/conjugations; custom text has no term
+                let cloze: ClozePassage;
+                try {
+                    cloze = await geminiService.getClozePassage(card.term || null, targetLangName, userNativeLangName, card.sentence, card.term ? 3 : 5);
+                } catch (clozeError) {
+                    if (!card.term) throw clozeError;
+                    console.warn(`Multi-blank cloze failed for "${card.term}", falling back to a single blank:`, clozeError);
+                    const text = card.sentence || (await geminiService.getSentence(card.term, targetLangName, userNativeLangName)).fullSentence;
+                    cloze = clozeService.buildClozePassage(text, [{ answer: card.term, kind: 'term' }]);
+                    if (cloze.blanks.length === 0) throw clozeError;
+                }
+                updatedCard.cloze = cloze;
+                updatedCard.sentence = cloze.fullText;
+                updatedCard.sentenceWithBlank = clozeService.renderClozeText(cloze);
+            } else if ((activityType === 'sentence' || activityType === 'speaking' || activityType === 'dictation') && !card.sentence) { // Check for full sentence (which holds the answer)
                 const sentenceData = await geminiService.getSentence(card.term, targetLangName, userNativeLangName);
                 updatedCard.sentence = sentenceData.fullSentence;
                 updatedCard.sentenceWithBlank = sentenceData.sentenceWithBlank; // <-- FIX: Store both
@@ -270,7 +472,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                  ...(activityType === 'translation' && { translation: errorPlaceholder }),
                  ...(activityType === 'definition' && { definition: errorPlaceholder }),
                  ...(activityType === 'image' && { imageUrl: 'https://via.placeholder.com/300x200.png?text=Image+Error' }),
-                 ...(activityType === 'sentence' && { sentence: errorPlaceholder, sentenceWithBlank: errorPlaceholder }),
+                 ...((activityType === 'sentence' || activityType === 'speaking' || activityType === 'dictation') && { sentence: errorPlaceholder, sentenceWithBlank: errorPlaceholder }),
              };
              setFlashcards(prev => prev.map(fc => fc.id === card.id ? updatedCardWithError : fc));
         } finally {
@@ -281,6 +483,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
     }, [ // Add all dependencies used inside useCallback
         activityType,
+        isClozeExercise,
         targetLangName,
         translationTargetLangName,
         userNativeLangName,
@@ -288,6 +491,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         selectedTopic,
         handleUsageCheck,
         subscriptionStatus,
+        speakingTarget,
         setIsLoadingContent, // Include state setters if needed, though often stable
         setDefinitionTranslation,
         setSentenceTranslation,
@@ -303,9 +507,125 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
      }, [currentIndex, activityType, sessionState, loadCardContent]);
 
+    // Show how many cards are waiting when the user picks the 'due' mode
+    useEffect(() => {
+        if (mode !== 'due' || sessionState !== 'setup') return;
+        let isCancelled = false;
+        setDueCount(null);
+        spacedRepetitionService.getDueFlashcards(user.uid, selectedLanguageCode).then(dueCards => {
+            if (!isCancelled) setDueCount(dueCards.length);
+        });
+        return () => { isCancelled = true; };
+    }, [mode, sessionState, selectedLanguageCode, user.uid]);
+
+    // Build a session from every card the scheduler says is due today, across all topics
+    const startDueSession = async () => {
+        try {
+            const dueCards = await spacedRepetitionService.getDueFlashcards(user.uid, selectedLanguageCode);
+            if (dueCards.length === 0) {
+                alert("No cards are due today. Review some topics first, or come back tomorrow!");
+                setSessionState('setup');
+                return;
+            }
+
+            const fetchedCards: Flashcard[] = dueCards.map(state => {
+                // Cards from custom decks keep the user's own content when it's still there
+                const deck = state.deckId ? decks.find(d => d.id === state.deckId) : undefined;
+                const deckCard = deck?.cards.find(c => c.term.trim().toLowerCase() === state.term.toLowerCase());
+                if (deck && deckCard) {
+                    return { ...toSessionCard(deckCard, deck, state.level ?? selectedLevel), id: state.id };
+                }
+                return {
+                    id: state.id,
+                    term: state.term,
+                    topic: state.topic,
+                    level: state.level,
+                };
+            });
+
+            setFlashcards(fetchedCards);
+            setSessionState('active');
+            await loadCardContent(fetchedCards[0]);
+        } catch (error) {
+            console.error("Error starting due review session:", error);
+            alert("Failed to load today's review cards. Please try again.");
+            setSessionState('setup');
+        }
+    };
+
     // Start a new flashcard session
-    const startSession = async () => {
-        if (!selectedTopic) return;
+    // Build a session from one of the user's custom decks
+    const startDeckSession = async () => {
+        if (!selectedDeck || selectedDeck.cards.length === 0) {
+            setSessionState('setup');
+            return;
+        }
+        const fetchedCards = await Promise.all([...selectedDeck.cards]
+            .sort(() => 0.5 - Math.random())
+            .slice(0, amount)
+            .map(card => withOfflineContent(toSessionCard(card, selectedDeck, selectedLevel), card)));
+
+        setFlashcards(fetchedCards);
+        setSessionState('active');
+        await loadCardContent(fetchedCards[0]);
+    };
+
+    // Fills a deck card from its downloaded copy, so a downloaded deck needs no AI calls.
+    // The user's current edits win, and translations only carry over if they're in the
+    // language being translated to now.
+    const withOfflineContent = async (sessionCard: Flashcard, deckCard: Flashcard): Promise<Flashcard> => {
+        const offlineCard = selectedOfflineDeck?.cards.find(card => card.id === deckCard.id);
+        if (!offlineCard || offlineCard.term !== deckCard.term) return sessionCard;
+
+        const { translation, ...sharedContent } = offlineCard;
+        const card: Flashcard = {
+            ...sharedContent,
+            ...(selectedOfflineDeck!.translationLanguageCode === translationTargetLanguageCode && { translation }),
+            ...sessionCard,
+        };
+        if (card.imageUrl) {
+            const image = await offlineService.getOfflineImage(card.imageUrl);
+            if (image) {
+                card.imageUrl = URL.createObjectURL(image);
+                offlineImageUrlsRef.current.push(card.imageUrl);
+            }
+        }
+        return card;
+    };
+
+    // Pre-generates the selected deck's content so it can be studied without a connection
+    const handleDownloadDeck = async () => {
+        if (!selectedDeck || deckDownloadProgress) return;
+        setDeckDownloadProgress({ done: 0, total: selectedDeck.cards.length });
+        try {
+            const offlineDeck = await offlineService.downloadDeckForOffline(user.uid, selectedDeck, {
+                targetLangName,
+                translationLanguageCode: translationTargetLanguageCode,
+                translationLangName: translationTargetLangName,
+                nativeLangName: userNativeLangName,
+                level: selectedLevel,
+                handleUsageCheck,
+                subscriptionStatus,
+                onProgress: (done, total) => setDeckDownloadProgress({ done, total }),
+            });
+            setOfflineDecks(prev => [...prev.filter(deck => deck.id !== offlineDeck.id), offlineDeck]);
+        } catch (error) {
+            console.error("Error downloading deck for offline use:", error);
+            alert("Failed to download this deck. Please check your connection and try again.");
+        } finally {
+            setDeckDownloadProgress(null);
+        }
+    };
+
+    const handleRemoveOfflineDeck = async () => {
+        if (!selectedOfflineDeck) return;
+        await offlineService.deleteOfflineDeck(selectedOfflineDeck);
+        setOfflineDecks(prev => prev.filter(deck => deck.id !== selectedOfflineDeck.id));
+    };
+
+    // Clears per-session progress before a new set of cards is loaded
+    const resetSessionProgress = () => {
+        revokeOfflineImageUrls();
         setSessionState('loading');
         setFeedback(null);
         setReviewInput('');
@@ -314,6 +634,82 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         setScore(0);
         setHasViewedPrompt(false);
         setIsCheckingReview(false);
+        setSpeakingResult(null);
+        gradedSpeakingCardRef.current = null;
+        setDictationResult(null);
+        setClozeGrade(null);
+        setConjugationGrade(null);
+        setSessionResults({});
+        sessionStartedAtRef.current = Date.now();
+        isSessionSavedRef.current = false;
+    };
+
+    // Build a speaking session from the words the learner keeps mispronouncing
+    const startPronunciationDrill = async () => {
+        resetSessionProgress();
+        setIsPronunciationDrill(true);
+        setIsCustomCloze(false);
+        const weakWords = await pronunciationService.getWeakPronunciations(user.uid, selectedLanguageCode, 15);
+        if (weakWords.length === 0) {
+            alert(`No mispronounced ${targetLangName} words yet. Keep practising with the Speaking activity!`);
+            setIsPronunciationDrill(false);
+            setSessionState('setup');
+            return;
+        }
+        const fetchedCards: Flashcard[] = weakWords.map(word => ({ id: word.id, term: word.term }));
+        setFlashcards(fetchedCards);
+        setSessionState('active');
+        await loadCardContent(fetchedCards[0]);
+    };
+
+    // Build a fill-in-the-blanks session from text the user pasted; each line is one passage
+    const startCustomClozeSession = async () => {
+        const passages = customClozeText
+            .split(/\n+/)
+            .map(passage => passage.trim())
+            .filter(Boolean)
+            .slice(0, MAX_CUSTOM_CLOZE_PASSAGES);
+        if (passages.length === 0) return;
+
+        resetSessionProgress();
+        setIsPronunciationDrill(false);
+        setIsCustomCloze(true);
+        const fetchedCards: Flashcard[] = passages.map((passage, index) => ({
+            id: `custom-${index}`,
+            term: '',
+            sentence: passage,
+        }));
+        setFlashcards(fetchedCards);
+        setSessionState('active');
+        await loadCardContent(fetchedCards[0]);
+    };
+
+    // Build a conjugation drill: one card per person/number of each selected verb and tense
+    const startConjugationSession = async () => {
+        const tenses = verbSet ? verbSet.tenses.filter(tense => conjugationTenses.includes(tense)) : [];
+        if (!verbSet || tenses.length === 0) {
+            setSessionState('setup');
+            return;
+        }
+        const tables = (await Promise.all(
+            verbSet.verbs.flatMap(verb => tenses.map(tense => geminiService.getConjugationTable(verb, tense, targetLangName)))
+        )).filter((table): table is ConjugationTable => !!table);
+
+        const fetchedCards = conjugationService.buildConjugationCards(tables, amount);
+        if (fetchedCards.length === 0) {
+            alert("Couldn't load conjugation tables for these verbs. Please try again.");
+            setSessionState('setup');
+            return;
+        }
+        setFlashcards(fetchedCards);
+        setSessionState('active');
+    };
+
+    const startSession = async () => {
+        if (activityType === 'conjugation' ? !verbSet : mode !== 'due' && (source === 'deck' ? !selectedDeck : !selectedTopic)) return;
+        resetSessionProgress();
+        setIsPronunciationDrill(false);
+        setIsCustomCloze(false);
 
         // Save current settings immediately
         const currentSettings: FlashcardSettings = {
@@ -325,9 +721,27 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             mode: mode,
             amount: amount,
             translationTargetLanguageCode: translationTargetLanguageCode,
+            speakingTarget: speakingTarget,
+            source: source,
+            deckId: selectedDeckId,
+            conjugationTopic: conjugationTopic,
+            conjugationTenses: conjugationTenses,
         };
         firestoreService.saveFlashcardSettings(user.uid, currentSettings);
 
+        if (activityType === 'conjugation') {
+            await startConjugationSession();
+            return;
+        }
+        if (mode === 'due') {
+            await startDueSession();
+            return;
+        }
+        if (source === 'deck') {
+            await startDeckSession();
+            return;
+        }
+
         try {
             const topicData = availableTopics.find(t => t.title === selectedTopic);
             if (!topicData) throw new Error("Topic data not found");
@@ -338,37 +752,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             try {
                 // Always try to get words from the AI first, as it's more reliable
                 console.log(`Asking AI for ${amount} words for "${selectedTopic}" in ${targetLangName}...`);
-                const prompt = `
-                    Generate a JSON array of exactly ${amount} unique key vocabulary words or short phrases (nouns, verbs, adjectives; max 3 words each)
-                    strictly in the ${targetLangName} language, directly related to the content of the lesson topic "${selectedTopic}" (which is a ${teachMeType} lesson).
-                    Focus on learnable content words from the topic itself.
-                    Absolutely DO NOT include meta-words like "grammar", "vocabulary", "lesson", "introduction", "overview", "example", "level", "review", etc.
-                    Do not include English words unless the topic is specifically about English loanwords in ${targetLangName}.
-                    Do not include proper nouns unless they are essential vocabulary for the topic (e.g., names of concepts).
-                    Prioritize words likely to be useful for a learner at level ${selectedLevel}.
-                    Respond ONLY with the JSON array of strings, e.g., ["word1", "phrase two", "word3"].
-                `;
-                 const response = await geminiService.callGeminiProxy(prompt, "gemini-2.5-flash-lite");
-                 
-                 // --- FIX: Extract JSON from markdown-wrapped response ---
-                 let rawText = response.candidates[0].content.parts[0].text;
-                 const startIndex = rawText.indexOf('[');
-                 const endIndex = rawText.lastIndexOf(']');
-                 
-                 if (startIndex === -1 || endIndex === -1) {
-                     throw new Error("No JSON array found in AI response text: " + rawText);
-                 }
-                 
-                 const jsonString = rawText.substring(startIndex, endIndex + 1);
-                 const aiWords = JSON.parse(jsonString); // Parse the *clean* string
-                 // --- END FIX ---
-
-                 if (Array.isArray(aiWords) && aiWords.length > 0) {
-                    words = [...new Set(aiWords)]; // Use *only* AI words, deduplicated
-                 } else {
-                    console.warn("AI returned no words, falling back to extraction.");
-                    words = extractedWords; // Fallback to extracted words
-                 }
+                words = await geminiService.getTopicWordList(selectedTopic!, teachMeType, targetLangName, selectedLevel, amount);
             } catch (aiError) {
                  console.error("AI word generation failed, falling back to extraction:", aiError);
                  words = extractedWords; // Fallback to extracted words
@@ -384,6 +768,8 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             const fetchedCards: Flashcard[] = selectedWords.map((word, index) => ({
                 id: `${selectedTopic}-${index}-${word}`,
                 term: word,
+                topic: selectedTopic,
+                level: selectedLevel,
             }));
 
             setFlashcards(fetchedCards); 
@@ -410,16 +796,25 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         const currentCard = flashcards[currentIndex];
         
         try {
-            const result = await geminiService.checkFlashcardReview(
-                reviewInput,
-                currentCard.term,
-                targetLangName
-            );
+            // Exact answers are graded locally, so review also works offline
+            const result = isLenientMatch(currentCard.term, reviewInput) ? 'correct'
+                : navigator.onLine ? await geminiService.checkFlashcardReview(reviewInput, currentCard.term, targetLangName)
+                : 'incorrect';
             setFeedback(result);
+            recordCardResult(currentCard, result === 'correct', result === 'correct' ? 1 : 0);
             if (result === 'correct') {
                 onAddXp(1); // Add 1 XP
                 setScore(s => s + 1);
             }
+            // Feed the result into the scheduler (fire-and-forget, like settings saves)
+            offlineService.recordReviewOrQueue(user.uid, {
+                term: currentCard.term,
+                languageCode: selectedLanguageCode,
+                topic: currentCard.topic ?? selectedTopic,
+                teachMeType: mode === 'due' || currentCard.deckId ? undefined : teachMeType,
+                level: currentCard.level ?? selectedLevel,
+                deckId: currentCard.deckId,
+            }, spacedRepetitionService.REVIEW_QUALITY[result]);
         } catch (error) {
             console.error("Error during review check:", error);
             setFeedback('incorrect'); // Default to incorrect on error
@@ -428,6 +823,57 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
     };
 
+    // Keeps the first graded answer for each card; retries don't change the session's history
+    const recordCardResult = (card: Flashcard, correct: boolean, cardScore: number) => {
+        setSessionResults(prev => prev[card.id] ? prev : {
+            ...prev,
+            [card.id]: { term: card.term, topic: card.topic ?? selectedTopic, correct, score: cardScore },
+        });
+    };
+
+    // Grades every blank locally; each card is worth 1 point, split evenly across its blanks
+    const handleClozeCheck = (answers: Record<number, string>) => {
+        const card = flashcards[currentIndex];
+        if (!card?.cloze || clozeGrade) return;
+
+        const grade = clozeService.gradeCloze(card.cloze, answers);
+        setClozeGrade(grade);
+        setFeedback(grade.ratio === 1 ? 'correct' : 'incorrect');
+        recordCardResult(card, grade.ratio === 1, grade.ratio);
+        setScore(s => s + grade.ratio);
+        if (grade.ratio === 1) onAddXp(1);
+
+        if (!isCustomCloze) {
+            offlineService.recordReviewOrQueue(user.uid, {
+                term: card.term,
+                languageCode: selectedLanguageCode,
+                topic: card.topic ?? selectedTopic,
+                teachMeType: mode === 'due' || card.deckId ? undefined : teachMeType,
+                level: card.level ?? selectedLevel,
+                deckId: card.deckId,
+            }, spacedRepetitionService.qualityFromScore(grade.ratio * 100));
+        }
+    };
+
+    // Conjugations are graded locally against the cached table; no AI call per answer
+    const handleConjugationSubmit = () => {
+        const card = flashcards[currentIndex];
+        if (!card?.conjugation || !reviewInput.trim() || conjugationGrade) return;
+
+        const grade = conjugationService.gradeConjugation(card, reviewInput);
+        setConjugationGrade(grade);
+        setFeedback(grade === 'correct' ? 'correct' : 'incorrect');
+        recordCardResult(card, grade === 'correct', grade === 'correct' ? 1 : 0);
+        if (grade === 'correct') {
+            onAddXp(1);
+            setScore(s => s + 1);
+        }
+    };
+
+    const toggleConjugationTense = (tense: string) => {
+        setConjugationTenses(prev => prev.includes(tense) ? prev.filter(t => t !== tense) : [...prev, tense]);
+    };
+
     const nextCard = () => {
         if (currentIndex < flashcards.length - 1) {
             setCurrentIndex(currentIndex + 1);
@@ -439,6 +885,10 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             setIsLoadingDefTranslation(false);
             setSentenceTranslation(null);
             setIsLoadingSentenceTranslation(false);
+            setSpeakingResult(null);
+            setDictationResult(null);
+            setClozeGrade(null);
+            setConjugationGrade(null);
             // loadCardContent(flashcards[currentIndex + 1]); // This is now handled by the useEffect
         } else {
             setSessionState('finished');
@@ -456,10 +906,22 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             setIsLoadingDefTranslation(false);
             setSentenceTranslation(null);
             setIsLoadingSentenceTranslation(false);
+            setSpeakingResult(null);
+            setDictationResult(null);
+            setClozeGrade(null);
+            setConjugationGrade(null);
         }
     };
 
     const restartSession = () => {
+        if (isPronunciationDrill) {
+            startPronunciationDrill();
+            return;
+        }
+        if (isCustomCloze) {
+            startCustomClozeSession();
+            return;
+        }
         startSession(); // Re-fetch and start over
     };
 
@@ -585,8 +1047,9 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
     }, [isListening]);
 
-    const stopRecordingAndTranscribe = useCallback(async () => {
-        if (!recorderRef.current || !isListening) return;
+    const stopRecordingAndTranscribe = useCallback(async (): Promise<string> => {
+        if (!recorderRef.current || !isListening) return '';
+        let transcription = '';
 
         // Clear any silence timeout if implemented
         if (silenceTimeoutRef.current) clearTimeout(silenceTimeoutRef.current);
@@ -611,8 +1074,8 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                 if (audioBlob && audioBlob.size > 100) { // Check if blob has some data
                     // Get the language code for the currently selected flashcard language
                     const langCodeToTranscribe = selectedLanguageCode; // Use state variable
-                    const transcription = await geminiService.transcribeAudio(audioBlob, langCodeToTranscribe);
-                    setReviewInput(transcription || ""); // Update input field
+                    transcription = await geminiService.transcribeAudio(audioBlob, langCodeToTranscribe) || '';
+                    setReviewInput(transcription); // Update input field
                     // Optional: Automatically submit after transcription?
                     // if (transcription) {
                     //    handleReviewSubmit(); // Need to adapt handleReviewSubmit to use the state directly
@@ -636,6 +1099,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                  recorderRef.current = null;
             }
         }
+        return transcription;
     }, [isListening, selectedLanguageCode, geminiService.transcribeAudio]);
 
     const handleMicClick = () => {
@@ -646,9 +1110,134 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
         }
     };
 
+    // --- Speaking activity ---
+
+    const getSpeakingText = (card: Flashcard | undefined) => {
+        if (!card) return '';
+        return speakingTarget === 'sentence' ? (card.sentence || '') : card.term;
+    };
+
+    // Scores a transcription locally, saves it, then asks the AI coach for feedback
+    const scoreSpeakingAttempt = async (transcription: string) => {
+        const card = flashcards[currentIndex];
+        const targetText = getSpeakingText(card);
+        if (!card || !targetText) return;
+
+        const score = Math.round(characterSimilarity(targetText, transcription) * 100);
+        setSpeakingResult({ transcription, score, feedback: null });
+        setIsScoringSpeech(true);
+
+        pronunciationService.savePronunciationScore(user.uid, card.term, selectedLanguageCode, score);
+
+        // Retries are for practice; only the first attempt counts towards score and scheduling
+        if (mode !== 'study' && gradedSpeakingCardRef.current !== card.id) {
+            gradedSpeakingCardRef.current = card.id;
+            recordCardResult(card, score >= SPEAKING_PASS_SCORE, score >= SPEAKING_PASS_SCORE ? 1 : 0);
+            if (score >= SPEAKING_PASS_SCORE) {
+                onAddXp(1);
+                setScore(s => s + 1);
+            }
+            offlineService.recordReviewOrQueue(user.uid, {
+                term: card.term,
+                languageCode: selectedLanguageCode,
+                topic: card.topic ?? selectedTopic,
+                level: card.level ?? selectedLevel,
+                deckId: card.deckId,
+            }, spacedRepetitionService.qualityFromScore(score));
+        }
+
+        try {
+            const feedbackText = await geminiService.comparePronunciation(targetText, transcription, targetLangName);
+            setSpeakingResult(prev => prev && prev.transcription === transcription ? { ...prev, feedback: feedbackText } : prev);
+        } finally {
+            setIsScoringSpeech(false);
+        }
+    };
+
+    // --- Dictation activity ---
+
+    // Plays the card's text with the chat partner's voice gender, if VOICE_MAP has one for this language
+    const playDictation = async (slow: boolean) => {
+        const text = getSpeakingText(flashcards[currentIndex]);
+        if (!text || isPlayingDictation) return;
+        const languageVoices = VOICE_MAP[selectedLanguageCode];
+        const gender = partnerGender && languageVoices?.[partnerGender] ? partnerGender : 'female';
+        const ssml = slow
+            ? `<speak><prosody rate="slow">${escapeSsml(text)}</prosody></speak>`
+            : `<speak>${escapeSsml(text)}</speak>`;
+
+        setIsPlayingDictation(true);
+        try {
+            const audioContent = await geminiService.synthesizeSpeech(ssml, selectedLanguageCode, gender);
+            const audio = new Audio(`data:audio/mpeg;base64,${audioContent}`);
+            await new Promise<void>(resolve => {
+                audio.onended = () => resolve();
+                audio.onerror = () => resolve();
+                audio.play().catch(() => resolve());
+            });
+        } catch (error) {
+            console.error("Error playing dictation audio:", error);
+            alert("Sorry, the audio couldn't be played. Please try again.");
+        } finally {
+            setIsPlayingDictation(false);
+        }
+    };
+
+    // Grades locally first (accent/case/punctuation tolerant); only unclear answers go to the AI
+    const handleDictationSubmit = async () => {
+        const card = flashcards[currentIndex];
+        const expected = getSpeakingText(card);
+        if (!card || !expected || !reviewInput.trim() || isCheckingReview) return;
+
+        setIsCheckingReview(true);
+        try {
+            let isCorrect = isLenientMatch(expected, reviewInput);
+            if (!isCorrect) {
+                isCorrect = await geminiService.checkFlashcardReview(reviewInput, expected, targetLangName) === 'correct';
+            }
+            setDictationResult({ isCorrect, diff: alignTokens(expected, reviewInput) });
+
+            if (mode !== 'study') {
+                recordCardResult(card, isCorrect, isCorrect ? 1 : 0);
+                if (isCorrect) {
+                    onAddXp(1);
+                    setScore(s => s + 1);
+                }
+                offlineService.recordReviewOrQueue(user.uid, {
+                    term: card.term,
+                    languageCode: selectedLanguageCode,
+                    topic: card.topic ?? selectedTopic,
+                    level: card.level ?? selectedLevel,
+                    deckId: card.deckId,
+                }, spacedRepetitionService.REVIEW_QUALITY[isCorrect ? 'correct' : 'incorrect']);
+            }
+        } catch (error) {
+            console.error("Error grading dictation:", error);
+            setDictationResult({ isCorrect: false, diff: alignTokens(expected, reviewInput) });
+        } finally {
+            setIsCheckingReview(false);
+        }
+    };
+
+    const handleSpeakingMicClick = async () => {
+        if (!isListening) {
+            setSpeakingResult(null);
+            startRecording();
+            return;
+        }
+        const transcription = await stopRecordingAndTranscribe();
+        if (transcription.trim()) {
+            await scoreSpeakingAttempt(transcription);
+        } else {
+            alert("We couldn't hear anything. Please try again a little closer to the microphone.");
+        }
+    };
+
     // --- RENDER LOGIC ---
 
     const currentCard = flashcards[currentIndex];
+    // Activities answered inside the card rather than by flipping it
+    const isAnsweredInCard = activityType === 'speaking' || activityType === 'dictation' || activityType === 'conjugation' || isClozeExercise;
     let frontContent: React.ReactNode = null;
     let backContent: React.ReactNode = null;
     let reviewPrompt: React.ReactNode = null;
@@ -698,7 +1287,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
             }
         }
         // --- Review Mode Rendering ---
-        else { // review mode
+        else { // review and due modes
             // --- REFINED: Explicitly handle loading state for the prompt content ---
             const contentIsActuallyLoading = isLoadingContent && (
                 (activityType === 'translation' && !currentCard.translation) ||
@@ -755,22 +1344,75 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                                 <select value={selectedLevel} onChange={e => setSelectedLevel(parseInt(e.target.value))} className="mt-1 block w-full input-style">
                                     {[1, 2, 3, 4, 5].map(lvl => <option key={lvl} value={lvl}>Level {lvl}</option>)}
                                 </select>
+                                <button onClick={() => setShowPlacementTest(true)} className="mt-1 text-xs text-blue-500 hover:underline">
+                                    Not sure? Take the placement test
+                                </button>
                             </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Topic Type</label>
-                                <select value={teachMeType} onChange={e => setTeachMeType(e.target.value as TeachMeType)} className="mt-1 block w-full input-style">
-                                    <option value="Vocabulary">Vocabulary</option>
-                                    <option value="Grammar">Grammar</option>
-                                    <option value="Conversation">Conversation</option>
-                                </select>
-                            </div>
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Topic</label>
-                                <select value={selectedTopic || ""} onChange={e => setSelectedTopic(e.target.value || null)} className="mt-1 block w-full input-style" required>
-                                    <option value="" disabled>-- Select a Topic --</option>
-                                    {availableTopics.map(topic => <option key={topic.title} value={topic.title}>{topic.title}</option>)}
-                                </select>
-                            </div>
+                            {activityType !== 'conjugation' && (<>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Topic Type</label>
+                                    <select
+                                        value={source === 'deck' ? 'deck' : teachMeType}
+                                        onChange={e => {
+                                            if (e.target.value === 'deck') {
+                                                setSource('deck');
+                                            } else {
+                                                setSource('teachMe');
+                                                setTeachMeType(e.target.value as TeachMeType);
+                                            }
+                                        }}
+                                        className="mt-1 block w-full input-style"
+                                        disabled={mode === 'due'}
+                                    >
+                                        <option value="Vocabulary">Vocabulary</option>
+                                        <option value="Grammar">Grammar</option>
+                                        <option value="Conversation">Conversation</option>
+                                        <option value="deck">My Decks</option>
+                                    </select>
+                                </div>
+                                {source === 'deck' ? (
+                                <div>
+                                    <div className="flex justify-between items-center">
+                                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Deck</label>
+                                        <button type="button" onClick={() => setShowDeckManager(true)} className="text-sm text-blue-500 hover:underline">Manage Decks</button>
+                                    </div>
+                                    <select value={selectedDeck?.id || ""} onChange={e => setSelectedDeckId(e.target.value || null)} className="mt-1 block w-full input-style" disabled={mode === 'due'}>
+                                        <option value="" disabled>{availableDecks.length > 0 ? '-- Select a Deck --' : `-- No ${targetLangName} decks yet --`}</option>
+                                        {availableDecks.map(deck => <option key={deck.id} value={deck.id}>{deck.name} ({deck.cards.length})</option>)}
+                                    </select>
+                                    {selectedDeck && selectedDeck.cards.length === 0 && (
+                                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">This deck has no cards yet. Use "Manage Decks" to add some.</p>
+                                    )}
+                                    {selectedDeck && selectedDeck.cards.length > 0 && (
+                                        <div className="mt-1 flex justify-between items-center gap-2 text-sm">
+                                            <span className="text-gray-500 dark:text-gray-400">
+                                                {deckDownloadProgress ? `Downloading... ${deckDownloadProgress.done} / ${deckDownloadProgress.total} cards`
+                                                    : selectedOfflineDeck ? `Available offline (downloaded ${new Date(selectedOfflineDeck.downloadedAt).toLocaleDateString()})`
+                                                    : 'Not downloaded'}
+                                            </span>
+                                            {!deckDownloadProgress && (
+                                                <span className="flex gap-3 flex-shrink-0">
+                                                    <button type="button" onClick={handleDownloadDeck} className="text-blue-500 hover:underline disabled:opacity-50" disabled={!navigator.onLine}>
+                                                        {selectedOfflineDeck ? 'Update' : 'Download for Offline'}
+                                                    </button>
+                                                    {selectedOfflineDeck && (
+                                                        <button type="button" onClick={handleRemoveOfflineDeck} className="text-red-500 hover:underline">Remove</button>
+                                                    )}
+                                                </span>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                                ) : (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Topic</label>
+                                    <select value={selectedTopic || ""} onChange={e => setSelectedTopic(e.target.value || null)} className="mt-1 block w-full input-style" required={mode !== 'due'} disabled={mode === 'due'}>
+                                        <option value="" disabled>-- Select a Topic --</option>
+                                        {availableTopics.map(topic => <option key={topic.title} value={topic.title}>{topic.title}</option>)}
+                                    </select>
+                                </div>
+                                )}
+                            </>)}
                             <div>
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Activity Type</label>
                                 <select value={activityType} onChange={e => setActivityType(e.target.value as FlashcardActivityType)} className="mt-1 block w-full input-style">
@@ -778,9 +1420,82 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                                     <option value="definition">Word - Definition</option>
                                     <option value="image">Word - Image</option>
                                     <option value="sentence">Word - Sentence</option> {/* ADDED */}
+                                    <option value="speaking">Speaking - Say It Aloud</option>
+                                    <option value="dictation">Dictation - Type What You Hear</option>
+                                    <option value="conjugation">Grammar - Verb Conjugation</option>
                                 </select>
                             </div>
 
+                            {activityType === 'conjugation' && (
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Verb Set</label>
+                                    <select value={conjugationTopic || ""} onChange={e => setConjugationTopic(e.target.value || null)} className="mt-1 block w-full input-style">
+                                        <option value="" disabled>{conjugationTopics.length > 0 ? '-- Select a Verb Lesson --' : `-- No verb lessons at Level ${selectedLevel} --`}</option>
+                                        {conjugationTopics.map(topic => <option key={topic.title} value={topic.title}>{topic.title}</option>)}
+                                    </select>
+                                    {isLoadingVerbSet ? (
+                                        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                                            <LoadingSpinner size="sm" /> Finding verbs and tenses...
+                                        </div>
+                                    ) : verbSet && verbSet.verbs.length > 0 ? (
+                                        <>
+                                            <p className="text-sm text-gray-600 dark:text-gray-300">Verbs: {verbSet.verbs.join(', ')}</p>
+                                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tenses</label>
+                                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                                {verbSet.tenses.map(tense => (
+                                                    <label key={tense} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                                                        <input type="checkbox" checked={conjugationTenses.includes(tense)} onChange={() => toggleConjugationTense(tense)} />
+                                                        {tense}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </>
+                                    ) : verbSet && (
+                                        <p className="text-sm text-red-500">Couldn't find verbs for this lesson. Try another one.</p>
+                                    )}
+                                </div>
+                            )}
+
+                            {activityType === 'dictation' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Dictate</label>
+                                    <select value={speakingTarget} onChange={e => setSpeakingTarget(e.target.value as SpeakingTarget)} className="mt-1 block w-full input-style">
+                                        <option value="term">The word</option>
+                                        <option value="sentence">An example sentence</option>
+                                    </select>
+                                </div>
+                            )}
+
+                            {activityType === 'sentence' && (
+                                <div className="space-y-2">
+                                    <label htmlFor="customClozeText" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Or Fill the Blanks in Your Own Text</label>
+                                    <textarea
+                                        id="customClozeText"
+                                        value={customClozeText}
+                                        onChange={e => setCustomClozeText(e.target.value)}
+                                        rows={3}
+                                        placeholder={`Paste ${targetLangName} text here. Each line becomes one card.`}
+                                        className="mt-1 block w-full input-style"
+                                    />
+                                    <button type="button" onClick={startCustomClozeSession} disabled={!customClozeText.trim()} className="w-full button-secondary disabled:opacity-50">
+                                        Practise My Text
+                                    </button>
+                                </div>
+                            )}
+
+                            {activityType === 'speaking' && (
+                                <div className="space-y-2">
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Say Aloud</label>
+                                    <select value={speakingTarget} onChange={e => setSpeakingTarget(e.target.value as SpeakingTarget)} className="mt-1 block w-full input-style">
+                                        <option value="term">The word</option>
+                                        <option value="sentence">An example sentence</option>
+                                    </select>
+                                    <button type="button" onClick={startPronunciationDrill} className="w-full button-secondary">
+                                        Drill Words I Mispronounce
+                                    </button>
+                                </div>
+                            )}
+
                             {/* Conditional Translation Language Selector */}
                             {(activityType === 'translation' || activityType === 'definition' || activityType === 'sentence') && (
                                 <LanguageSelector
@@ -796,24 +1511,33 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                                 />
                             )}
 
-                             <div>
+                             {activityType !== 'conjugation' && <div>
                                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Mode</label>
                                 <select value={mode} onChange={e => setMode(e.target.value as FlashcardMode)} className="mt-1 block w-full input-style">
                                     <option value="study">Study</option>
                                     <option value="review">Review</option>
+                                    <option value="due">Due Today (all topics)</option>
                                 </select>
-                            </div>
-                             <div>
+                                {mode === 'due' && (
+                                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                                        {dueCount === null ? 'Checking your review schedule...' : `${dueCount} card${dueCount === 1 ? '' : 's'} due today in ${targetLangName}.`}
+                                    </p>
+                                )}
+                            </div>}
+                             {(mode !== 'due' || activityType === 'conjugation') && <div>
                                 <label htmlFor="amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Number of Cards (5-15)</label>
                                 <input
                                     id="amount" type="number" min="5" max="15" value={amount}
                                     onChange={e => setAmount(Math.max(5, Math.min(15, parseInt(e.target.value) || 5)))}
                                     className="mt-1 block w-full input-style"
                                 />
-                            </div>
-                            <button onClick={startSession} disabled={!selectedTopic} className="w-full button-primary disabled:opacity-50">
+                            </div>}
+                            <button onClick={startSession} disabled={activityType === 'conjugation' ? !verbSet?.verbs.length || conjugationTenses.length === 0 : mode === 'due' ? dueCount === 0 : source === 'deck' ? !selectedDeck || selectedDeck.cards.length === 0 : !selectedTopic} className="w-full button-primary disabled:opacity-50">
                                 Start Session
                             </button>
+                            <button type="button" onClick={() => setShowStats(true)} className="w-full button-secondary">
+                                View My Stats
+                            </button>
                         </div>
                     )}
 
@@ -832,10 +1556,142 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
 
                             {/* Flashcard Area */}
                             <div className="w-full h-64 border dark:border-gray-600 rounded-lg flex items-center justify-center p-4 my-4 relative text-center bg-gray-50 dark:bg-gray-700 cursor-pointer"
-                                 onClick={mode === 'study' ? handleFlip : undefined}
+                                 onClick={mode === 'study' && !isAnsweredInCard ? handleFlip : undefined}
                                  style={{ perspective: '1000px' }}
                                  >
-                                {mode === 'study' ? (
+                                {activityType === 'speaking' ? (
+                                    <div className="w-full h-full flex flex-col items-center justify-center gap-3 overflow-y-auto cursor-default">
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">Say this {speakingTarget === 'sentence' ? 'sentence' : 'word'} aloud:</p>
+                                        {isLoadingContent && !getSpeakingText(currentCard) ? <LoadingSpinner size="sm" /> : (
+                                            <div className="flex items-center gap-2">
+                                                <span className={speakingTarget === 'sentence' ? 'text-xl font-semibold' : 'text-3xl font-bold'}>{getSpeakingText(currentCard)}</span>
+                                                <button onClick={() => onSpeak(getSpeakingText(currentCard), selectedLanguageCode)} className="p-1 text-blue-500 hover:text-blue-700" title="Hear it first" aria-label="Hear it first">
+                                                    <VolumeUpIcon className="w-5 h-5" />
+                                                </button>
+                                            </div>
+                                        )}
+                                        {!speakingResult && (
+                                            <button
+                                                onClick={handleSpeakingMicClick}
+                                                disabled={isTranscribing || isScoringSpeech || !getSpeakingText(currentCard)}
+                                                className={`flex items-center gap-2 px-4 py-2 rounded-full text-white font-bold transition-colors ${isListening ? 'bg-red-500 animate-pulse' : 'bg-blue-500 hover:bg-blue-600'} disabled:opacity-50`}
+                                            >
+                                                {isTranscribing ? <LoadingSpinner size="sm" /> : <MicIcon className="w-5 h-5" />}
+                                                {isTranscribing ? 'Listening back...' : isListening ? 'Stop' : 'Record'}
+                                            </button>
+                                        )}
+                                        {speakingResult && (
+                                            <div className="w-full text-sm space-y-2">
+                                                <p className={`text-2xl font-bold ${speakingResult.score >= SPEAKING_PASS_SCORE ? 'text-green-600 dark:text-green-400' : speakingResult.score >= 50 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}`}>
+                                                    {speakingResult.score}%
+                                                </p>
+                                                <p className="text-gray-600 dark:text-gray-300">We heard: <em>"{speakingResult.transcription}"</em></p>
+                                                {speakingResult.feedback ? (
+                                                    <div className="prose prose-sm dark:prose-invert max-w-none text-left" dangerouslySetInnerHTML={{ __html: (window as any).marked.parse(speakingResult.feedback) }} />
+                                                ) : isScoringSpeech && <LoadingSpinner size="sm" />}
+                                                <button onClick={() => setSpeakingResult(null)} className="text-blue-500 hover:underline" disabled={isScoringSpeech}>Try again</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ) : activityType === 'conjugation' && currentCard.conjugation ? (
+                                    <div className="w-full h-full flex flex-col items-center justify-center gap-2 cursor-default">
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">{currentCard.conjugation.tense}</p>
+                                        <p className="text-3xl font-bold">{currentCard.conjugation.verb}</p>
+                                        <p className="text-lg">
+                                            {currentCard.conjugation.pronoun || currentCard.conjugation.person}
+                                            {currentCard.conjugation.pronoun && <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">({currentCard.conjugation.person})</span>}
+                                        </p>
+                                        {conjugationGrade === null ? (
+                                            <form className="w-full max-w-xs flex gap-2" onSubmit={(e) => { e.preventDefault(); handleConjugationSubmit(); }}>
+                                                <input
+                                                    type="text"
+                                                    value={reviewInput}
+                                                    onChange={(e) => setReviewInput(e.target.value)}
+                                                    placeholder="Type the verb form..."
+                                                    className="w-full input-style text-center"
+                                                    autoFocus
+                                                />
+                                                <button type="submit" className="button-primary" disabled={!reviewInput.trim()}>Check</button>
+                                            </form>
+                                        ) : (
+                                            <div className={`p-3 rounded text-center ${conjugationGrade === 'correct' ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300' : 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'}`}>
+                                                {conjugationGrade === 'correct' ? <CheckIcon className="w-6 h-6 inline mr-2"/> : <XIcon className="w-6 h-6 inline mr-2"/>}
+                                                {conjugationGrade === 'correct' ? 'Correct!' : conjugationGrade === 'accent' ? `Almost! Check the accents: ${currentCard.term}` : `Correct Answer: ${currentCard.term}`}
+                                                <button onClick={handleSpeakTerm} className="ml-2 p-1 align-middle">
+                                                    <VolumeUpIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ) : isClozeExercise ? (
+                                    <div className="w-full h-full flex flex-col items-center justify-center overflow-y-auto cursor-default">
+                                        {currentCard.cloze ? (
+                                            <ClozeExercise key={currentCard.id} passage={currentCard.cloze} grade={clozeGrade} onCheck={handleClozeCheck} />
+                                        ) : currentCard.sentence === '[Sentence Error]' ? (
+                                            <p className="text-red-500">Couldn't build blanks for this text. Try the next card.</p>
+                                        ) : (
+                                            <LoadingSpinner />
+                                        )}
+                                    </div>
+                                ) : activityType === 'dictation' ? (
+                                    <div className="w-full h-full flex flex-col items-center justify-center gap-3 overflow-y-auto cursor-default">
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">Listen and type the {speakingTarget === 'sentence' ? 'sentence' : 'word'} you hear:</p>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => playDictation(false)}
+                                                disabled={isPlayingDictation || (isLoadingContent && !getSpeakingText(currentCard))}
+                                                className="flex items-center gap-2 px-4 py-2 rounded-full bg-blue-500 text-white font-bold hover:bg-blue-600 disabled:opacity-50"
+                                            >
+                                                {isPlayingDictation || (isLoadingContent && !getSpeakingText(currentCard)) ? <LoadingSpinner size="sm" /> : <VolumeUpIcon className="w-5 h-5" />}
+                                                Play
+                                            </button>
+                                            <button
+                                                onClick={() => playDictation(true)}
+                                                disabled={isPlayingDictation || !getSpeakingText(currentCard)}
+                                                className="px-4 py-2 rounded-full button-secondary disabled:opacity-50"
+                                            >
+                                                Slow
+                                            </button>
+                                        </div>
+                                        {!dictationResult ? (
+                                            <form className="w-full max-w-xs flex gap-2" onSubmit={(e) => { e.preventDefault(); handleDictationSubmit(); }}>
+                                                <input
+                                                    type="text"
+                                                    value={reviewInput}
+                                                    onChange={(e) => setReviewInput(e.target.value)}
+                                                    placeholder="Type what you hear..."
+                                                    className="w-full input-style text-center"
+                                                    disabled={isCheckingReview}
+                                                />
+                                                <button type="submit" className="button-primary" disabled={isCheckingReview || !reviewInput.trim()}>
+                                                    {isCheckingReview ? <LoadingSpinner size="sm" /> : 'Check'}
+                                                </button>
+                                            </form>
+                                        ) : (
+                                            <div className={`w-full p-3 rounded text-center ${dictationResult.isCorrect ? 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300' : 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'}`}>
+                                                <p className="font-bold mb-2">
+                                                    {dictationResult.isCorrect ? <CheckIcon className="w-5 h-5 inline mr-1"/> : <XIcon className="w-5 h-5 inline mr-1"/>}
+                                                    {dictationResult.isCorrect ? 'Correct!' : 'Not quite:'}
+                                                </p>
+                                                {/* Token diff: missing words in green, wrong/extra words struck through */}
+                                                {(!dictationResult.isCorrect || dictationResult.diff.some(d => d.type !== 'match')) && (
+                                                    <p className="flex flex-wrap justify-center gap-x-1 text-gray-800 dark:text-gray-100">
+                                                        {dictationResult.diff.map((token, index) => (
+                                                            <span key={index}>
+                                                                {token.type === 'match' && token.expected}
+                                                                {token.type === 'substitution' && (<><s className="text-red-600 dark:text-red-400">{token.actual}</s> <span className="text-green-700 dark:text-green-300 font-semibold">{token.expected}</span></>)}
+                                                                {token.type === 'missing' && <span className="text-green-700 dark:text-green-300 font-semibold underline">{token.expected}</span>}
+                                                                {token.type === 'insertion' && <s className="text-red-600 dark:text-red-400">{token.actual}</s>}
+                                                            </span>
+                                                        ))}
+                                                    </p>
+                                                )}
+                                                {!dictationResult.isCorrect && <p className="mt-2 text-sm">Answer: {getSpeakingText(currentCard)}</p>}
+                                                <button onClick={() => { setDictationResult(null); setReviewInput(''); }} className="mt-2 text-sm text-blue-500 hover:underline">Try again</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                ) : mode === 'study' ? (
                                     <div className={`w-full h-full transition-transform duration-500 ${isFlipped ? '[transform:rotateY(180deg)]' : ''}`} style={{ transformStyle: 'preserve-3d' }}>
                                         {/* Front */}
                                         <div className="absolute inset-0 flex items-center justify-center p-4 backface-hidden">
@@ -940,11 +1796,11 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
 
                             {/* Navigation */}
                              <div className="flex justify-between w-full">
-                                <button onClick={prevCard} disabled={currentIndex === 0 || (mode === 'review' && feedback === null && hasViewedPrompt)} className="button-secondary disabled:opacity-50">
+                                <button onClick={prevCard} disabled={currentIndex === 0 || (mode !== 'study' && !isAnsweredInCard && feedback === null && hasViewedPrompt)} className="button-secondary disabled:opacity-50">
                                     <ChevronLeftIcon className="w-5 h-5 inline mr-1" /> Prev
                                 </button>
-                                {mode === 'study' && <button onClick={handleFlip} className="button-secondary">{isFlipped ? 'Show Term' : 'Show Answer'}</button>}
-                                <button onClick={nextCard} disabled={mode === 'review' && feedback === null} className="button-secondary disabled:opacity-50">
+                                {mode === 'study' && !isAnsweredInCard && <button onClick={handleFlip} className="button-secondary">{isFlipped ? 'Show Term' : 'Show Answer'}</button>}
+                                <button onClick={nextCard} disabled={activityType === 'conjugation' ? !conjugationGrade : mode !== 'study' && (activityType === 'speaking' ? !speakingResult : activityType === 'dictation' ? !dictationResult : isClozeExercise ? !clozeGrade && currentCard.sentence !== '[Sentence Error]' : feedback === null)} className="button-secondary disabled:opacity-50">
                                     Next <ChevronRightIcon className="w-5 h-5 inline ml-1" />
                                 </button>
                             </div>
@@ -956,8 +1812,8 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                     {sessionState === 'finished' && (
                         <div className="text-center space-y-4">
                             <h3 className="text-2xl font-bold">Session Complete!</h3>
-                            {mode === 'review' && <p className="text-xl">Your score: {score} / {flashcards.length}</p>}
-                            <p>You reviewed words related to: {selectedTopic}</p>
+                            {(mode !== 'study' || isCustomCloze || activityType === 'conjugation') && <p className="text-xl">Your score: {Number.isInteger(score) ? score : score.toFixed(1)} / {flashcards.length}</p>}
+                            <p>{isPronunciationDrill ? "You drilled the words you find hardest to pronounce." : isCustomCloze ? "You filled in the blanks in your own text." : activityType === 'conjugation' ? `You drilled conjugations for: ${verbSet?.verbs.join(', ') || conjugationTopic}` : mode === 'due' ? "You cleared today's due cards. Missed words will come back tomorrow." : `You reviewed words related to: ${source === 'deck' ? selectedDeck?.name : selectedTopic}`}</p>
                             <div className="flex justify-center gap-4">
                                 <button onClick={restartSession} className="button-secondary flex items-center gap-1">
                                     <RefreshIcon className="w-5 h-5"/> Restart
@@ -969,6 +1825,38 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({
                 </div>
             </div>
 
+            {showStats && (
+                <FlashcardStatsModal
+                    userId={user.uid}
+                    languageCode={selectedLanguageCode}
+                    languageName={targetLangName}
+                    onClose={() => setShowStats(false)}
+                />
+            )}
+
+            {showPlacementTest && (
+                <PlacementTestModal
+                    userId={user.uid}
+                    languageCode={selectedLanguageCode}
+                    languageName={targetLangName}
+                    nativeLanguageName={userNativeLangName}
+                    handleUsageCheck={handleUsageCheck}
+                    onComplete={result => setSelectedLevel(result.levels[teachMeType] ?? selectedLevel)}
+                    onClose={() => setShowPlacementTest(false)}
+                />
+            )}
+
+            {showDeckManager && (
+                <DeckManagerModal
+                    userId={user.uid}
+                    decks={decks}
+                    defaultLanguageCode={selectedLanguageCode}
+                    availableLanguages={availableLanguages}
+                    onDecksChange={setDecks}
+                    onClose={() => setShowDeckManager(false)}
+                />
+            )}
+
             {/* Styles */}
             {/* ... (Styles remain the same) */}
             <style>{`
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CloseIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import { FlashcardActivityType, FlashcardSessionRecord } from '../types.ts';
+import * as sessionHistoryService from '../services/sessionHistoryService';
+import { toDateString } from '../services/spacedRepetitionService';
+
+interface FlashcardStatsModalProps {
+  userId: string;
+  languageCode: string;
+  languageName: string;
+  onClose: () => void;
+}
+
+const HEATMAP_WEEKS = 12;
+
+const ACTIVITY_LABELS: Record<FlashcardActivityType, string> = {
+  translation: 'Translation',
+  definition: 'Definition',
+  image: 'Image',
+  sentence: 'Sentence',
+  speaking: 'Speaking',
+  dictation: 'Dictation',
+  conjugation: 'Conjugation',
+};
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+// Tailwind shade for a heatmap cell, by number of cards studied that day
+const heatmapShade = (count: number) => {
+  if (count === 0) return 'bg-gray-200 dark:bg-gray-700';
+  if (count < 10) return 'bg-green-200 dark:bg-green-900';
+  if (count < 25) return 'bg-green-400 dark:bg-green-700';
+  return 'bg-green-600 dark:bg-green-500';
+};
+
+const AccuracyList: React.FC<{ title: string; stats: sessionHistoryService.AccuracyStat[]; labelOf?: (key: string) => string }> = ({ title, stats, labelOf = key => key }) => (
+  <div>
+    <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">{title}</h3>
+    {stats.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">No graded cards yet.</p>
+    ) : (
+      <ul className="space-y-2">
+        {stats.map(stat => (
+          <li key={stat.key} className="text-sm">
+            <div className="flex justify-between gap-2 text-gray-700 dark:text-gray-300">
+              <span className="truncate" title={labelOf(stat.key)}>{labelOf(stat.key)}</span>
+              <span className="whitespace-nowrap">{formatPercent(stat.accuracy)} · {stat.attempts} cards</span>
+            </div>
+            <div className="h-2 rounded bg-gray-200 dark:bg-gray-700">
+              <div className={`h-2 rounded ${stat.accuracy >= 0.8 ? 'bg-green-500' : stat.accuracy >= 0.5 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: formatPercent(stat.accuracy) }} />
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const FlashcardStatsModal: React.FC<FlashcardStatsModalProps> = ({ userId, languageCode, languageName, onClose }) => {
+  const [allSessions, setAllSessions] = useState<FlashcardSessionRecord[] | null>(null);
+
+  useEffect(() => {
+    sessionHistoryService.getFlashcardSessions(userId).then(setAllSessions);
+  }, [userId]);
+
+  const sessions = useMemo(() =>
+    (allSessions || []).filter(session => session.languageCode === languageCode),
+    [allSessions, languageCode]
+  );
+
+  const topicAccuracy = useMemo(() => sessionHistoryService.getTopicAccuracy(sessions).slice(0, 10), [sessions]);
+  const activityAccuracy = useMemo(() => sessionHistoryService.getActivityAccuracy(sessions), [sessions]);
+  const weakestWords = useMemo(() => sessionHistoryService.getWeakestWords(sessions, 15), [sessions]);
+  const dailyCounts = useMemo(() => sessionHistoryService.getDailyCardCounts(sessions), [sessions]);
+
+  // Columns are weeks (oldest first), rows are days, ending with today
+  const heatmapWeeks = useMemo(() => {
+    const today = new Date();
+    const start = new Date(today);
+    start.setDate(today.getDate() - today.getDay() - (HEATMAP_WEEKS - 1) * 7);
+    return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, day) => {
+        const date = new Date(start);
+        date.setDate(start.getDate() + week * 7 + day);
+        const key = toDateString(date);
+        return { key, count: dailyCounts[key] || 0, isFuture: date > today };
+      })
+    );
+  }, [dailyCounts]);
+
+  const gradedResults = sessions.flatMap(session => session.results);
+  const overallAccuracy = gradedResults.length
+    ? gradedResults.reduce((sum, result) => sum + result.score, 0) / gradedResults.length
+    : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Flashcard Stats: {languageName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Stats">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-grow p-6 overflow-y-auto space-y-6">
+          {allSessions === null ? (
+            <div className="flex justify-center items-center h-full"><LoadingSpinner /></div>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">No {languageName} sessions yet. Finish a flashcard session to see your stats here.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="p-3 rounded bg-gray-100 dark:bg-gray-700">
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{sessions.length}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Sessions</div>
+                </div>
+                <div className="p-3 rounded bg-gray-100 dark:bg-gray-700">
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{sessions.reduce((sum, session) => sum + session.cardCount, 0)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Cards studied</div>
+                </div>
+                <div className="p-3 rounded bg-gray-100 dark:bg-gray-700">
+                  <div className="text-2xl font-bold text-gray-900 dark:text-white">{overallAccuracy === null ? '-' : formatPercent(overallAccuracy)}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">Accuracy</div>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Daily Reviews (last {HEATMAP_WEEKS} weeks)</h3>
+                <div className="flex gap-1 overflow-x-auto">
+                  {heatmapWeeks.map((week, weekIndex) => (
+                    <div key={weekIndex} className="flex flex-col gap-1">
+                      {week.map(day => (
+                        <div
+                          key={day.key}
+                          className={`w-4 h-4 rounded-sm ${day.isFuture ? 'bg-transparent' : heatmapShade(day.count)}`}
+                          title={day.isFuture ? undefined : `${day.key}: ${day.count} card${day.count === 1 ? '' : 's'}`}
+                        />
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <AccuracyList title="Accuracy by Topic (weakest first)" stats={topicAccuracy} />
+                <AccuracyList title="Accuracy by Activity" stats={activityAccuracy} labelOf={key => ACTIVITY_LABELS[key as FlashcardActivityType] || key} />
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Words You Keep Missing</h3>
+                {weakestWords.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">Nothing yet. Words show up here once you've reviewed them {sessionHistoryService.MIN_ATTEMPTS_FOR_WEAK_WORD}+ times and missed them.</p>
+                ) : (
+                  <ul className="divide-y dark:divide-gray-700">
+                    {weakestWords.map(word => (
+                      <li key={word.term} className="flex justify-between py-1 text-sm text-gray-700 dark:text-gray-300">
+                        <span className="font-medium">{word.term} {word.topic && <span className="text-xs text-gray-500 dark:text-gray-400">({word.topic})</span>}</span>
+                        <span>missed {word.misses} of {word.attempts} · {formatPercent(word.accuracy)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2 text-gray-900 dark:text-white">Recent Sessions</h3>
+                <ul className="divide-y dark:divide-gray-700">
+                  {sessions.slice(0, 10).map(session => (
+                    <li key={session.id} className="flex justify-between gap-2 py-1 text-sm text-gray-700 dark:text-gray-300">
+                      <span className="truncate">{session.date} · {session.topic || 'Mixed'} · {ACTIVITY_LABELS[session.activityType] || session.activityType} ({session.mode})</span>
+                      <span className="whitespace-nowrap">
+                        {session.results.length > 0 ? `${Number.isInteger(session.score) ? session.score : session.score.toFixed(1)} / ${session.cardCount}` : `${session.cardCount} cards`} · {formatDuration(session.durationMs)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardStatsModal;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloseIcon, CheckIcon, XIcon } from './Icons.tsx';
+import { GroupChat, LiveQuiz, UserProfileData } from '../types.ts';
+import * as groupService from '../services/groupService';
+import * as liveQuizService from '../services/liveQuizService';
+
+interface LiveQuizPanelProps {
+  group: GroupChat;
+  quiz: LiveQuiz;
+  userId: string;
+  userName: string;
+  isHost: boolean; // The host can end the quiz early
+  userProfile: UserProfileData;
+  onClose: () => void;
+}
+
+// How long to wait before asking again when the server says a phase isn't over yet
+const ADVANCE_RETRY_MS = 1000;
+
+const LiveQuizPanel: React.FC<LiveQuizPanelProps> = ({ group, quiz, userId, userName, isHost, userProfile, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+  const [submittedKey, setSubmittedKey] = useState<string | null>(null);
+  const advancedPhaseRef = useRef<string | null>(null);
+
+  // Each client times a phase from when it first sees it, so clock differences between
+  // devices don't cut anyone's time short
+  const phaseKey = `${quiz.id}-${quiz.currentIndex}-${quiz.phase}`;
+  const phaseSeenRef = useRef({ key: '', at: 0 });
+  if (phaseSeenRef.current.key !== phaseKey) {
+    phaseSeenRef.current = { key: phaseKey, at: Date.now() };
+  }
+  const phaseSeconds = quiz.phase === 'question' ? quiz.secondsPerQuestion : liveQuizService.REVEAL_SECONDS;
+  const secondsLeft = Math.max(0, Math.ceil(phaseSeconds - Math.max(0, now - phaseSeenRef.current.at) / 1000));
+
+  const memberIds = Object.keys(group.members);
+  const question = quiz.questions[quiz.currentIndex];
+  const correctAnswer = liveQuizService.getRevealedAnswer(quiz, quiz.currentIndex);
+  const myAnswer = quiz.answers?.[userId]?.[quiz.currentIndex];
+  const answeredCount = memberIds.filter(memberId => !!quiz.answers?.[memberId]?.[quiz.currentIndex]).length;
+
+  useEffect(() => {
+    if (quiz.phase === 'finished') return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [quiz.phase]);
+
+  // Whoever's call ended the quiz posts the scoreboard, so it's posted exactly once
+  const postResults = (finishedQuiz: LiveQuiz) => {
+    groupService.postLiveQuizResults(group, finishedQuiz, userId, userName, userProfile)
+      .catch(error => console.error("Error posting the live quiz results:", error));
+  };
+
+  // Every member's client asks the server to move on once the answer can be revealed or the
+  // reveal is over, so the quiz doesn't stall if the host leaves. The server checks the
+  // deadline and only the first call moves the quiz.
+  useEffect(() => {
+    if (quiz.phase === 'finished' || advancedPhaseRef.current === phaseKey) return;
+    if (secondsLeft > 0 && !(quiz.phase === 'question' && liveQuizService.haveAllAnswered(quiz, memberIds))) return;
+    advancedPhaseRef.current = phaseKey;
+    groupService.advanceLiveQuiz(group.id, quiz)
+      .then(nextQuiz => {
+        if (nextQuiz?.phase === 'finished') postResults(nextQuiz);
+      })
+      .catch(error => {
+        // Usually this device's timer ran slightly ahead of the server's deadline
+        console.warn("Could not move the live quiz on yet:", error);
+        setTimeout(() => {
+          if (advancedPhaseRef.current === phaseKey) advancedPhaseRef.current = null;
+        }, ADVANCE_RETRY_MS);
+      });
+  }, [phaseKey, secondsLeft, now, quiz]);
+
+  const handleAnswer = (option: string) => {
+    if (myAnswer || submittedKey === phaseKey || quiz.phase !== 'question' || secondsLeft === 0) return;
+    setSubmittedKey(phaseKey);
+    groupService.submitLiveQuizAnswer(group.id, userId, quiz.currentIndex, { option, playerName: userName, answeredAt: Date.now() })
+      .catch(error => {
+        console.error("Error submitting live quiz answer:", error);
+        setSubmittedKey(null);
+      });
+  };
+
+  const handleClose = () => {
+    if (isHost && quiz.phase !== 'finished') {
+      if (!window.confirm("End the group quiz now? The scoreboard will be posted with the answers so far.")) return;
+      advancedPhaseRef.current = phaseKey;
+      groupService.endLiveQuiz(group.id, quiz)
+        .then(finishedQuiz => {
+          if (finishedQuiz) postResults(finishedQuiz);
+        })
+        .catch(error => console.error("Error ending the live quiz:", error));
+    }
+    onClose();
+  };
+
+  const renderOptions = () => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {question.options.map((option, index) => {
+        const isMine = myAnswer?.option === option;
+        const isCorrect = option === correctAnswer;
+        let colorClass = 'bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600';
+        if (quiz.phase === 'reveal') {
+          colorClass = isCorrect ? 'bg-green-500 text-white' : isMine ? 'bg-red-500 text-white' : 'bg-gray-100 dark:bg-gray-700 opacity-60';
+        } else if (isMine) {
+          colorClass = 'bg-blue-500 text-white';
+        }
+        return (
+          <button
+            key={`${quiz.currentIndex}-${index}`}
+            onClick={() => handleAnswer(option)}
+            disabled={quiz.phase !== 'question' || !!myAnswer}
+            className={`p-4 rounded-lg text-left font-semibold ${colorClass}`}
+          >
+            {option}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const renderQuestion = () => (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
+        <span>Question {quiz.currentIndex + 1} of {quiz.questions.length}</span>
+        {quiz.phase === 'question' && (
+          <span className={`font-mono font-bold text-lg ${secondsLeft <= 5 ? 'text-red-500 animate-pulse' : 'text-gray-700 dark:text-gray-300'}`}>{secondsLeft}s</span>
+        )}
+      </div>
+      <p className="text-xl font-semibold text-gray-900 dark:text-white">{question.question}</p>
+      {renderOptions()}
+      {quiz.phase === 'question' ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+          {myAnswer ? 'Answer locked in! ' : ''}{answeredCount} of {memberIds.length} answered
+        </p>
+      ) : (
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          {myAnswer?.option === correctAnswer
+            ? <CheckIcon className="w-5 h-5 text-green-500" />
+            : <XIcon className="w-5 h-5 text-red-500" />}
+          <span>{liveQuizService.countCorrect(quiz, quiz.currentIndex)} of {memberIds.length} got it right. Next question in {secondsLeft}s...</span>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderScoreboard = () => {
+    const scoreboard = liveQuizService.buildScoreboard(quiz);
+    return (
+      <div className="space-y-4">
+        <p className="text-2xl font-bold text-center text-gray-900 dark:text-white">Final Scores</p>
+        {scoreboard.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400">Nobody answered any questions.</p>
+        ) : (
+          <ul className="space-y-2">
+            {scoreboard.map(entry => (
+              <li
+                key={entry.userId}
+                className={`flex justify-between p-3 rounded-lg ${entry.userId === userId ? 'bg-blue-100 dark:bg-blue-900' : 'bg-gray-100 dark:bg-gray-700'}`}
+              >
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  #{scoreboard.findIndex(other => other.score === entry.score) + 1} {entry.name}
+                </span>
+                <span className="font-bold text-blue-500">{entry.score} / {quiz.questions.length}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400">The scoreboard has been posted to the chat.</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-xl max-h-[90vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">Group Quiz: {quiz.topic}</h2>
+          <button onClick={handleClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label={isHost && quiz.phase !== 'finished' ? 'End group quiz' : 'Close group quiz'}>
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-6">
+          {quiz.phase === 'finished' ? renderScoreboard() : renderQuestion()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveQuizPanel;
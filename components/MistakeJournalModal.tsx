@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CloseIcon, SearchIcon, TrashIcon, FlashcardsIcon, CheckIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import CorrectionDiff from './CorrectionDiff';
+import { Language, MistakeCategory, MistakeJournalEntry } from '../types.ts';
+import * as mistakeJournalService from '../services/mistakeJournalService';
+
+interface MistakeJournalModalProps {
+  userId: string;
+  languages: Language[];
+  initialLanguageCode: string | null; // Language to filter by when the journal opens
+  onClose: () => void;
+}
+
+const MistakeJournalModal: React.FC<MistakeJournalModalProps> = ({ userId, languages, initialLanguageCode, onClose }) => {
+  const [entries, setEntries] = useState<MistakeJournalEntry[] | null>(null);
+  const [searchText, setSearchText] = useState('');
+  const [languageCode, setLanguageCode] = useState<string | null>(initialLanguageCode);
+  const [category, setCategory] = useState<MistakeCategory | null>(null);
+  const [addingEntryId, setAddingEntryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    mistakeJournalService.getMistakes(userId).then(setEntries);
+  }, [userId]);
+
+  // Only offer languages the user actually has entries for
+  const entryLanguages = useMemo(() => {
+    const codes = new Set((entries || []).map(entry => entry.languageCode));
+    if (initialLanguageCode) codes.add(initialLanguageCode);
+    return Array.from(codes).map(code => ({ code, name: languages.find(l => l.code === code)?.name || code }));
+  }, [entries, languages, initialLanguageCode]);
+
+  const filteredEntries = useMemo(() =>
+    mistakeJournalService.searchMistakes(entries || [], { text: searchText, languageCode, category }),
+    [entries, searchText, languageCode, category]
+  );
+
+  const handleMakeCard = async (entry: MistakeJournalEntry) => {
+    setAddingEntryId(entry.id);
+    try {
+      const deckId = await mistakeJournalService.addMistakeToDeck(userId, entry);
+      setEntries(prev => prev && prev.map(e => e.id === entry.id ? { ...e, deckId } : e));
+    } catch (error) {
+      console.error("Error turning mistake into a review card:", error);
+      alert("Failed to add this mistake to your flashcards. Please try again.");
+    } finally {
+      setAddingEntryId(null);
+    }
+  };
+
+  const handleDelete = async (entry: MistakeJournalEntry) => {
+    try {
+      await mistakeJournalService.deleteMistake(userId, entry.id);
+      setEntries(prev => prev && prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error("Error deleting mistake journal entry:", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Mistake Journal</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Mistake Journal">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b dark:border-gray-700 flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-grow">
+            <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={searchText}
+              onChange={e => setSearchText(e.target.value)}
+              placeholder="Search your mistakes..."
+              className="w-full input-style pl-9"
+            />
+          </div>
+          <select value={languageCode || ''} onChange={e => setLanguageCode(e.target.value || null)} className="input-style">
+            <option value="">All languages</option>
+            {entryLanguages.map(lang => <option key={lang.code} value={lang.code}>{lang.name}</option>)}
+          </select>
+          <select value={category || ''} onChange={e => setCategory((e.target.value || null) as MistakeCategory | null)} className="input-style capitalize">
+            <option value="">All categories</option>
+            {mistakeJournalService.MISTAKE_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+
+        <div className="flex-grow p-4 overflow-y-auto">
+          {entries === null ? (
+            <div className="flex justify-center items-center h-full"><LoadingSpinner /></div>
+          ) : filteredEntries.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              {entries.length === 0
+                ? "No mistakes yet. Corrections from your chats are saved here automatically while corrections are turned on."
+                : "No mistakes match your search."}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {filteredEntries.map(entry => (
+                <li key={entry.id} className="p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                  <div className="flex justify-between items-start gap-2">
+                    {entry.edits?.length ? (
+                      <div className="min-w-0 text-gray-900 dark:text-white">
+                        <CorrectionDiff original={entry.original} corrected={entry.corrected} edits={entry.edits} />
+                      </div>
+                    ) : (
+                      <div className="min-w-0">
+                        <p className="text-red-600 dark:text-red-400 line-through break-words">{entry.original}</p>
+                        <p className="text-green-700 dark:text-green-300 font-semibold break-words">{entry.corrected}</p>
+                      </div>
+                    )}
+                    <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs capitalize bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">{entry.category}</span>
+                  </div>
+                  {/* Entries with edits already explain each change */}
+                  {!entry.edits?.length && <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{entry.explanation}</p>}
+                  <div className="mt-2 flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
+                    <span>{new Date(entry.createdAt).toLocaleDateString()} · with {entry.partnerName}</span>
+                    <span className="flex items-center gap-3">
+                      {entry.deckId ? (
+                        <span className="flex items-center text-green-600 dark:text-green-400"><CheckIcon className="w-4 h-4 mr-1" />In "{mistakeJournalService.MISTAKE_DECK_NAME}" deck</span>
+                      ) : (
+                        <button onClick={() => handleMakeCard(entry)} disabled={addingEntryId !== null} className="flex items-center text-blue-500 hover:underline disabled:opacity-50">
+                          {addingEntryId === entry.id ? <LoadingSpinner size="sm" /> : <FlashcardsIcon className="w-4 h-4 mr-1" />}
+                          Make Review Card
+                        </button>
+                      )}
+                      <button onClick={() => handleDelete(entry)} className="text-gray-400 hover:text-red-500" aria-label="Delete entry">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MistakeJournalModal;
@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { CloseIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import { PlacementQuestion, PlacementResult, TeachMeType, UsageKey } from '../types.ts';
+import * as geminiService from '../services/geminiService';
+import * as firestoreService from '../services/firestoreService';
+import * as placementService from '../services/placementService';
+
+interface PlacementTestModalProps {
+  userId: string;
+  languageCode: string;
+  languageName: string; // Target language name, as teachMeData is keyed
+  nativeLanguageName: string;
+  handleUsageCheck: (feature: UsageKey, action: () => Promise<void> | void) => Promise<void>;
+  onComplete: (result: PlacementResult) => void;
+  onClose: () => void;
+}
+
+// Scenarios is the name the TeachMe tabs use for the Conversation track
+const TRACK_LABELS: Record<TeachMeType, string> = { Grammar: 'Grammar', Vocabulary: 'Vocabulary', Conversation: 'Scenarios' };
+
+const PlacementTestModal: React.FC<PlacementTestModalProps> = ({
+  userId, languageCode, languageName, nativeLanguageName, handleUsageCheck, onComplete, onClose,
+}) => {
+  const [stage, setStage] = useState<'intro' | 'loading' | 'question' | 'results' | 'error'>('intro');
+  const [trackIndex, setTrackIndex] = useState(0);
+  const [questions, setQuestions] = useState<PlacementQuestion[]>([]);
+  const [questionIndex, setQuestionIndex] = useState(-1);
+  const [answers, setAnswers] = useState<placementService.PlacementAnswer[]>([]);
+  const [result, setResult] = useState<PlacementResult | null>(null);
+  const usedIndexesRef = useRef<Set<number>>(new Set());
+  const levelsRef = useRef<PlacementResult['levels']>({});
+
+  const track = placementService.PLACEMENT_TRACKS[trackIndex];
+
+  const finish = async () => {
+    const placement: PlacementResult = { levels: levelsRef.current, testedAt: Date.now() };
+    setResult(placement);
+    setStage('results');
+    if (Object.keys(placement.levels).length === 0) return;
+    try {
+      await firestoreService.savePlacementResult(userId, languageCode, placement);
+      onComplete(placement);
+    } catch (error) {
+      console.error("Error saving placement result:", error);
+    }
+  };
+
+  // Loads the next track that has lessons for this language, or finishes the test
+  const startTrack = async (index: number) => {
+    for (let next = index; next < placementService.PLACEMENT_TRACKS.length; next++) {
+      const nextTrack = placementService.PLACEMENT_TRACKS[next];
+      const topics = placementService.samplePlacementTopics(nextTrack, languageName);
+      if (topics.length === 0) continue;
+
+      setTrackIndex(next);
+      setStage('loading');
+      try {
+        const bank = await geminiService.generatePlacementQuestions(topics, nextTrack, languageName, nativeLanguageName);
+        usedIndexesRef.current = new Set();
+        const first = placementService.pickPlacementQuestion(bank, placementService.START_LEVEL, usedIndexesRef.current);
+        usedIndexesRef.current.add(first);
+        setQuestions(bank);
+        setAnswers([]);
+        setQuestionIndex(first);
+        setStage('question');
+      } catch (error) {
+        console.error("Error generating placement questions:", error);
+        setStage('error');
+      }
+      return;
+    }
+    await finish();
+  };
+
+  const handleStart = () => {
+    handleUsageCheck("quizzes", () => startTrack(0));
+  };
+
+  const handleAnswer = (option: string) => {
+    const question = questions[questionIndex];
+    const answer = { level: question.level, isCorrect: option === question.correctAnswer };
+    const trackAnswers = [...answers, answer];
+    setAnswers(trackAnswers);
+
+    const nextIndex = trackAnswers.length < placementService.QUESTIONS_PER_TRACK
+      ? placementService.pickPlacementQuestion(questions, placementService.getNextLevel(question.level, answer.isCorrect), usedIndexesRef.current)
+      : -1;
+    if (nextIndex !== -1) {
+      usedIndexesRef.current.add(nextIndex);
+      setQuestionIndex(nextIndex);
+      return;
+    }
+    levelsRef.current = { ...levelsRef.current, [track]: placementService.recommendLevel(trackAnswers) };
+    startTrack(trackIndex + 1);
+  };
+
+  const renderBody = () => {
+    switch (stage) {
+      case 'intro':
+        return (
+          <div className="text-center space-y-4">
+            <p className="text-gray-700 dark:text-gray-300">
+              Answer a few questions for each of Grammar, Vocabulary and Scenarios. Questions get harder when you answer correctly and easier when you don't.
+              At the end you'll get a recommended starting level for each, used as your default level for {languageName}.
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">If you don't know an answer, choose "I don't know" rather than guessing, so your levels aren't set too high.</p>
+            <button onClick={handleStart} className="px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600">
+              Start Placement Test
+            </button>
+          </div>
+        );
+      case 'loading':
+        return (
+          <div className="flex flex-col items-center gap-2">
+            <LoadingSpinner />
+            <p className="text-sm text-gray-500 dark:text-gray-400">Preparing {TRACK_LABELS[track]} questions...</p>
+          </div>
+        );
+      case 'error':
+        return (
+          <div className="text-center space-y-4">
+            <p className="text-red-500">Failed to load the {TRACK_LABELS[track]} questions.</p>
+            <button onClick={() => startTrack(trackIndex)} className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">
+              Try Again
+            </button>
+          </div>
+        );
+      case 'question': {
+        const question = questions[questionIndex];
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {TRACK_LABELS[track]} · Question {answers.length + 1} of {placementService.QUESTIONS_PER_TRACK}
+            </p>
+            <p className="text-xl font-semibold text-gray-900 dark:text-white">{question.question}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {question.options.map((option, index) => (
+                <button
+                  key={`${questionIndex}-${index}`}
+                  onClick={() => handleAnswer(option)}
+                  className="p-4 rounded-lg text-left bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => handleAnswer('')} className="w-full text-sm text-gray-500 dark:text-gray-400 hover:underline">
+              I don't know
+            </button>
+          </div>
+        );
+      }
+      case 'results':
+        return result && Object.keys(result.levels).length > 0 ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-700 dark:text-gray-300">Your recommended starting levels for {languageName}:</p>
+            <ul className="space-y-2">
+              {placementService.PLACEMENT_TRACKS.filter(t => result.levels[t]).map(t => (
+                <li key={t} className="flex justify-between p-3 rounded-lg bg-gray-100 dark:bg-gray-700">
+                  <span className="font-semibold text-gray-900 dark:text-white">{TRACK_LABELS[t]}</span>
+                  <span className="font-bold text-blue-500">Level {result.levels[t]}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-sm text-gray-500 dark:text-gray-400">You can still pick any level yourself, or retake the test later.</p>
+          </div>
+        ) : (
+          <p className="text-center text-gray-500 dark:text-gray-400">There are no lessons for {languageName} to test you on yet.</p>
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-xl max-h-[90vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700 flex-shrink-0">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Placement Test: {languageName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close placement test">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="flex-grow overflow-y-auto p-6">{renderBody()}</div>
+        {stage === 'results' && (
+          <div className="flex-shrink-0 p-4 border-t dark:border-gray-700 flex justify-center">
+            <button onClick={onClose} className="px-6 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600">Done</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlacementTestModal;
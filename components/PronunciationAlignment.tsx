@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { alignTokens, scoreAlignment } from '../services/textComparisonService';
+
+interface PronunciationAlignmentProps {
+  expected: string; // The sentence that was read
+  transcript: string; // What the speech-to-text heard
+}
+
+const scoreColor = (score: number) =>
+  score >= 90 ? 'text-green-600 dark:text-green-400' : score >= 70 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-500';
+
+// The read sentence word by word, coloured by whether each word was heard, plus the score
+const PronunciationAlignment: React.FC<PronunciationAlignmentProps> = ({ expected, transcript }) => {
+  const diff = useMemo(() => alignTokens(expected, transcript), [expected, transcript]);
+  const score = scoreAlignment(diff);
+
+  return (
+    <div className="space-y-2">
+      <p className={`text-lg font-bold ${scoreColor(score)}`}>Pronunciation score: {score}%</p>
+      <p className="flex flex-wrap justify-center gap-x-1.5 gap-y-1 text-lg">
+        {diff.map((token, index) => {
+          switch (token.type) {
+            case 'match':
+              return <span key={index} className="text-green-600 dark:text-green-400">{token.expected}</span>;
+            case 'substitution':
+              return (
+                <span key={index} className="text-yellow-600 dark:text-yellow-400 underline decoration-wavy" title={`Heard "${token.actual}"`}>
+                  {token.expected}
+                </span>
+              );
+            case 'missing':
+              return <s key={index} className="text-red-500" title="Not heard">{token.expected}</s>;
+            case 'insertion':
+              return <span key={index} className="text-gray-400 italic" title="Extra word">+{token.actual}</span>;
+          }
+        })}
+      </p>
+      <p className="flex flex-wrap justify-center gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+        <span><span className="text-green-600 dark:text-green-400">■</span> Matched</span>
+        <span><span className="text-yellow-600 dark:text-yellow-400">■</span> Sounded different</span>
+        <span><span className="text-red-500">■</span> Missing</span>
+        <span><span className="text-gray-400">■</span> Extra</span>
+      </p>
+      {diff.some(token => token.type === 'substitution') && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Heard: "{transcript}"</p>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationAlignment;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { CloseIcon, ChevronLeftIcon, RefreshIcon } from './Icons.tsx';
+import LoadingSpinner from './LoadingSpinner';
+import QuizReviewList from './QuizReviewList';
+import { LessonTopicRef, QuizAttempt, QuizQuestion } from '../types.ts';
+import * as quizHistoryService from '../services/quizHistoryService';
+
+interface QuizHistoryModalProps {
+  userId: string;
+  onRetake: (attempt: QuizAttempt, questions: QuizQuestion[]) => void;
+  onOpenLesson?: (topic: LessonTopicRef) => void; // Omit to hide the lesson links
+  onClose: () => void;
+}
+
+const QuizHistoryModal: React.FC<QuizHistoryModalProps> = ({ userId, onRetake, onOpenLesson, onClose }) => {
+  const [attempts, setAttempts] = useState<QuizAttempt[] | null>(null);
+  const [selectedAttempt, setSelectedAttempt] = useState<QuizAttempt | null>(null);
+
+  useEffect(() => {
+    quizHistoryService.getQuizAttempts(userId).then(setAttempts);
+  }, [userId]);
+
+  const missedQuestions = selectedAttempt ? quizHistoryService.getMissedQuestions(selectedAttempt) : [];
+
+  const renderAttemptList = () => {
+    if (attempts === null) return <div className="flex justify-center items-center h-full"><LoadingSpinner /></div>;
+    if (attempts.length === 0) {
+      return <p className="text-center text-gray-500 dark:text-gray-400">No quizzes yet. Finished quizzes are saved here so you can review them later.</p>;
+    }
+    return (
+      <ul className="space-y-2">
+        {attempts.map(attempt => (
+          <li key={attempt.id}>
+            <button onClick={() => setSelectedAttempt(attempt)} className="w-full p-3 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-left flex justify-between items-center gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 dark:text-white truncate">{attempt.topic}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(attempt.createdAt).toLocaleString()} · {attempt.language} · Level {attempt.level}
+                  {attempt.retakeOf && ' · Retake'}
+                </p>
+              </div>
+              <span className={`flex-shrink-0 font-bold ${attempt.score === attempt.total ? 'text-green-600 dark:text-green-400' : 'text-blue-500'}`}>
+                {attempt.score} / {attempt.total}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex justify-center items-center z-50 p-4" role="dialog" aria-modal="true">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-[85vh] flex flex-col animate-fade-in-down">
+        <div className="flex justify-between items-center p-4 border-b dark:border-gray-700">
+          <div className="flex items-center gap-2 min-w-0">
+            {selectedAttempt && (
+              <button onClick={() => setSelectedAttempt(null)} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Back to quiz history">
+                <ChevronLeftIcon className="w-6 h-6" />
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">
+              {selectedAttempt ? `${selectedAttempt.topic} · ${selectedAttempt.score} / ${selectedAttempt.total}` : 'Quiz History'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200" aria-label="Close Quiz History">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-grow p-4 overflow-y-auto">
+          {selectedAttempt ? (
+            <>
+              {selectedAttempt.passage && (
+                <div className="mb-4 max-h-60 overflow-y-auto p-4 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100 whitespace-pre-line">
+                  {selectedAttempt.passage.text}
+                </div>
+              )}
+              <QuizReviewList questions={selectedAttempt.questions} results={selectedAttempt.results} onOpenLesson={onOpenLesson} />
+            </>
+          ) : renderAttemptList()}
+        </div>
+
+        {selectedAttempt && (
+          <div className="flex-shrink-0 p-4 border-t dark:border-gray-700 flex justify-center">
+            <button
+              onClick={() => onRetake(selectedAttempt, missedQuestions)}
+              disabled={missedQuestions.length === 0}
+              className="flex items-center gap-2 px-6 py-2 bg-green-500 text-white font-bold rounded-lg hover:bg-green-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              <RefreshIcon className="w-5 h-5" />
+              {missedQuestions.length === 0 ? 'No Missed Questions' : `Retake ${missedQuestions.length} Missed Question${missedQuestions.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizHistoryModal;
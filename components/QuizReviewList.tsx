@@ -0,0 +1,103 @@
+import React from 'react';
+import { CheckIcon, XIcon, BookOpenIcon } from './Icons.tsx';
+import PronunciationAlignment from './PronunciationAlignment';
+import { LessonTopicRef, QuizQuestion, ValidatedQuizResult } from '../types.ts';
+
+interface QuizReviewListProps {
+  questions: QuizQuestion[];
+  results: ValidatedQuizResult[]; // Same order as questions
+  onOpenLesson?: (topic: LessonTopicRef) => void; // Omit to hide the lesson links
+}
+
+// Matching answers are stored as "term-i:def-j" pairs; show them as the words themselves
+const describeMatches = (question: Extract<QuizQuestion, { type: 'matching' }>, matches: string[]): string =>
+  matches.map(match => {
+    const [termId, defId] = match.split(':');
+    const term = question.pairs[parseInt(termId.replace('term-', ''), 10)]?.term;
+    const definition = question.pairs[parseInt((defId || '').replace('def-', ''), 10)]?.definition;
+    return `${term || '?'} → ${definition || '?'}`;
+  }).join('; ');
+
+const describeUserAnswer = (question: QuizQuestion, answer: string | string[]): string => {
+  if (question.type === 'matching') return Array.isArray(answer) && answer.length > 0 ? describeMatches(question, answer) : '(Skipped)';
+  // Older quizzes stored 'completed' instead of the transcript
+  if (question.type === 'speaking' && answer === 'completed') return 'Completed';
+  return typeof answer === 'string' && answer.trim() ? answer : '(Skipped)';
+};
+
+const describeCorrectAnswer = (question: QuizQuestion): string | null => {
+  switch (question.type) {
+    case 'matching':
+      return question.pairs.map(pair => `${pair.term} → ${pair.definition}`).join('; ');
+    case 'speaking':
+      return null; // The sentence is already shown as the question's context
+    default:
+      return question.correctAnswer;
+  }
+};
+
+// The sentence a question was built around, when it isn't part of the question text
+const getQuestionContext = (question: QuizQuestion): string | null => {
+  switch (question.type) {
+    case 'error-correction': return question.sentenceWithError;
+    case 'translation': return question.sourceSentence;
+    case 'speaking':
+    case 'listening': return question.sentenceToRead;
+    default: return null;
+  }
+};
+
+// Graded questions with the learner's answer, the answer key and the explanation
+const QuizReviewList: React.FC<QuizReviewListProps> = ({ questions, results, onOpenLesson }) => (
+  <ul className="space-y-3 text-left">
+    {questions.map((question, index) => {
+      const result = results[index];
+      const context = getQuestionContext(question);
+      const correctAnswer = describeCorrectAnswer(question);
+      const transcript = question.type === 'speaking' && typeof result?.userAnswer === 'string' && result.userAnswer.trim() && result.userAnswer !== 'completed'
+        ? result.userAnswer
+        : null;
+      return (
+        <li key={index} className={`p-3 rounded-lg border-l-4 bg-gray-100 dark:bg-gray-700 ${result?.isCorrect ? 'border-green-500' : 'border-red-500'}`}>
+          <div className="flex items-start gap-2">
+            {result?.isCorrect
+              ? <CheckIcon className="w-5 h-5 flex-shrink-0 text-green-500" />
+              : <XIcon className="w-5 h-5 flex-shrink-0 text-red-500" />}
+            <div className="min-w-0 space-y-1">
+              <p className="font-semibold text-gray-900 dark:text-white">{index + 1}. {question.question}</p>
+              {context && <p className="text-sm italic text-gray-600 dark:text-gray-300">{context}</p>}
+              {transcript && question.type === 'speaking' ? (
+                <div className="text-sm text-center">
+                  <PronunciationAlignment expected={question.sentenceToRead} transcript={transcript} />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-700 dark:text-gray-300 break-words">
+                  <span className="font-semibold">Your answer:</span> {describeUserAnswer(question, result?.userAnswer ?? '')}
+                </p>
+              )}
+              {!result?.isCorrect && correctAnswer && (
+                <p className="text-sm text-green-700 dark:text-green-300 break-words">
+                  <span className="font-semibold">Correct answer:</span> {correctAnswer}
+                </p>
+              )}
+              {result?.explanation && (
+                <p className="text-sm text-gray-600 dark:text-gray-300">{result.explanation}</p>
+              )}
+              {result?.relatedTopic && onOpenLesson && (
+                <button
+                  onClick={() => onOpenLesson(result.relatedTopic!)}
+                  className="flex items-center gap-1 text-sm text-blue-500 hover:underline text-left"
+                >
+                  <BookOpenIcon className="w-4 h-4 flex-shrink-0" />
+                  Open lesson: {result.relatedTopic.title}
+                </button>
+              )}
+            </div>
+          </div>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+export default QuizReviewList;
@@ -15,4 +15,14 @@ root.render(
       <App />
     </BrowserRouter>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// The service worker lets the app shell load offline (see public/sw.js). It is skipped in
+// development so it never serves stale modules to Vite's dev server.
+if ('serviceWorker' in navigator && process.env.NODE_ENV !== 'development') {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
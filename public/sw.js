@@ -0,0 +1,65 @@
+// Service worker for offline use. Caches the app shell and the CDN scripts it loads so
+// the app can start without a connection; flashcard decks themselves are stored in
+// IndexedDB by services/offlineService.ts. API calls are never cached.
+
+const CACHE_NAME = 'langcampus-shell-v1';
+const PRECACHE_URLS = ['/', '/index.html', '/manifest.json', '/logo.png'];
+
+// Third-party hosts serving scripts/modules the page needs at startup
+const CACHEABLE_HOSTS = ['cdn.tailwindcss.com', 'cdn.jsdelivr.net', 'aistudiocdn.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Serves from cache immediately and refreshes the cached copy in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response && (response.ok || response.type === 'opaque')) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Page loads: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  const isSameOriginAsset = url.origin === self.location.origin && !url.pathname.startsWith('/__/');
+  if (isSameOriginAsset || CACHEABLE_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
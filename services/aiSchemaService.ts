@@ -0,0 +1,341 @@
+import { collection, addDoc } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { ClozeBlankKind, ConjugationVerbSet, LiveQuizQuestion, MockExamSectionKind, Partner, PlacementQuestion, QuizQuestion } from '../types.ts';
+
+// Runtime schemas for structured AI responses. Each check returns the typed value, or
+// every problem it found (with a JSON path) so a repair prompt can point at them.
+
+export interface SchemaResult<T> {
+  value?: T; // Set when there are no errors
+  errors: string[];
+}
+
+type Check<T> = (value: unknown, path: string) => SchemaResult<T>;
+
+export interface Schema<T> {
+  name: string; // Recorded with failures, e.g. 'QuizQuestion[]'
+  check: Check<T>;
+}
+
+const FAILURES_COLLECTION = 'aiSchemaFailures';
+const MAX_RECORDED_ERRORS = 10;
+
+// --- Building blocks ---
+
+const ok = <T>(value: T): SchemaResult<T> => ({ value, errors: [] });
+const fail = (path: string, message: string): SchemaResult<never> => ({ errors: [`${path}: ${message}`] });
+
+const text: Check<string> = (value, path) =>
+  typeof value !== 'string' ? fail(path, 'expected a string')
+    : !value.trim() ? fail(path, 'must not be empty')
+    : ok(value);
+
+// A string that may be empty or left out; a missing one reads as ''
+const optionalText: Check<string> = (value, path) =>
+  value === null || value === undefined ? ok('')
+    : typeof value === 'string' ? ok(value)
+    : fail(path, 'expected a string');
+
+const bool: Check<boolean> = (value, path) =>
+  typeof value === 'boolean' ? ok(value) : fail(path, 'expected true or false');
+
+const integer: Check<number> = (value, path) =>
+  typeof value === 'number' && Number.isInteger(value) ? ok(value) : fail(path, 'expected a whole number');
+
+// Accepts null (or a missing field) in place of the value
+const nullable = <T>(check: Check<T>): Check<T | null> => (value, path) =>
+  value === null || value === undefined ? ok(null) : check(value, path);
+
+const literal = <T extends string>(expected: T): Check<T> => (value, path) =>
+  value === expected ? ok(expected) : fail(path, `expected "${expected}"`);
+
+const arrayOf = <T>(item: Check<T>, { min = 0, max = Infinity } = {}): Check<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return fail(path, 'expected an array');
+  if (value.length < min || value.length > max) {
+    return fail(path, max === min ? `expected exactly ${min} items, got ${value.length}` : `expected ${min}-${max} items, got ${value.length}`);
+  }
+  const items: T[] = [];
+  const errors: string[] = [];
+  value.forEach((entry, index) => {
+    const result = item(entry, `${path}[${index}]`);
+    if (result.errors.length === 0) items.push(result.value!); else errors.push(...result.errors);
+  });
+  return errors.length > 0 ? { errors } : ok(items);
+};
+
+// Checks the listed fields; any other fields are kept as they are
+const objectOf = <T extends object>(shape: { [K in keyof T]: Check<T[K]> }): Check<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'expected an object');
+  const result: Record<string, unknown> = { ...value };
+  const errors: string[] = [];
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`);
+    if (field.errors.length === 0) result[key] = field.value; else errors.push(...field.errors);
+  }
+  return errors.length > 0 ? { errors } : ok(result as T);
+};
+
+// Adds a cross-field rule; `rule` returns a problem description, or null if the value is fine
+const refine = <T>(check: Check<T>, rule: (value: T) => string | null): Check<T> => (value, path) => {
+  const result = check(value, path);
+  if (result.errors.length > 0) return result;
+  const problem = rule(result.value!);
+  return problem ? fail(path, problem) : result;
+};
+
+// --- Quiz questions ---
+
+type QuestionOf<K extends QuizQuestion['type']> = Extract<QuizQuestion, { type: K }>;
+
+const QUESTION_CHECKS: { [K in QuizQuestion['type']]: Check<QuestionOf<K>> } = {
+  'multiple-choice': refine(
+    objectOf<QuestionOf<'multiple-choice'>>({ type: literal('multiple-choice'), question: text, options: arrayOf(text, { min: 2 }), correctAnswer: text }),
+    q => q.options.includes(q.correctAnswer) ? null : 'correctAnswer must be exactly one of the options'
+  ),
+  'matching': objectOf<QuestionOf<'matching'>>({
+    type: literal('matching'),
+    question: text,
+    pairs: arrayOf(objectOf<{ term: string; definition: string }>({ term: text, definition: text }), { min: 2 }),
+  }),
+  'fill-in-the-blank': objectOf<QuestionOf<'fill-in-the-blank'>>({ type: literal('fill-in-the-blank'), question: text, correctAnswer: text }),
+  'speaking': objectOf<QuestionOf<'speaking'>>({ type: literal('speaking'), question: text, sentenceToRead: text }),
+  'listening': objectOf<QuestionOf<'listening'>>({ type: literal('listening'), question: text, correctAnswer: text, sentenceToRead: text }),
+  'ordering': objectOf<QuestionOf<'ordering'>>({ type: literal('ordering'), question: text, tokens: arrayOf(text, { min: 2 }), correctAnswer: text }),
+  'error-correction': refine(
+    objectOf<QuestionOf<'error-correction'>>({ type: literal('error-correction'), question: text, sentenceWithError: text, correctAnswer: text }),
+    q => q.sentenceWithError.trim() === q.correctAnswer.trim() ? 'sentenceWithError must contain a mistake' : null
+  ),
+  'translation': objectOf<QuestionOf<'translation'>>({ type: literal('translation'), question: text, sourceSentence: text, correctAnswer: text }),
+};
+
+const quizQuestion: Check<QuizQuestion> = (value, path) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  const check = typeof type === 'string' ? (QUESTION_CHECKS as Record<string, Check<QuizQuestion>>)[type] : undefined;
+  return check ? check(value, path) : fail(`${path}.type`, `unknown question type ${JSON.stringify(type)}`);
+};
+
+const quizQuestionOfTypes = (types: QuizQuestion['type'][]): Check<QuizQuestion> => (value, path) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  return types.includes(type as QuizQuestion['type'])
+    ? quizQuestion(value, path)
+    : fail(`${path}.type`, `expected one of ${types.map(t => `"${t}"`).join(', ')}`);
+};
+
+// --- Mock exams ---
+
+// Which question types each exam section may use
+export const MOCK_EXAM_SECTION_TYPES: Record<MockExamSectionKind, QuizQuestion['type'][]> = {
+  reading: ['multiple-choice'],
+  listening: ['listening'],
+  grammar: ['multiple-choice', 'fill-in-the-blank', 'error-correction', 'ordering'],
+  speaking: ['speaking'],
+};
+
+export type AiMockExam = { readingPassage: string } & Record<MockExamSectionKind, QuizQuestion[]>;
+
+export const mockExamSchema = (sizes: Record<MockExamSectionKind, number>): Schema<AiMockExam> => ({
+  name: 'MockExam',
+  check: objectOf<AiMockExam>({
+    readingPassage: text,
+    reading: arrayOf(quizQuestionOfTypes(MOCK_EXAM_SECTION_TYPES.reading), { min: sizes.reading, max: sizes.reading }),
+    listening: arrayOf(quizQuestionOfTypes(MOCK_EXAM_SECTION_TYPES.listening), { min: sizes.listening, max: sizes.listening }),
+    grammar: arrayOf(quizQuestionOfTypes(MOCK_EXAM_SECTION_TYPES.grammar), { min: sizes.grammar, max: sizes.grammar }),
+    speaking: arrayOf(quizQuestionOfTypes(MOCK_EXAM_SECTION_TYPES.speaking), { min: sizes.speaking, max: sizes.speaking }),
+  }),
+});
+
+// --- Live group quizzes ---
+
+export const liveQuizQuestionsSchema = (count: number): Schema<LiveQuizQuestion[]> => ({
+  name: 'LiveQuizQuestion[]',
+  check: arrayOf(QUESTION_CHECKS['multiple-choice'], { min: count, max: count }),
+});
+
+// --- Quiz grading results ---
+
+export interface AiQuizGrade {
+  isCorrect: boolean;
+}
+
+export const quizGradesSchema = (count: number): Schema<AiQuizGrade[]> => ({
+  name: 'ValidatedQuizResult[]',
+  check: arrayOf(objectOf<AiQuizGrade>({ isCorrect: bool }), { min: count, max: count }),
+});
+
+// --- Quiz explanations ---
+
+export interface AiQuizExplanation {
+  explanation: string;
+  topicNumber: number | null; // 1-based number in the prompt's lesson list
+}
+
+export const quizExplanationsSchema = (count: number, topicCount: number): Schema<AiQuizExplanation[]> => ({
+  name: 'QuizExplanation[]',
+  check: arrayOf(refine(
+    objectOf<AiQuizExplanation>({ explanation: text, topicNumber: nullable(integer) }),
+    e => e.topicNumber === null || (e.topicNumber >= 1 && e.topicNumber <= topicCount) ? null : `topicNumber must be between 1 and ${topicCount}, or null`
+  ), { min: count, max: count }),
+});
+
+// --- Placement questions ---
+
+// The topic and level come from the prompt's topic list, not from the model
+export type AiPlacementQuestion = Omit<PlacementQuestion, 'topic' | 'level'>;
+
+export const placementQuestionsSchema = (count: number): Schema<AiPlacementQuestion[]> => ({
+  name: 'PlacementQuestion[]',
+  check: arrayOf(refine(
+    objectOf<AiPlacementQuestion>({ question: text, options: arrayOf(text, { min: 3 }), correctAnswer: text }),
+    q => q.options.includes(q.correctAnswer) ? null : 'correctAnswer must be exactly one of the options'
+  ), { min: count, max: count }),
+});
+
+// --- Partners ---
+
+export type GeneratedPartner = Omit<Partner, 'avatar'>;
+
+// The prompt bolds the genders, and the model sometimes copies the asterisks
+const gender: Check<Partner['gender']> = (value, path) => {
+  const cleaned = typeof value === 'string' ? value.replace(/\*/g, '').trim().toLowerCase() : '';
+  return cleaned === 'male' || cleaned === 'female' ? ok(cleaned) : fail(path, 'expected "male" or "female"');
+};
+
+export const partnersSchema: Schema<GeneratedPartner[]> = {
+  name: 'Partner[]',
+  check: arrayOf(objectOf<GeneratedPartner>({
+    name: text,
+    nativeLanguage: text,
+    learningLanguage: text,
+    interests: arrayOf(text, { min: 1 }),
+    gender,
+  }), { min: 1 }),
+};
+
+// --- Chat summaries ---
+
+export interface AiChatSummary {
+  summary: string;
+  keyFacts: string[];
+}
+
+export const chatSummarySchema: Schema<AiChatSummary> = {
+  name: 'ChatSummary',
+  check: objectOf<AiChatSummary>({ summary: text, keyFacts: arrayOf(text) }),
+};
+
+// --- Chat replies ---
+
+// The partner's reply in chat, nudges and welcome messages. "mistake" is only asked for in
+// chat, and is read leniently (see mistakeJournalService.toCorrectionEdits).
+export interface AiChatReply {
+  text: string;
+  correction: string;
+  translation: string;
+  mistake?: { corrected?: unknown; category?: unknown; edits?: unknown } | null;
+}
+
+export const chatReplySchema: Schema<AiChatReply> = {
+  name: 'ChatReply',
+  check: objectOf<AiChatReply>({ text, correction: optionalText, translation: optionalText }),
+};
+
+// --- Cloze passages ---
+
+export interface AiClozeBlank {
+  answer: string;
+  hint: string;
+  alternatives: string[];
+  kind: ClozeBlankKind;
+}
+
+export interface AiClozePassage {
+  passage: string;
+  blanks: AiClozeBlank[];
+}
+
+const CLOZE_BLANK_KINDS: ClozeBlankKind[] = ['term', 'article', 'particle', 'conjugation', 'other'];
+
+const clozeBlankKind: Check<ClozeBlankKind> = (value, path) => {
+  const cleaned = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return CLOZE_BLANK_KINDS.includes(cleaned as ClozeBlankKind)
+    ? ok(cleaned as ClozeBlankKind)
+    : fail(path, `expected one of ${CLOZE_BLANK_KINDS.map(kind => `"${kind}"`).join(', ')}`);
+};
+
+/**
+ * A cloze exercise's passage and blanks.
+ * @param passage The text the blanks must come from, if the learner supplied it (the
+ * model's echo of it in "passage" is ignored); otherwise the model's own passage.
+ */
+export const clozePassageSchema = (passage?: string): Schema<AiClozePassage> => ({
+  name: 'ClozePassage',
+  check: refine(
+    objectOf<AiClozePassage>({
+      passage: text,
+      blanks: arrayOf(objectOf<AiClozeBlank>({
+        answer: text,
+        hint: optionalText,
+        alternatives: (value, path) => value === null || value === undefined ? ok([]) : arrayOf(text)(value, path),
+        kind: clozeBlankKind,
+      }), { min: 1 }),
+    }),
+    cloze => {
+      const fullText = (passage || cloze.passage).toLowerCase();
+      return cloze.blanks.some(blank => fullText.includes(blank.answer.trim().toLowerCase()))
+        ? null
+        : 'no blank "answer" appears in the passage; copy the answers exactly from it';
+    }
+  ),
+});
+
+// --- Conjugation verb sets ---
+
+export const conjugationVerbSetSchema: Schema<ConjugationVerbSet> = {
+  name: 'ConjugationVerbSet',
+  check: objectOf<ConjugationVerbSet>({ verbs: arrayOf(text, { min: 1 }), tenses: arrayOf(text) }),
+};
+
+// --- Example sentences ---
+
+export interface AiExampleSentence {
+  fullSentence: string;
+  sentenceWithBlank: string;
+}
+
+export const exampleSentenceSchema: Schema<AiExampleSentence> = {
+  name: 'ExampleSentence',
+  check: refine(
+    objectOf<AiExampleSentence>({ fullSentence: text, sentenceWithBlank: text }),
+    sentence => sentence.sentenceWithBlank.includes('___') ? null : 'sentenceWithBlank must contain "___" in place of the word'
+  ),
+};
+
+// --- Word lists ---
+
+export const wordListSchema: Schema<string[]> = {
+  name: 'WordList',
+  check: arrayOf(text, { min: 1 }),
+};
+
+/**
+ * Records that an AI response failed a schema, so prompts that often produce broken
+ * output can be found. Never throws.
+ * @param schemaName The schema that failed.
+ * @param errors The problems found.
+ * @param stage 'initial' for the first response, 'repair' if the repair call also failed.
+ * @param model The model that produced the response.
+ */
+export const recordSchemaFailure = async (schemaName: string, errors: string[], stage: 'initial' | 'repair', model: string) => {
+  try {
+    await addDoc(collection(db, FAILURES_COLLECTION), {
+      schema: schemaName,
+      stage,
+      model,
+      errors: errors.slice(0, MAX_RECORDED_ERRORS),
+      errorCount: errors.length,
+      createdAt: Date.now(),
+    });
+  } catch (error) {
+    console.error("Error recording AI schema failure:", error);
+  }
+};
@@ -0,0 +1,42 @@
+import { ChatSummary, Message, Partner } from '../types.ts';
+import * as geminiService from './geminiService';
+
+// Rolling summaries for long solo chats. Once enough messages have piled up after the
+// summary, all but the most recent ones are folded into it, so chat prompts carry the
+// summary plus a bounded number of messages however long a saved chat gets.
+
+// Messages after the summary that trigger a new one
+const SUMMARIZE_AFTER = 40;
+// The most recent messages are never summarized, so the partner sees them word for word
+const RECENT_MESSAGES_KEPT = 16;
+const MAX_KEY_FACTS = 12;
+
+// True once a chat has enough messages past its summary to fold some of them in
+export const needsSummary = (messages: Message[], summary: ChatSummary | null): boolean =>
+  messages.length - (summary?.summarizedCount ?? 0) > SUMMARIZE_AFTER;
+
+/**
+ * Folds all but the most recent messages into the chat's summary.
+ * @param messages The whole chat, oldest first.
+ * @param summary The chat's current summary, if any.
+ * @param partner The chat partner.
+ * @returns The new summary, or the current one if none is needed yet or the AI failed
+ * (the next reply tries again).
+ */
+export const updateChatSummary = async (messages: Message[], summary: ChatSummary | null, partner: Partner): Promise<ChatSummary | null> => {
+  if (!needsSummary(messages, summary)) return summary;
+
+  const summarizedCount = messages.length - RECENT_MESSAGES_KEPT;
+  try {
+    const result = await geminiService.summarizeConversation(messages.slice(summary?.summarizedCount ?? 0, summarizedCount), summary, partner);
+    return {
+      text: result.summary,
+      keyFacts: result.keyFacts.slice(0, MAX_KEY_FACTS),
+      summarizedCount,
+      updatedAt: Date.now(),
+    };
+  } catch (error) {
+    console.error("Error summarizing chat:", error);
+    return summary;
+  }
+};
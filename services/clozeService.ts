@@ -0,0 +1,110 @@
+import { ClozeBlank, ClozeBlankKind, ClozePassage, ClozeSegment } from '../types.ts';
+import { isLenientMatch, isUnspacedScript } from './textComparisonService.ts';
+
+// Local cloze (fill-in-the-blanks) engine. The AI only suggests which words to blank;
+// locating them in the passage and grading answers happen here, deterministically.
+
+export const CLOZE_BLANK_MARKER = '___';
+
+// A word or form to blank out, as suggested by the AI or taken from a card's term
+export interface ClozeTarget {
+  answer: string;
+  alternatives?: string[];
+  hint?: string;
+  kind?: ClozeBlankKind;
+}
+
+export interface ClozeBlankResult {
+  blankId: number;
+  answer: string;
+  userAnswer: string;
+  isCorrect: boolean;
+}
+
+export interface ClozeGrade {
+  results: ClozeBlankResult[];
+  correctCount: number;
+  ratio: number; // 0..1, used for partial credit
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds `answer` in `text`, respecting word boundaries for spaced scripts
+const findAnswer = (text: string, answer: string, isTaken: (start: number, end: number) => boolean) => {
+  const boundary = isUnspacedScript(answer) ? '' : '(?<![\\p{L}\\p{N}])';
+  const boundaryEnd = isUnspacedScript(answer) ? '' : '(?![\\p{L}\\p{N}])';
+  const pattern = new RegExp(`${boundary}${escapeRegExp(answer)}${boundaryEnd}`, 'giu');
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (!isTaken(start, end)) return { start, end };
+  }
+  return null;
+};
+
+/**
+ * Builds a cloze passage by blanking each target's first free occurrence in the text.
+ * Targets that don't appear in the text (or overlap an earlier blank) are skipped.
+ * @param text The full passage.
+ * @param targets The words or forms to blank.
+ */
+export const buildClozePassage = (text: string, targets: ClozeTarget[]): ClozePassage => {
+  const ranges: Array<{ start: number; end: number; target: ClozeTarget }> = [];
+  const isTaken = (start: number, end: number) => ranges.some(r => start < r.end && end > r.start);
+
+  targets.forEach(target => {
+    const answer = target.answer?.trim();
+    if (!answer) return;
+    const found = findAnswer(text, answer, isTaken);
+    if (found) ranges.push({ ...found, target });
+  });
+  ranges.sort((a, b) => a.start - b.start);
+
+  const segments: ClozeSegment[] = [];
+  const blanks: ClozeBlank[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end, target }, index) => {
+    if (start > cursor) segments.push({ type: 'text', text: text.slice(cursor, start) });
+    const answer = text.slice(start, end); // As written in the passage, not as the AI spelled it
+    blanks.push({
+      id: index,
+      answer,
+      alternatives: (target.alternatives || []).filter(alt => alt && !isLenientMatch(alt, answer)),
+      hint: target.hint?.trim() || undefined,
+      kind: target.kind || 'other',
+    });
+    segments.push({ type: 'blank', blankId: index });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ type: 'text', text: text.slice(cursor) });
+
+  return { fullText: text, segments, blanks };
+};
+
+/**
+ * Renders a cloze passage as plain text with every blank replaced by a marker.
+ */
+export const renderClozeText = (passage: ClozePassage, marker = CLOZE_BLANK_MARKER): string =>
+  passage.segments.map(segment => (segment.type === 'text' ? segment.text : marker)).join('');
+
+/**
+ * Grades a learner's answers blank by blank. Case, accents and punctuation are ignored,
+ * and any of a blank's alternatives is accepted.
+ * @param passage The cloze passage.
+ * @param answers The learner's answers, indexed by blank id.
+ */
+export const gradeCloze = (passage: ClozePassage, answers: Record<number, string>): ClozeGrade => {
+  const results = passage.blanks.map(blank => {
+    const userAnswer = (answers[blank.id] || '').trim();
+    const isCorrect = !!userAnswer &&
+      [blank.answer, ...blank.alternatives].some(accepted => isLenientMatch(accepted, userAnswer));
+    return { blankId: blank.id, answer: blank.answer, userAnswer, isCorrect };
+  });
+  const correctCount = results.filter(r => r.isCorrect).length;
+  return {
+    results,
+    correctCount,
+    ratio: results.length ? correctCount / results.length : 0,
+  };
+};
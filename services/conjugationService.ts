@@ -0,0 +1,105 @@
+import { ConjugationTable, Flashcard } from '../types.ts';
+import { normalizeForComparison } from './textComparisonService.ts';
+
+// Deterministic helpers for the conjugation drill. Tables come from the cached
+// conjugationTable function; nothing here calls the AI.
+
+export type ConjugationGrade = 'correct' | 'accent' | 'incorrect';
+
+// Grammar topic tags/titles that mark a lesson about verbs, in the curriculum's languages
+const VERB_TAG_PATTERN = /^(verbs|verbos|verbes|verbi|verben)$|conjug/i;
+const VERB_TITLE_PATTERN = /conjug|koniug/i;
+
+// The tenses a drill can use, by language name. Conjugation tables are cached server-side
+// under the tense name, so these names must never vary between requests. The
+// conjugationTable function only accepts these, so keep its copy of the lists in step.
+const CONJUGATION_TENSES: Record<string, string[]> = {
+  Spanish: ['Presente de indicativo', 'Pretérito perfecto compuesto', 'Pretérito indefinido', 'Pretérito imperfecto', 'Futuro simple', 'Condicional simple', 'Presente de subjuntivo', 'Imperativo afirmativo'],
+  French: ['Présent', 'Passé composé', 'Imparfait', 'Futur simple', 'Conditionnel présent', 'Subjonctif présent', 'Impératif'],
+  Italian: ['Presente indicativo', 'Passato prossimo', 'Imperfetto', 'Futuro semplice', 'Condizionale presente', 'Congiuntivo presente', 'Imperativo'],
+  Portuguese: ['Presente do indicativo', 'Pretérito perfeito', 'Pretérito imperfeito', 'Futuro do presente', 'Futuro do pretérito', 'Presente do subjuntivo', 'Imperativo afirmativo'],
+  German: ['Präsens', 'Perfekt', 'Präteritum', 'Futur I', 'Konjunktiv II', 'Imperativ'],
+  English: ['Present simple', 'Present continuous', 'Present perfect', 'Past simple', 'Past continuous', 'Future (will)', 'Conditional (would)'],
+  Russian: ['Настоящее время', 'Прошедшее время', 'Будущее время', 'Повелительное наклонение', 'Сослагательное наклонение'],
+  Polish: ['Czas teraźniejszy', 'Czas przeszły', 'Czas przyszły', 'Tryb rozkazujący', 'Tryb przypuszczający'],
+  Esperanto: ['Prezenco (-as)', 'Pasinteco (-is)', 'Futuro (-os)', 'Kondicionalo (-us)', 'Volitivo (-u)'],
+  Japanese: ['Polite non-past (ます)', 'Polite negative (ません)', 'Polite past (ました)', 'Plain non-past (dictionary form)', 'Plain negative (ない)', 'Plain past (た)', 'Te-form (て)'],
+  Korean: ['Polite present (-아요/어요)', 'Polite past (-았어요/었어요)', 'Polite future (-(으)ㄹ 거예요)', 'Formal present (-(스)ㅂ니다)', 'Progressive (-고 있어요)'],
+  Hindi: ['Simple present (सामान्य वर्तमान)', 'Present continuous (अपूर्ण वर्तमान)', 'Simple past (सामान्य भूत)', 'Future (भविष्यत्)', 'Imperative (आज्ञार्थ)'],
+  Arabic: ['Past (الماضي)', 'Present (المضارع)', 'Future (المستقبل)', 'Imperative (الأمر)'],
+  Mongolian: ['Present/Future (-на/-нэ)', 'Past (-сан/-сэн)', 'Recent past (-в)', 'Imperative'],
+};
+// For languages whose verbs barely inflect, so the drill only has these to offer
+const DEFAULT_TENSES = ['Present', 'Past', 'Future'];
+
+// The canonical tense list for a language, in textbook order
+export const getConjugationTenses = (languageName: string): string[] =>
+  CONJUGATION_TENSES[languageName] || DEFAULT_TENSES;
+
+/**
+ * Matches tense names to the language's canonical list, ignoring case, accents and
+ * punctuation, and drops any that aren't on it.
+ * @param tenses Tense names, e.g. from the AI.
+ * @param languageName The language name (e.g., "Spanish").
+ * @returns The canonical names, in the given order, without duplicates.
+ */
+export const toCanonicalTenses = (tenses: string[], languageName: string): string[] => {
+  const canonical = getConjugationTenses(languageName);
+  const matched = tenses
+    .map(tense => canonical.find(name => normalizeForComparison(name) === normalizeForComparison(tense)))
+    .filter((name): name is string => !!name);
+  return Array.from(new Set(matched));
+};
+
+/**
+ * True if a grammar topic can be used as a conjugation drill's verb set.
+ * @param topic A grammarData entry ({ title, level, tags }).
+ */
+export const isConjugationTopic = (topic: { title?: string; tags?: string[] }): boolean =>
+  (topic.tags || []).some(tag => VERB_TAG_PATTERN.test(tag)) || VERB_TITLE_PATTERN.test(topic.title || '');
+
+/**
+ * Turns conjugation tables into drill cards, one per person/number, shuffled.
+ * @param tables The tables for every selected verb and tense.
+ * @param amount Maximum number of cards.
+ */
+export const buildConjugationCards = (tables: ConjugationTable[], amount: number): Flashcard[] =>
+  tables
+    .flatMap(table => table.forms.map((form, index) => ({
+      id: `conj-${table.verb}-${table.tense}-${index}`,
+      term: form.form,
+      conjugation: {
+        verb: table.verb,
+        tense: table.tense,
+        person: form.person,
+        pronoun: form.pronoun,
+        alternatives: form.alternatives,
+      },
+    })))
+    .sort(() => 0.5 - Math.random())
+    .slice(0, amount);
+
+// Drops a leading subject pronoun, so "yo estoy" is graded like "estoy"
+const stripPronoun = (answer: string, pronoun: string): string => {
+  const pronouns = pronoun.split(/[/,]/).map(p => normalizeForComparison(p, true)).filter(Boolean);
+  const match = pronouns.find(p => answer.startsWith(`${p} `));
+  return match ? answer.slice(match.length + 1) : answer;
+};
+
+/**
+ * Grades a typed conjugation. Case, punctuation and a leading pronoun are ignored;
+ * accents are not, but an answer that is only missing accents is reported as 'accent'.
+ * @param card A conjugation drill card.
+ * @param answer What the learner typed.
+ */
+export const gradeConjugation = (card: Flashcard, answer: string): ConjugationGrade => {
+  const accepted = [card.term, ...(card.conjugation?.alternatives || [])];
+  const pronoun = card.conjugation?.pronoun || '';
+
+  const typed = stripPronoun(normalizeForComparison(answer, true), pronoun);
+  if (accepted.some(form => normalizeForComparison(form, true) === typed)) return 'correct';
+
+  const typedWithoutAccents = normalizeForComparison(typed);
+  if (accepted.some(form => normalizeForComparison(form) === typedWithoutAccents)) return 'accent';
+  return 'incorrect';
+};
@@ -0,0 +1,172 @@
+import { collection, doc, getDocs, setDoc, updateDoc, writeBatch, query, orderBy, deleteField, WriteBatch } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { Flashcard, FlashcardDeck } from '../types.ts';
+import { deleteDeckImage } from './storageService.ts';
+
+// A deck document holds the deck's details; its cards live in a "cards" subcollection,
+// one document each with its position, so a deck isn't capped by Firestore's document size.
+
+const DECKS_SUBCOLLECTION = 'flashcardDecks';
+const CARDS_SUBCOLLECTION = 'cards';
+// Firestore allows 500 writes per batch
+const MAX_BATCH_WRITES = 450;
+
+type StoredCard = Flashcard & { order: number };
+// Decks saved before cards moved to the subcollection keep them inline until they're migrated
+type StoredDeck = Omit<FlashcardDeck, 'cards'> & { cards?: Flashcard[] };
+
+const getDecksRef = (userId: string) => collection(db, "customers", userId, DECKS_SUBCOLLECTION);
+const getDeckRef = (userId: string, deckId: string) => doc(db, "customers", userId, DECKS_SUBCOLLECTION, deckId);
+const getCardsRef = (userId: string, deckId: string) => collection(getDeckRef(userId, deckId), CARDS_SUBCOLLECTION);
+
+// Generates an ID for a hand-made card (unique within its deck)
+export const createCardId = () => `card-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Images the user uploaded for their cards (other image URLs aren't ours to delete)
+const isUploadedImage = (url: string | undefined): url is string => !!url && url.includes('deck_images');
+
+const isSameCard = (a: Flashcard, b: Flashcard): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Flashcard>;
+  return Array.from(keys).every(key => a[key] === b[key]);
+};
+
+// Applies the writes in as many batches as they need
+const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]) => {
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+const writeCards = (userId: string, deckId: string, cards: Flashcard[]) =>
+  cards.map((card, index) => (batch: WriteBatch) => batch.set(doc(getCardsRef(userId, deckId), card.id), { ...card, order: index }));
+
+// Moves an older deck's inline cards into its subcollection
+const migrateInlineCards = async (userId: string, deckId: string, cards: Flashcard[]) => {
+  await commitInBatches([
+    ...writeCards(userId, deckId, cards),
+    batch => batch.update(getDeckRef(userId, deckId), { cards: deleteField() }),
+  ]);
+};
+
+// Fetches all of the user's decks in their saved order, each with its cards in order
+export const getDecks = async (userId: string): Promise<FlashcardDeck[]> => {
+  try {
+    const snapshot = await getDocs(query(getDecksRef(userId), orderBy('order', 'asc')));
+    return await Promise.all(snapshot.docs.map(async deckDoc => {
+      const { cards: inlineCards, ...deck } = deckDoc.data() as StoredDeck;
+      if (inlineCards) {
+        // Finish the move before returning, so edits to these cards land on their documents
+        await migrateInlineCards(userId, deck.id, inlineCards)
+          .catch(error => console.error(`Error moving the cards of deck ${deck.id}:`, error));
+        return { ...deck, cards: inlineCards };
+      }
+      const cardsSnapshot = await getDocs(query(getCardsRef(userId, deck.id), orderBy('order', 'asc')));
+      const cards = cardsSnapshot.docs.map(cardDoc => {
+        const { order, ...card } = cardDoc.data() as StoredCard;
+        return card;
+      });
+      return { ...deck, cards };
+    }));
+  } catch (error) {
+    console.error("Error fetching flashcard decks:", error);
+    return [];
+  }
+};
+
+export const createDeck = async (
+  userId: string,
+  name: string,
+  languageCode: string,
+  order: number,
+  cards: Flashcard[] = []
+): Promise<FlashcardDeck> => {
+  const deckRef = doc(getDecksRef(userId)); // Let Firestore pick the ID
+  const now = Date.now();
+  const details: Omit<FlashcardDeck, 'cards'> = {
+    id: deckRef.id,
+    name: name.trim(),
+    languageCode,
+    order,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await setDoc(deckRef, details);
+  try {
+    await commitInBatches(writeCards(userId, deckRef.id, cards));
+  } catch (error) {
+    // Don't leave a half-filled deck behind
+    await deleteDeck(userId, { ...details, cards }, false).catch(() => {});
+    throw error;
+  }
+  return { ...details, cards };
+};
+
+export const updateDeck = async (
+  userId: string,
+  deckId: string,
+  updates: Partial<Pick<FlashcardDeck, 'name' | 'description' | 'languageCode'>>
+) => {
+  await updateDoc(getDeckRef(userId, deckId), { ...updates, updatedAt: Date.now() });
+};
+
+/**
+ * Saves a deck's edited card list. Only new, changed and moved cards are written, removed
+ * cards are deleted, and uploaded images no card uses any more are deleted from Storage.
+ * @param userId The UID of the user.
+ * @param deck The deck as it was last saved.
+ * @param cards The deck's new cards, in order.
+ */
+export const saveDeckCards = async (userId: string, deck: FlashcardDeck, cards: Flashcard[]) => {
+  const cardsRef = getCardsRef(userId, deck.id);
+  const previous = new Map(deck.cards.map((card, index) => [card.id, { card, index }]));
+  const keptIds = new Set(cards.map(card => card.id));
+
+  const writes: ((batch: WriteBatch) => void)[] = [];
+  cards.forEach((card, index) => {
+    const before = previous.get(card.id);
+    if (before && before.index === index && isSameCard(before.card, card)) return;
+    writes.push(batch => batch.set(doc(cardsRef, card.id), { ...card, order: index }));
+  });
+  deck.cards
+    .filter(card => !keptIds.has(card.id))
+    .forEach(card => writes.push(batch => batch.delete(doc(cardsRef, card.id))));
+  writes.push(batch => batch.update(getDeckRef(userId, deck.id), { updatedAt: Date.now() }));
+  await commitInBatches(writes);
+
+  const imagesInUse = new Set(cards.map(card => card.imageUrl));
+  const unusedImages = deck.cards.map(card => card.imageUrl).filter(url => isUploadedImage(url) && !imagesInUse.has(url));
+  await Promise.all(Array.from(new Set(unusedImages)).map(url => deleteDeckImage(url!)));
+};
+
+// Saves a new card order in as few batches as possible. Each card is written whole, so
+// a card whose document is missing (e.g. a deck whose migration failed) is recreated.
+export const reorderDeckCards = async (userId: string, deckId: string, orderedCards: Flashcard[]) => {
+  const cardsRef = getCardsRef(userId, deckId);
+  await commitInBatches(orderedCards.map((card, index) => batch => batch.set(doc(cardsRef, card.id), { ...card, order: index }, { merge: true })));
+};
+
+export const deleteDeck = async (userId: string, deck: FlashcardDeck, deleteImages = true) => {
+  // 1. Delete the cards and the deck document itself
+  const cardsRef = getCardsRef(userId, deck.id);
+  await commitInBatches([
+    ...deck.cards.map(card => (batch: WriteBatch) => batch.delete(doc(cardsRef, card.id))),
+    batch => batch.delete(getDeckRef(userId, deck.id)),
+  ]);
+
+  // 2. Remove any images the user uploaded for this deck's cards
+  if (deleteImages) {
+    const uploadedImages = deck.cards.map(c => c.imageUrl).filter(isUploadedImage);
+    await Promise.all(uploadedImages.map(url => deleteDeckImage(url)));
+  }
+};
+
+// Saves the new deck order in a single batch
+export const reorderDecks = async (userId: string, orderedDecks: FlashcardDeck[]) => {
+  const batch = writeBatch(db);
+  orderedDecks.forEach((deck, index) => {
+    batch.update(getDeckRef(userId, deck.id), { order: index });
+  });
+  await batch.commit();
+};
@@ -0,0 +1,248 @@
+import { FlashcardActivityType, FlashcardSessionRecord, LessonTopicRef, MistakeCategory, MistakeJournalEntry, QuizAttempt, QuizQuestion, TeachMeType } from '../types.ts';
+import * as mistakeJournalService from './mistakeJournalService';
+import * as quizHistoryService from './quizHistoryService';
+import * as sessionHistoryService from './sessionHistoryService';
+import { getTrackTopics, PLACEMENT_TRACKS } from './placementService';
+import { toDateString } from './spacedRepetitionService';
+
+// Personal error analytics. Chat corrections, missed quiz questions and failed flashcards
+// are turned into one list of error signals, which are grouped into trends by category,
+// topics that keep coming back, and the lessons that teach them.
+
+export type ErrorSource = 'chat' | 'quiz' | 'flashcard';
+// Chat corrections are categorized by the partner; the extra categories cover quiz and
+// flashcard misses that aren't grammar mistakes
+export type ErrorCategory = MistakeCategory | 'vocabulary' | 'pronunciation' | 'listening';
+
+export interface ErrorSignal {
+  source: ErrorSource;
+  category: ErrorCategory;
+  topic: string | null; // Lesson title or flashcard topic, when the error came from one
+  lesson: LessonTopicRef | null; // The lesson a quiz explanation linked the error to
+  createdAt: number;
+}
+
+export interface CategoryTrend {
+  category: ErrorCategory;
+  total: number;
+  sources: Record<ErrorSource, number>;
+  weekly: number[]; // Errors per week over the last TREND_WEEKS, oldest first
+  change: 'rising' | 'falling' | 'steady'; // The last RECENT_WEEKS against the ones before
+}
+
+export interface RecurringTopic {
+  topic: string;
+  errors: number;
+  days: number; // Distinct days with errors on the topic
+  lesson: LessonTopicRef | null;
+}
+
+export interface LessonSuggestion {
+  lesson: LessonTopicRef;
+  reason: string;
+}
+
+export const TREND_WEEKS = 8;
+const RECENT_WEEKS = 4;
+// A change in weekly errors smaller than this is treated as noise
+const MIN_TREND_CHANGE = 2;
+// A topic "keeps coming back" once it has errors on this many different days
+const MIN_RECURRING_DAYS = 2;
+// Grammar lessons suggested per error category
+const LESSONS_PER_CATEGORY = 2;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const QUIZ_TYPE_CATEGORIES: Record<QuizQuestion['type'], ErrorCategory> = {
+  'multiple-choice': 'grammar',
+  'fill-in-the-blank': 'grammar',
+  'error-correction': 'grammar',
+  'matching': 'vocabulary',
+  'ordering': 'word order',
+  'translation': 'word choice',
+  'speaking': 'pronunciation',
+  'listening': 'listening',
+};
+
+const FLASHCARD_ACTIVITY_CATEGORIES: Record<FlashcardActivityType, ErrorCategory> = {
+  translation: 'vocabulary',
+  definition: 'vocabulary',
+  image: 'vocabulary',
+  sentence: 'vocabulary',
+  speaking: 'pronunciation',
+  dictation: 'spelling',
+  conjugation: 'verb tense',
+};
+
+// Words in a grammar lesson's title that mark it as teaching a category. Lesson titles
+// include an English description, so English keywords work for every language.
+const CATEGORY_LESSON_KEYWORDS: Partial<Record<ErrorCategory, string[]>> = {
+  'verb tense': ['tense', 'conjugat', 'preterite', 'imperfect', 'perfect'],
+  'agreement': ['agreement', 'gender', 'plural'],
+  'word order': ['word order', 'sentence structure', 'order of'],
+  'particle': ['particle'],
+  'spelling': ['spelling', 'alphabet', 'accent'],
+  'punctuation': ['punctuation'],
+  'pronunciation': ['pronunciation'],
+};
+
+// Chat corrections; entries with edits count each edit under its own category
+const fromMistakes = (entries: MistakeJournalEntry[], languageCode: string): ErrorSignal[] =>
+  entries
+    .filter(entry => entry.languageCode === languageCode)
+    .flatMap(entry => (entry.edits?.length ? entry.edits.map(edit => edit.category) : [entry.category])
+      .map(category => ({ source: 'chat' as const, category, topic: null, lesson: null, createdAt: entry.createdAt })));
+
+const fromQuizAttempts = (attempts: QuizAttempt[], languageName: string): ErrorSignal[] =>
+  attempts
+    .filter(attempt => attempt.language === languageName)
+    .flatMap(attempt => attempt.questions.flatMap((question, index) => {
+      const result = attempt.results[index];
+      if (!result || result.isCorrect) return [];
+      const lesson = result.relatedTopic || null;
+      const category = QUIZ_TYPE_CATEGORIES[question.type];
+      return [{
+        source: 'quiz' as const,
+        // Grammar-style questions on a vocabulary lesson are testing vocabulary
+        category: category === 'grammar' && lesson?.type === 'Vocabulary' ? 'vocabulary' : category,
+        topic: attempt.topic,
+        lesson,
+        createdAt: attempt.createdAt,
+      }];
+    }));
+
+const fromFlashcardSessions = (sessions: FlashcardSessionRecord[], languageCode: string): ErrorSignal[] =>
+  sessions
+    .filter(session => session.languageCode === languageCode)
+    .flatMap(session => session.results
+      .filter(result => !result.correct)
+      .map(result => ({
+        source: 'flashcard' as const,
+        category: FLASHCARD_ACTIVITY_CATEGORIES[session.activityType],
+        topic: result.topic ?? session.topic,
+        lesson: null,
+        createdAt: session.finishedAt,
+      })));
+
+/**
+ * Loads the learner's chat corrections, quiz attempts and flashcard sessions in one
+ * language and turns every mistake in them into an error signal.
+ * @param userId The UID of the user.
+ * @param languageCode Target language code (journal entries and flashcards use codes).
+ * @param languageName Target language name (quiz attempts use names).
+ */
+export const getErrorSignals = async (userId: string, languageCode: string, languageName: string): Promise<ErrorSignal[]> => {
+  const [mistakes, attempts, sessions] = await Promise.all([
+    mistakeJournalService.getMistakes(userId),
+    quizHistoryService.getQuizAttempts(userId),
+    sessionHistoryService.getFlashcardSessions(userId),
+  ]);
+  return [
+    ...fromMistakes(mistakes, languageCode),
+    ...fromQuizAttempts(attempts, languageName),
+    ...fromFlashcardSessions(sessions, languageCode),
+  ];
+};
+
+/**
+ * Counts errors per category, most frequent first, with a weekly breakdown and whether
+ * the category is getting better or worse.
+ * @param signals The signals to analyse.
+ * @param now When the most recent week ends.
+ */
+export const getCategoryTrends = (signals: ErrorSignal[], now = Date.now()): CategoryTrend[] => {
+  const trends = new Map<ErrorCategory, CategoryTrend>();
+  signals.forEach(signal => {
+    const trend = trends.get(signal.category) || {
+      category: signal.category,
+      total: 0,
+      sources: { chat: 0, quiz: 0, flashcard: 0 },
+      weekly: new Array(TREND_WEEKS).fill(0),
+      change: 'steady',
+    };
+    trend.total += 1;
+    trend.sources[signal.source] += 1;
+    const weeksAgo = Math.floor((now - signal.createdAt) / WEEK_MS);
+    if (weeksAgo >= 0 && weeksAgo < TREND_WEEKS) trend.weekly[TREND_WEEKS - 1 - weeksAgo] += 1;
+    trends.set(signal.category, trend);
+  });
+
+  return Array.from(trends.values())
+    .map(trend => {
+      const recent = trend.weekly.slice(-RECENT_WEEKS).reduce((sum, count) => sum + count, 0);
+      const earlier = trend.weekly.slice(-2 * RECENT_WEEKS, -RECENT_WEEKS).reduce((sum, count) => sum + count, 0);
+      const change: CategoryTrend['change'] = recent - earlier >= MIN_TREND_CHANGE ? 'rising'
+        : earlier - recent >= MIN_TREND_CHANGE ? 'falling'
+        : 'steady';
+      return { ...trend, change };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+/**
+ * Finds the topics the learner keeps making mistakes on: errors on at least
+ * MIN_RECURRING_DAYS different days, those spread over the most days first.
+ * @param signals The signals to analyse.
+ * @param maxTopics Maximum number of topics to return.
+ */
+export const getRecurringTopics = (signals: ErrorSignal[], maxTopics = 8): RecurringTopic[] => {
+  const topics = new Map<string, { errors: number; days: Set<string>; lesson: LessonTopicRef | null }>();
+  signals.forEach(signal => {
+    const topic = signal.lesson?.title || signal.topic;
+    if (!topic) return;
+    const entry = topics.get(topic) || { errors: 0, days: new Set<string>(), lesson: null };
+    entry.errors += 1;
+    entry.days.add(toDateString(new Date(signal.createdAt)));
+    entry.lesson = entry.lesson || signal.lesson;
+    topics.set(topic, entry);
+  });
+
+  return Array.from(topics, ([topic, { errors, days, lesson }]) => ({ topic, errors, days: days.size, lesson }))
+    .filter(topic => topic.days >= MIN_RECURRING_DAYS)
+    .sort((a, b) => b.days - a.days || b.errors - a.errors)
+    .slice(0, maxTopics);
+};
+
+// The standard lesson with this exact title, on any track
+const findLesson = (title: string, languageName: string): LessonTopicRef | null => {
+  for (const type of PLACEMENT_TRACKS) {
+    const match = getTrackTopics(type, languageName).find(topic => topic.title === title);
+    if (match) return { title: match.title, level: match.level, type };
+  }
+  return null;
+};
+
+// The lowest-level grammar lessons whose titles mention the category
+const findCategoryLessons = (category: ErrorCategory, languageName: string): LessonTopicRef[] => {
+  const keywords = CATEGORY_LESSON_KEYWORDS[category];
+  if (!keywords) return [];
+  const type: TeachMeType = 'Grammar';
+  return getTrackTopics(type, languageName)
+    .filter(topic => keywords.some(keyword => topic.title.toLowerCase().includes(keyword)))
+    .sort((a, b) => a.level - b.level)
+    .slice(0, LESSONS_PER_CATEGORY)
+    .map(topic => ({ title: topic.title, level: topic.level, type }));
+};
+
+/**
+ * Suggests TeachMe lessons to review: first the lessons behind the learner's recurring
+ * topics, then grammar lessons for the categories with the most mistakes.
+ * @param signals The signals to analyse.
+ * @param languageName Target language name, as teachMeData is keyed (e.g., "Spanish").
+ * @param maxSuggestions Maximum number of lessons to suggest.
+ */
+export const suggestLessons = (signals: ErrorSignal[], languageName: string, maxSuggestions = 5): LessonSuggestion[] => {
+  const suggestions: LessonSuggestion[] = [];
+  const add = (lesson: LessonTopicRef, reason: string) => {
+    if (!suggestions.some(suggestion => suggestion.lesson.title === lesson.title)) suggestions.push({ lesson, reason });
+  };
+
+  getRecurringTopics(signals).forEach(topic => {
+    const lesson = topic.lesson || findLesson(topic.topic, languageName);
+    if (lesson) add(lesson, `${topic.errors} mistakes on ${topic.days} different days`);
+  });
+  getCategoryTrends(signals).forEach(trend => {
+    findCategoryLessons(trend.category, languageName).forEach(lesson =>
+      add(lesson, `${trend.total} ${trend.category} mistakes${trend.change === 'rising' ? ', and rising' : ''}`));
+  });
+  return suggestions.slice(0, maxSuggestions);
+};
@@ -1,7 +1,7 @@
 import { doc, getDoc, updateDoc, increment, setDoc, arrayUnion, arrayRemove, deleteField } from "firebase/firestore";
 import { User as AuthUser } from "firebase/auth";
 import { db } from '../firebaseConfig.ts';
-import { UserData, UsageKey, SavedChat, SubscriptionStatus, TeachMeCache, Note, UserProfileData, FlashcardSettings } from '../types.ts';
+import { UserData, UsageKey, SavedChat, SubscriptionStatus, TeachMeCache, Note, UserProfileData, FlashcardSettings, PlacementResult } from '../types.ts';
 import { deleteAudioMessage } from './storageService.ts';
 
 const DAILY_LIMITS = {
@@ -273,4 +273,16 @@ export const reorderNotesInFirestore = async (userId: string, newNotes: Note[])
 export const saveFlashcardSettings = async (userId: string, settings: FlashcardSettings) => {
   const userRef = doc(db, "customers", userId);
   await updateDoc(userRef, { flashcardSettings: settings });
-};
\ No newline at end of file
+};
+
+/**
+ * Stores the placement test's recommended levels for one target language, replacing any
+ * earlier result for that language.
+ * @param userId The UID of the user.
+ * @param languageCode Target language code.
+ * @param result The recommended levels.
+ */
+export const savePlacementResult = async (userId: string, languageCode: string, result: PlacementResult) => {
+  const userRef = doc(db, "customers", userId);
+  await updateDoc(userRef, { [`placementLevels.${languageCode}`]: result });
+};
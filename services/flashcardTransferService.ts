@@ -0,0 +1,412 @@
+import type { Database, SqlJsStatic } from 'sql.js';
+import { Flashcard, FlashcardDeck } from '../types.ts';
+
+// The Flashcard fields that can be filled from an imported column / Anki note field
+export type MappableField = 'term' | 'translation' | 'definition' | 'sentence' | 'imageUrl';
+export type ColumnMapping = Record<number, MappableField | 'ignore'>;
+
+export const MAPPABLE_FIELDS: { value: MappableField; label: string }[] = [
+  { value: 'term', label: 'Term' },
+  { value: 'translation', label: 'Translation' },
+  { value: 'definition', label: 'Definition' },
+  { value: 'sentence', label: 'Sentence' },
+  { value: 'imageUrl', label: 'Image' },
+];
+
+// Rows read from a CSV/TSV file or from the notes of an Anki package
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  // Anki media files by their in-collection filename (e.g. "cat.jpg")
+  media: Record<string, Blob>;
+}
+
+// sql.js loads its WebAssembly binary at runtime; keep this in step with package.json
+const SQL_JS_CDN = 'https://cdn.jsdelivr.net/npm/sql.js@1.14.2/dist/';
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+// Lazily loads sql.js so the main bundle doesn't pay for it
+const loadSqlJs = () => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js').then(({ default: initSqlJs }) =>
+      initSqlJs({ locateFile: (file: string) => `${SQL_JS_CDN}${file}` })
+    );
+  }
+  return sqlJsPromise;
+};
+
+const loadJsZip = async () => (await import('jszip')).default;
+
+// --- CSV / TSV ---
+
+/**
+ * Parses delimited text (RFC 4180 quoting rules), guessing the delimiter from the first line.
+ * @param text The raw file contents.
+ * @param hasHeaderRow Whether the first row holds column names.
+ */
+export const parseDelimitedText = (text: string, hasHeaderRow: boolean): ImportTable => {
+  const content = text.replace(/^\uFEFF/, ''); // Strip the BOM Excel adds
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const countOf = (char: string) => firstLine.split(char).length - 1;
+  // Tabs win outright (Anki/Quizlet exports); semicolons are common in European Excel CSVs
+  const delimiter = countOf('\t') > 0 ? '\t' : countOf(';') > countOf(',') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmptyRows = rows.filter(r => r.some(cell => cell.trim() !== ''));
+  const columnCount = Math.max(0, ...nonEmptyRows.map(r => r.length));
+  const headers = hasHeaderRow && nonEmptyRows.length > 0
+    ? nonEmptyRows[0].map((h, i) => h.trim() || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+
+  return {
+    headers,
+    rows: (hasHeaderRow ? nonEmptyRows.slice(1) : nonEmptyRows).map(r => r.map(cell => cell.trim())),
+    media: {},
+  };
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Builds a CSV (or TSV) file for a deck. Images are exported as their URLs.
+export const exportDeckToCsv = (deck: FlashcardDeck, delimiter: ',' | '\t' = ','): Blob => {
+  const header = MAPPABLE_FIELDS.map(f => f.value);
+  const lines = [header, ...deck.cards.map(card => header.map(key => card[key] || ''))]
+    .map(cells => delimiter === '\t'
+      ? cells.map(cell => cell.replace(/[\t\r\n]+/g, ' ')).join('\t')
+      : cells.map(escapeCsvCell).join(','));
+  const mimeType = delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: `${mimeType};charset=utf-8` });
+};
+
+// --- Column mapping ---
+
+const FIELD_NAME_HINTS: Record<MappableField, RegExp> = {
+  term: /^(term|word|front|expression|vocab(ulary)?|question|target)$/i,
+  translation: /^(translation|back|meaning|answer|english|native)$/i,
+  definition: /^(definition|description|gloss|explanation)$/i,
+  sentence: /^(sentence|example|example sentence|context)$/i,
+  imageUrl: /^(image|picture|photo|img|image ?url)$/i,
+};
+
+// Guesses a mapping from column names; unknown columns fall back to term -> translation order
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<MappableField>();
+
+  headers.forEach((header, index) => {
+    const match = (Object.keys(FIELD_NAME_HINTS) as MappableField[])
+      .find(field => !used.has(field) && FIELD_NAME_HINTS[field].test(header.trim()));
+    if (match) {
+      mapping[index] = match;
+      used.add(match);
+    }
+  });
+
+  const fallbackOrder: MappableField[] = ['term', 'translation', 'definition', 'sentence'];
+  headers.forEach((_, index) => {
+    if (mapping[index]) return;
+    const next = fallbackOrder.find(field => !used.has(field));
+    mapping[index] = next || 'ignore';
+    if (next) used.add(next);
+  });
+
+  return mapping;
+};
+
+// Removes Anki/HTML markup from a field, keeping the visible text
+const stripMarkup = (value: string) => {
+  const withoutSounds = value.replace(/\[sound:[^\]]+\]/g, '');
+  const withBreaks = withoutSounds.replace(/<br\s*\/?>/gi, ' ').replace(/<\/(div|p)>/gi, ' ');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+// Finds the first image referenced in a field: "<img src=...>" from Anki or a plain URL/filename
+const extractImageSource = (value: string): string | undefined => {
+  const imgMatch = value.match(/<img[^>]+src=["']?([^"'\s>]+)/i);
+  if (imgMatch) return imgMatch[1];
+  const trimmed = value.trim();
+  return trimmed && !/\s/.test(trimmed) ? trimmed : undefined;
+};
+
+export interface PendingImportCard {
+  card: Omit<Flashcard, 'id'>;
+  // Media file (from the Anki package) that still needs uploading for this card's image
+  imageFile?: Blob;
+}
+
+/**
+ * Turns imported rows into cards using the chosen column mapping. Rows without a term are skipped.
+ */
+export const buildCardsFromTable = (table: ImportTable, mapping: ColumnMapping): PendingImportCard[] => {
+  return table.rows.flatMap(row => {
+    const card: Omit<Flashcard, 'id'> = { term: '' };
+    let imageFile: Blob | undefined;
+
+    row.forEach((cell, index) => {
+      const field = mapping[index];
+      if (!field || field === 'ignore' || !cell) return;
+
+      if (field === 'imageUrl') {
+        const source = extractImageSource(cell);
+        if (!source) return;
+        if (table.media[source]) {
+          imageFile = table.media[source];
+        } else if (/^https?:\/\//i.test(source)) {
+          card.imageUrl = source;
+        }
+        return;
+      }
+
+      // Anki decks often put the picture inside the Back field rather than its own field
+      const inlineImage = cell.match(/<img[^>]+src=["']?([^"'\s>]+)/i)?.[1];
+      if (inlineImage && !imageFile && !card.imageUrl) {
+        if (table.media[inlineImage]) imageFile = table.media[inlineImage];
+        else if (/^https?:\/\//i.test(inlineImage)) card.imageUrl = inlineImage;
+      }
+
+      const text = stripMarkup(cell);
+      if (!text) return;
+      // Several columns can map to one field (e.g. two meaning columns); join them
+      card[field] = card[field] ? `${card[field]}; ${text}` : text;
+    });
+
+    return card.term ? [{ card, imageFile }] : [];
+  });
+};
+
+// Cards whose term already exists in the target deck
+export const findImportConflicts = (pending: PendingImportCard[], existingCards: Flashcard[]) => {
+  const existingTerms = new Map(existingCards.map(c => [c.term.trim().toLowerCase(), c]));
+  return pending
+    .map(p => ({ incoming: p, existing: existingTerms.get(p.card.term.trim().toLowerCase()) }))
+    .filter((c): c is { incoming: PendingImportCard; existing: Flashcard } => !!c.existing);
+};
+
+// --- Anki (.apkg) ---
+
+const readSqlRows = (database: Database, sql: string): Record<string, any>[] => {
+  const result = database.exec(sql);
+  if (result.length === 0) return [];
+  const { columns, values } = result[0];
+  return values.map(valueRow => Object.fromEntries(columns.map((col, i) => [col, valueRow[i]])));
+};
+
+/**
+ * Reads the notes of an Anki package. Each note type's fields become columns; when a
+ * package mixes note types, the first type's field names are used as headers.
+ */
+export const parseApkg = async (file: Blob): Promise<ImportTable> => {
+  const [JSZip, SQL] = await Promise.all([loadJsZip(), loadSqlJs()]);
+  const zip = await JSZip.loadAsync(file);
+
+  // Prefer the newest collection format sql.js can open
+  const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!collectionFile) {
+    if (zip.file('collection.anki21b')) {
+      throw new Error('This deck uses the newest Anki format. In Anki, export again with "Support older Anki versions" ticked.');
+    }
+    throw new Error('This file does not look like an Anki deck package.');
+  }
+
+  const database = new SQL.Database(new Uint8Array(await collectionFile.async('uint8array')));
+  try {
+    // Field names come from col.models (schema 11) or the separate fields table (schema 18)
+    const fieldNamesByModel = new Map<string, string[]>();
+    const [col] = readSqlRows(database, 'SELECT models FROM col');
+    const models = col?.models ? JSON.parse(col.models) : {};
+    Object.values(models).forEach((model: any) => {
+      fieldNamesByModel.set(String(model.id), [...model.flds].sort((a: any, b: any) => a.ord - b.ord).map((f: any) => f.name));
+    });
+    if (fieldNamesByModel.size === 0) {
+      readSqlRows(database, 'SELECT ntid, ord, name FROM fields ORDER BY ntid, ord').forEach(f => {
+        const names = fieldNamesByModel.get(String(f.ntid)) || [];
+        names[f.ord] = f.name;
+        fieldNamesByModel.set(String(f.ntid), names);
+      });
+    }
+
+    const notes = readSqlRows(database, 'SELECT mid, flds FROM notes ORDER BY id');
+    if (notes.length === 0) throw new Error('This Anki deck has no notes.');
+
+    const headers = fieldNamesByModel.get(String(notes[0].mid))
+      || String(notes[0].flds).split('\x1f').map((_, i) => `Field ${i + 1}`);
+    const rows = notes.map(note => String(note.flds).split('\x1f'));
+
+    // The "media" entry maps numbered zip entries to their original filenames
+    const media: Record<string, Blob> = {};
+    const mediaIndexFile = zip.file('media');
+    if (mediaIndexFile) {
+      const mediaIndex: Record<string, string> = JSON.parse(await mediaIndexFile.async('string') || '{}');
+      await Promise.all(Object.entries(mediaIndex).map(async ([entryName, fileName]) => {
+        const entry = zip.file(entryName);
+        if (!entry || !/\.(png|jpe?g|gif|webp|svg)$/i.test(fileName)) return;
+        const extension = fileName.split('.').pop()!.toLowerCase();
+        const mimeType = extension === 'svg' ? 'image/svg+xml' : `image/${extension === 'jpg' ? 'jpeg' : extension}`;
+        media[fileName] = new Blob([await entry.async('uint8array')], { type: mimeType });
+      }));
+    }
+
+    return { headers, rows, media };
+  } finally {
+    database.close();
+  }
+};
+
+// Anki's note checksum: first 8 hex digits of the SHA-1 of the sort field
+const ankiChecksum = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ANKI_SCHEMA = `
+  CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+  CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+  CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+  CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+`;
+
+/**
+ * Builds an Anki package (.apkg, collection schema 11) for a deck. Card images are
+ * downloaded and embedded; if an image can't be fetched (e.g. CORS), its URL is kept instead.
+ */
+export const exportDeckToApkg = async (deck: FlashcardDeck): Promise<Blob> => {
+  const [JSZip, SQL] = await Promise.all([loadJsZip(), loadSqlJs()]);
+  const zip = new JSZip();
+  const database = new SQL.Database();
+
+  try {
+    database.run(ANKI_SCHEMA);
+
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = now;
+    const modelId = now + 1;
+    const fieldNames = ['Term', 'Translation', 'Definition', 'Sentence', 'Image'];
+
+    const model = {
+      id: modelId, name: 'Langcampus Flashcard', type: 0, mod: nowSeconds, usn: -1, sortf: 0, did: deckId,
+      tmpls: [{
+        name: 'Card 1', ord: 0, did: null, bqfmt: '', bafmt: '',
+        qfmt: '<div class="term">{{Term}}</div>',
+        afmt: '{{FrontSide}}<hr id=answer>{{Translation}}{{#Definition}}<div class="definition">{{Definition}}</div>{{/Definition}}{{#Sentence}}<div class="sentence">{{Sentence}}</div>{{/Sentence}}{{Image}}',
+      }],
+      flds: fieldNames.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      css: '.card { font-family: arial; font-size: 22px; text-align: center; } .term { font-size: 32px; font-weight: bold; } .definition, .sentence { margin-top: 12px; font-size: 18px; } img { max-width: 100%; }',
+      latexPre: '\\documentclass[12pt]{article}\n\\begin{document}\n', latexPost: '\\end{document}',
+      tags: [], vers: [], req: [[0, 'any', [0]]],
+    };
+    const deckConfig = { id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+      rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 } };
+    const deckEntry = (id: number, name: string) => ({
+      id, name, desc: '', mod: nowSeconds, usn: -1, collapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+      newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+    });
+
+    database.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSeconds, now, now,
+      JSON.stringify({ nextPos: deck.cards.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: String(modelId), collapseTime: 1200 }),
+      JSON.stringify({ [modelId]: model }),
+      JSON.stringify({ 1: deckEntry(1, 'Default'), [deckId]: deckEntry(deckId, deck.name) }),
+      JSON.stringify({ 1: deckConfig }),
+      '{}',
+    ]);
+
+    const mediaIndex: Record<string, string> = {};
+    for (const [index, card] of deck.cards.entries()) {
+      let imageField = '';
+      if (card.imageUrl) {
+        try {
+          const response = await fetch(card.imageUrl);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const imageBlob = await response.blob();
+          const extension = (imageBlob.type.split('/')[1] || 'jpg').split('+')[0];
+          const fileName = `langcampus_${deck.id}_${index}.${extension}`;
+          const mediaEntry = String(Object.keys(mediaIndex).length);
+          zip.file(mediaEntry, imageBlob);
+          mediaIndex[mediaEntry] = fileName;
+          imageField = `<img src="${fileName}">`;
+        } catch (error) {
+          console.warn(`Could not embed image for "${card.term}", linking it instead:`, error);
+          imageField = `<img src="${escapeHtml(card.imageUrl)}">`;
+        }
+      }
+
+      const fields = [card.term, card.translation || '', card.definition || '', card.sentence || ''].map(escapeHtml);
+      fields.push(imageField);
+      const noteId = now + index;
+      database.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, \'\', ?, ?, ?, 0, \'\')', [
+        noteId, `lc-${deck.id}-${card.id}`, modelId, nowSeconds, fields.join('\x1f'), fields[0], await ankiChecksum(card.term),
+      ]);
+      database.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        noteId, noteId, deckId, nowSeconds, index + 1,
+      ]);
+    }
+
+    zip.file('collection.anki2', database.export());
+    zip.file('media', JSON.stringify(mediaIndex));
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/octet-stream' });
+  } finally {
+    database.close();
+  }
+};
+
+// Triggers a browser download for a generated file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Makes a deck name safe to use as a file name
+export const toExportFileName = (deckName: string, extension: string) =>
+  `${deckName.trim().replace(/[^\p{L}\p{N}_-]+/gu, '_') || 'deck'}.${extension}`;
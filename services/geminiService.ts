@@ -1,4 +1,10 @@
-import { Message, Partner, QuizQuestion, UserProfileData, TeachMeCache, YouTubeVideo, FlashcardSettings, UsageKey, SubscriptionStatus } from '../types';
+import { ChatSummary, Message, Partner, QuizQuestion, UserProfileData, TeachMeCache, YouTubeVideo, FlashcardSettings, UsageKey, SubscriptionStatus, ClozePassage, ConjugationTable, ConjugationVerbSet, ValidatedQuizResult, PlacementQuestion, TeachMeType, LessonTopicRef, MockExamSectionKind, LiveQuizQuestion } from '../types';
+import { buildClozePassage } from './clozeService';
+import { getConjugationTenses, toCanonicalTenses } from './conjugationService';
+import { auth } from '../firebaseConfig.ts';
+import { MISTAKE_CATEGORIES, toMistakeCategory, toCorrectionEdits } from './mistakeJournalService';
+import { gradeQuestionLocally, getSpeakingScore } from './quizGradingService';
+import { Schema, SchemaResult, partnersSchema, quizGradesSchema, wordListSchema, placementQuestionsSchema, quizExplanationsSchema, mockExamSchema, AiMockExam, liveQuizQuestionsSchema, chatSummarySchema, AiChatSummary, chatReplySchema, AiChatReply, clozePassageSchema, conjugationVerbSetSchema, exampleSentenceSchema, recordSchemaFailure } from './aiSchemaService';
 
 // Make sure this is the correct URL for your deployed Cloud Function.
 //const PROXY_URL = "https://us-central1-langcampus-exchange.cloudfunctions.net/geminiProxy"; // Replace if yours is different
@@ -9,6 +15,10 @@ const PROXY_URL =
   process.env.NODE_ENV === 'development'
     ? "/geminiProxy"
     : "https://us-central1-langcampus-exchange.cloudfunctions.net/geminiProxy";
+const STREAM_PROXY_URL =
+  process.env.NODE_ENV === 'development'
+    ? "/geminiStreamProxy"
+    : "https://us-central1-langcampus-exchange.cloudfunctions.net/geminiStreamProxy";
 const TTS_PROXY_URL =
    process.env.NODE_ENV === 'development'
     ? "/googleCloudTTS"
@@ -29,6 +39,14 @@ const IMAGE_SEARCH_PROXY_URL =
   process.env.NODE_ENV === 'development'
     ? "/imageSearchProxy"
     : "https://us-central1-langcampus-exchange.cloudfunctions.net/imageSearchProxy";
+const IMAGE_CACHE_LOOKUP_URL =
+  process.env.NODE_ENV === 'development'
+    ? "/imageCacheLookup"
+    : "https://us-central1-langcampus-exchange.cloudfunctions.net/imageCacheLookup";
+const CONJUGATION_TABLE_URL =
+  process.env.NODE_ENV === 'development'
+    ? "/conjugationTable"
+    : "https://us-central1-langcampus-exchange.cloudfunctions.net/conjugationTable";
 
 /**
  * A helper function to safely parse JSON from the AI,
@@ -47,6 +65,102 @@ const cleanAndParseJson = (text: string) => {
   }
 };
 
+/**
+ * Reads a string field out of a JSON object that is still streaming in, so its value
+ * can be shown before the closing quote arrives. Escapes cut off mid-way are dropped
+ * until the rest arrives.
+ * @param partialJson The response so far (may still have a markdown fence).
+ * @param field The top-level string field to read.
+ * @returns The field's value so far, or null if the field hasn't started yet.
+ */
+const readPartialJsonString = (partialJson: string, field: string): string | null => {
+  const start = partialJson.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return null;
+
+  let value = '';
+  for (let i = start.index + start[0].length; i < partialJson.length; i++) {
+    const char = partialJson[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    const escape = partialJson[i + 1];
+    if (escape === undefined) break;
+    if (escape === 'u') {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+    i++;
+  }
+  return value;
+};
+
+// Parses the AI's text and checks it against a schema, reporting JSON syntax errors as schema errors
+const parseWithSchema = <T>(rawText: string, schema: Schema<T>): SchemaResult<T> => {
+  try {
+    return schema.check(cleanAndParseJson(rawText), '$');
+  } catch (error) {
+    return { errors: ['$: the response is not valid JSON'] };
+  }
+};
+
+/**
+ * Validates a structured response the AI has already given against a schema. If it
+ * doesn't validate, makes one repair call that shows the model its own output and the
+ * exact problems, and records each failure.
+ * @param prompt The prompt the response answers, which must ask for JSON.
+ * @param rawText The response text.
+ * @param schema The schema the response must match.
+ * @param model The Gemini model that gave the response.
+ * @returns The validated value. Throws if the repaired response still doesn't validate.
+ */
+const validateWithRepair = async <T>(prompt: string, rawText: string, schema: Schema<T>, model: string): Promise<T> => {
+  const firstAttempt = parseWithSchema(rawText, schema);
+  if (firstAttempt.errors.length === 0) return firstAttempt.value!;
+
+  console.warn(`AI response failed the ${schema.name} schema, asking for a repair:`, firstAttempt.errors);
+  recordSchemaFailure(schema.name, firstAttempt.errors, 'initial', model);
+
+  const repairPrompt = `
+    You were given the instructions below, but your JSON response did not have the required format.
+
+    **Problems found** (paths start at $, the top-level value):
+    ${firstAttempt.errors.slice(0, 20).map(error => `- ${error}`).join('\n    ')}
+
+    **Your previous response:**
+    ${rawText}
+
+    **Original instructions:**
+    ${prompt}
+
+    Return ONLY the corrected JSON. Fix the problems listed above and keep everything else as it was.
+  `;
+  const repairData = await callGeminiProxy(repairPrompt, model);
+  const repairAttempt = parseWithSchema(repairData.candidates[0].content.parts[0].text, schema);
+  if (repairAttempt.errors.length === 0) return repairAttempt.value!;
+
+  recordSchemaFailure(schema.name, repairAttempt.errors, 'repair', model);
+  throw new Error(`AI response failed the ${schema.name} schema after a repair attempt: ${repairAttempt.errors.slice(0, 3).join('; ')}`);
+};
+
+/**
+ * Calls the AI for a structured response and validates it against a schema, with one
+ * repair call if it doesn't validate (see validateWithRepair).
+ * @param prompt The prompt, which must ask for JSON.
+ * @param schema The schema the response must match.
+ * @param model The Gemini model to use.
+ * @returns The validated value. Throws if the repaired response still doesn't validate.
+ */
+const callGeminiWithSchema = async <T>(prompt: string, schema: Schema<T>, model: string = "gemini-2.5-flash-lite"): Promise<T> => {
+  const data = await callGeminiProxy(prompt, model);
+  return validateWithRepair(prompt, data.candidates[0].content.parts[0].text, schema, model);
+};
+
 export const searchYoutubeVideos = async (topic: string, languageName: string): Promise<YouTubeVideo[]> => {
   try {
     const response = await fetch(YOUTUBE_PROXY_URL, {
@@ -119,6 +233,65 @@ export const callGeminiProxy = async (prompt: string, model: string = "gemini-2.
   }
 };
 
+/**
+ * Streaming variant of callGeminiProxy, for responses that are shown as they're written.
+ * @param prompt The text prompt to send to the Gemini API.
+ * @param model The Gemini model to use.
+ * @param onText Called with the whole text received so far, each time more arrives.
+ * @returns The complete response text. Throws if the stream fails, yields no text, or
+ * ends for any reason other than the model finishing (a cut-off stream, a safety stop).
+ */
+export const callGeminiProxyStream = async (prompt: string, model: string, onText: (textSoFar: string) => void): Promise<string> => {
+  const response = await fetch(STREAM_PROXY_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ prompt, model }),
+  });
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    console.error("Error from streaming proxy function:", errorText);
+    throw new Error(`Streaming proxy request failed: ${errorText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let finishReason: string | null = null; // Only the last chunk of a complete response has one
+
+  const handleEvent = (event: string) => {
+    const data = event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+    if (!data) return;
+    const candidate = JSON.parse(data).candidates?.[0];
+    if (candidate?.finishReason) finishReason = candidate.finishReason;
+    const chunkText = (candidate?.content?.parts || []).map((part: { text?: string }) => part.text || '').join('');
+    if (chunkText) {
+      text += chunkText;
+      onText(text);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Server-sent events are separated by a blank line; keep any partial event for later
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+    events.forEach(handleEvent);
+  }
+  // The last event may not be followed by a blank line
+  buffer += decoder.decode();
+  buffer.split(/\r?\n\r?\n/).forEach(handleEvent);
+
+  if (!text) throw new Error("Streaming proxy returned no text.");
+  if (finishReason !== 'STOP') throw new Error(`Streaming proxy response did not finish (finish reason: ${finishReason ?? 'none'}).`);
+  return text;
+};
+
 export const tagTextForTTS = async (text: string, primaryLanguageCode: string, foreignVoiceName: string): Promise<string> => { 
     const prompt = `
       Analyze the following text. Your task is to prepare it for multilingual Text-to-Speech (TTS) synthesis.
@@ -195,39 +368,11 @@ export const generatePartners = async (nativeLanguage: string, targetLanguage: s
     Return ONLY the JSON array.`;
 
   try {
-    const data = await callGeminiProxy(prompt);
-    const rawText = data.candidates[0].content.parts[0].text;
-
-    // --- DEBUG LOGGING RAW AI RESPONSE ---
-    console.log("--- DEBUG: Raw AI Partner Response ---");
-    console.log(rawText);
-    console.log("--- END RAW RESPONSE ---");
-
-    // Use our new helper function to safely parse the response
-    const partnersData = cleanAndParseJson(rawText);
-
-    if (!Array.isArray(partnersData)) {
-      console.error("AI did not return a valid array for partners:", partnersData);
-      return []; 
-    }
-
-    const finalPartners = partnersData
-      .filter((p: any) => {
-        // Function to strip ** and lowercase
-        const cleanedGender = p.gender?.replace(/\*\*/g, '').toLowerCase();
-
-        return (
-          p && 
-          p.name && 
-          p.nativeLanguage && 
-          p.learningLanguage && 
-          Array.isArray(p.interests) && 
-          (cleanedGender === 'male' || cleanedGender === 'female') 
-        );
-      })
-      .map((p: any) => {
-        const cleanedGender = p.gender?.replace(/\*\*/g, '').toLowerCase();
+    // The schema also strips the ** markup the model sometimes copies into the genders
+    const partnersData = await callGeminiWithSchema(prompt, partnersSchema);
 
+    const finalPartners: Partner[] = partnersData
+      .map(p => {
         const options = new URLSearchParams({
             seed: p.name // The seed is still based on the name for consistency
         });
@@ -239,7 +384,7 @@ export const generatePartners = async (nativeLanguage: string, targetLanguage: s
         options.append('skinColor', skinColor);
         options.append('hairColor', hairColor);
 
-        if (cleanedGender === 'female') {
+        if (p.gender === 'female') {
             options.append('facialHairProbability', '0'); // No beards for females
             options.append('earringsProbability', '80'); // High chance of earrings
             options.append('hair', 'pixie,dannyPhantom,full'); // Feminine hairstyles
@@ -258,7 +403,6 @@ export const generatePartners = async (nativeLanguage: string, targetLanguage: s
         return {
           ...p,
           avatar: avatarUrl, // Use the new fully customized URL
-          gender: cleanedGender === 'female' ? 'female' : 'male',
         };
       });
 
@@ -275,13 +419,27 @@ export const generatePartners = async (nativeLanguage: string, targetLanguage: s
   }
 };
 
-export const getChatResponse = async (messages: Message[], partner: Partner, corrections: boolean, userProfile: UserProfileData, teachMeCache: TeachMeCache | null, isGroupChat: boolean): Promise<Message> => {
+// Most messages a chat prompt quotes word for word, in case the chat hasn't been summarized
+const MAX_HISTORY_MESSAGES = 60;
+// Used for chat replies whether or not they're streamed
+const CHAT_MODEL = "gemini-2.5-flash-lite";
+
+/**
+ * Gets the partner's reply to the conversation.
+ * @param onTextChunk Optional. When given, the reply is streamed and this is called with
+ * its text so far as it arrives; correction and translation are only parsed once the
+ * stream has finished.
+ * @param summary Optional. The chat's running summary; only the messages after it are
+ * quoted in the prompt.
+ */
+export const getChatResponse = async (messages: Message[], partner: Partner, corrections: boolean, userProfile: UserProfileData, teachMeCache: TeachMeCache | null, isGroupChat: boolean, onTextChunk?: (partialText: string) => void, summary?: ChatSummary | null): Promise<Message> => {
   if (!partner || !partner.name) {
     console.error("getChatResponse called with an invalid partner object.");
     return { sender: 'ai', text: "Sorry, there's a problem with my memory. Please try starting a new chat." };
   }
 
-  const conversationHistory = messages.map(m => `${m.sender === 'user' ? 'Me' : partner.name}: ${m.text}`).join('\n');
+  const recentMessages = messages.slice(summary?.summarizedCount ?? 0).slice(-MAX_HISTORY_MESSAGES);
+  const conversationHistory = recentMessages.map(m => `${m.sender === 'user' ? 'Me' : partner.name}: ${m.text}`).join('\n');
   const userLastMessage = messages[messages.length - 1].text;
   const lastUserMessage = messages.findLast(m => m.sender === 'user');
   const userToAddress = lastUserMessage?.senderName || userProfile?.name || 'the user';
@@ -315,6 +473,14 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
 
     console.log("teach me topic info: " + teachMeTopicInfo);
 
+  const summaryContext = summary
+    ? `
+    **Earlier in this conversation (summary):**
+    ${summary.text}
+    ${summary.keyFacts.length > 0 ? `\n    **What you know about the user so far:**\n    ${summary.keyFacts.map(fact => `- ${fact}`).join('\n    ')}` : ''}
+    `
+    : "";
+
   const prompt = `
     **Background Context:** You are an AI language exchange partner within a web application called "Langcampus Exchange". Your purpose is to help users practice their target language in a friendly and supportive way. Always be encouraging and adapt your conversation to the user's details.
 
@@ -333,8 +499,8 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
     ${interactionContext}
     
     ${teachMeTopicInfo} 
-
-    Conversation History:
+    ${summaryContext}
+    Conversation History${summary ? ' (most recent messages)' : ''}:
     ${conversationHistory}
 
     My last message to you was: "${userLastMessage}"
@@ -360,6 +526,19 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
 
     **Bad Correction Example (what to avoid):**
     "correction": "Yo soy feliz."
+
+    Whenever "correction" is not empty, also add a "mistake" object to your JSON response:
+    - "corrected": ONLY the user's full corrected sentence, with no explanation (e.g. "Yo soy feliz.").
+    - "category": The main kind of error, exactly one of: ${MISTAKE_CATEGORIES.map(c => `"${c}"`).join(', ')}.
+    - "edits": Every change you made, in sentence order. Each edit is an object with:
+      - "original": The wrong words, copied EXACTLY from the user's message. Never empty: to add a missing word, include the word next to it.
+      - "replacement": What those words should be ("" to delete them).
+      - "category": The kind of error, from the same list as above.
+      - "explanation": One short sentence in ${partner.learningLanguage} explaining the change.
+    When "correction" is empty, "mistake" must be null.
+
+    **Mistake Example:**
+    "mistake": { "corrected": "Yo soy feliz.", "category": "verb tense", "edits": [{ "original": "ser", "replacement": "soy", "category": "verb tense", "explanation": "Conjugate 'ser' to match 'yo'." }] }
     ` : ''}
 
     **IMPORTANT:** Your entire response must be a single, valid JSON object. Do not include any text outside of the JSON object.
@@ -393,14 +572,24 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
   `;
 
   try {
-    const data = await callGeminiProxy(prompt);
-    const rawText = data.candidates[0].content.parts[0].text;
+    let rawText: string;
+    if (onTextChunk) {
+      rawText = await callGeminiProxyStream(prompt, CHAT_MODEL, textSoFar => {
+        // The reply is a JSON object, so only its "text" field is shown while it streams;
+        // anything that isn't JSON is shown as it is
+        const partialText = /^\s*(```json\s*)?\{/.test(textSoFar) ? readPartialJsonString(textSoFar, 'text') : textSoFar;
+        if (partialText) onTextChunk(partialText);
+      });
+    } else {
+      const data = await callGeminiProxy(prompt, CHAT_MODEL);
+      rawText = data.candidates[0].content.parts[0].text;
+    }
     
-    let aiResponse;
+    let aiResponse: AiChatReply;
     try {
-      aiResponse = cleanAndParseJson(rawText);
+      aiResponse = await validateWithRepair(prompt, rawText, chatReplySchema, CHAT_MODEL);
     } catch (e) {
-      console.warn("AI returned a non-JSON response. Treating as plain text.", rawText);
+      console.warn("AI reply failed the schema even after a repair. Treating as plain text.", rawText);
       aiResponse = { text: rawText, correction: "", translation: "" };
     }
 
@@ -411,6 +600,15 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
 
     if (aiResponse.correction) {
       responseMessage.correction = aiResponse.correction;
+      if (typeof aiResponse.mistake?.corrected === 'string' && aiResponse.mistake.corrected.trim()) {
+        const original = userLastMessage.replace(/^@bot\s*/i, '').trim();
+        responseMessage.mistake = {
+          original,
+          corrected: aiResponse.mistake.corrected.trim(),
+          category: toMistakeCategory(aiResponse.mistake.category),
+          edits: toCorrectionEdits(aiResponse.mistake.edits, original),
+        };
+      }
     }
     if (aiResponse.translation) {
       responseMessage.translation = aiResponse.translation;
@@ -424,7 +622,43 @@ export const getChatResponse = async (messages: Message[], partner: Partner, cor
   }
 };
 
-export const getContent = async (topic: string, type: 'Grammar' | 'Vocabulary', targetLanguage: string, nativeLanguage: string): Promise<string> => {
+/**
+ * Condenses the older part of a chat into a running summary.
+ * @param messages The messages to fold in, oldest first.
+ * @param previousSummary The summary of everything before them, if any.
+ * @param partner The chat partner, whose point of view the summary is written from.
+ * @returns The new summary and the key facts about the user. Throws if the AI fails.
+ */
+export const summarizeConversation = async (messages: Message[], previousSummary: ChatSummary | null, partner: Partner): Promise<AiChatSummary> => {
+  const transcript = messages.map(m => `${m.sender === 'user' ? 'User' : partner.name}: ${m.text}`).join('\n');
+  const prompt = `
+    You are keeping notes for ${partner.name}, a language exchange partner, about a long chat with a learner.
+    ${previousSummary ? `
+    **Notes so far:**
+    ${previousSummary.text}
+
+    **Key facts so far:**
+    ${previousSummary.keyFacts.map(fact => `- ${fact}`).join('\n    ') || '(none)'}
+    ` : ''}
+    **New messages to add to the notes:**
+    ${transcript}
+
+    **Your Task:**
+    1. "summary": Rewrite the notes to cover ${previousSummary ? 'the notes so far and the new messages' : 'these messages'} in at most 150 words, in English. Keep the topics discussed, anything ${partner.name} promised or asked that is still open, and the learner's recurring mistakes.
+    2. "keyFacts": Up to 12 short facts about the learner worth remembering (name, plans, interests, people and places they mentioned, things they find hard). Keep the facts so far unless the new messages contradict them.
+
+    Respond ONLY with a JSON object like:
+    { "summary": "...", "keyFacts": ["...", "..."] }
+  `;
+  return await callGeminiWithSchema(prompt, chatSummarySchema);
+};
+
+/**
+ * Generates a Markdown lesson on a topic.
+ * @param onTextChunk Optional. When given, the lesson is streamed and this is called with
+ * the Markdown so far as it arrives.
+ */
+export const getContent = async (topic: string, type: 'Grammar' | 'Vocabulary', targetLanguage: string, nativeLanguage: string, onTextChunk?: (partialText: string) => void): Promise<string> => {
   const prompt = `
     You are an expert language teacher. Your student's native language is ${nativeLanguage}.
     Your task is to provide a clear and comprehensive explanation for a language learner about a topic in their TARGET language, which is ${targetLanguage}.
@@ -458,6 +692,9 @@ export const getContent = async (topic: string, type: 'Grammar' | 'Vocabulary',
     // FIX: Add a client-side log to confirm the code reaches the network call point
     console.log(`[GEMINI SERVICE] Attempting network call for: ${topic} (${type} - ${targetLanguage})`);
     
+    if (onTextChunk) {
+      return await callGeminiProxyStream(prompt, "gemini-2.5-flash", onTextChunk);
+    }
     // CRITICAL FIX: Pass the model name explicitly to the helper function
     const data = await callGeminiProxy(prompt, "gemini-2.5-flash"); // Use Pro for complex lesson generation
     // The response is expected to be Markdown text directly
@@ -493,86 +730,77 @@ export const comparePronunciation = async (originalText: string, userTranscripti
   }
 };
 
-export const generateQuiz = async (topic: string, type: 'Grammar' | 'Vocabulary', targetLanguage: string, nativeLanguage: string, level: number): Promise<QuizQuestion[]> => {
-  const questionLanguage = level === 1 ? nativeLanguage : targetLanguage;
-  
+/**
+ * Writes a mock exam paper covering several lessons of one level, one part per section.
+ * @param topics The lessons the exam should cover.
+ * @param targetLanguage Target language name.
+ * @param nativeLanguage The learner's native language name, used for instructions.
+ * @param level The exam level (1-5).
+ * @param cefrBand The CEFR band the level corresponds to (e.g., "B1").
+ * @param sizes How many questions each section needs.
+ * @returns The exam's reading passage and questions per section. Throws if the response
+ * can't be validated.
+ */
+export const generateMockExam = async (
+  topics: string[],
+  targetLanguage: string,
+  nativeLanguage: string,
+  level: number,
+  cefrBand: string,
+  sizes: Record<MockExamSectionKind, number>
+): Promise<AiMockExam> => {
   const prompt = `
-    You are a language teacher creating a quiz for a student whose native language is ${nativeLanguage}.
-    The student is learning ${targetLanguage}.
-    Your task is to generate a varied, 12-question quiz based on the provided topic.
-
-    Topic: "${topic}"
-    Quiz Level: ${level}
-    Number of Questions: 12
-
-    **Question Type Distribution:**
-    - 6 questions (50%) must be 'multiple-choice'.
-    - 2 questions (~20%) must be 'matching'.
-    - 2 questions (~20%) must be 'fill-in-the-blank'.
-    - 1 question (~10%) must be a 'speaking' exercise.
-    - 1 question (~10%) must be a 'listening' exercise.
-
-    **JSON Response Instructions:**
-    - Your entire response MUST be a single, valid JSON array of 12 question objects.
-    - Do NOT include any text, greetings, titles, or explanations outside of the JSON array.
-    - Each object must have a "type" property corresponding to the question type.
-
-    **JSON Object Formats:**
-    1.  **Multiple Choice:**
-        {
-          "type": "multiple-choice",
-          "question": "The question text in ${questionLanguage}",
-          "options": ["option1", "option2", "option3", "option4"], // Options in ${targetLanguage}
-          "correctAnswer": "the correct option text"
-        }
-    2.  **Matching:**
-        {
-          "type": "matching",
-          "question": "Match the terms with their definitions.", // In ${questionLanguage}
-          "pairs": [
-            { "term": "Term A", "definition": "Definition A" }, // Both in ${targetLanguage}
-            { "term": "Term B", "definition": "Definition B" },
-            { "term": "Term C", "definition": "Definition C" },
-            { "term": "Term D", "definition": "Definition D" }
-          ]
-        }
-    3.  **Fill in the Blank:**
-        {
-          "type": "fill-in-the-blank",
-          "question": "Sentence with a ___ blank.", // In ${targetLanguage}
-          "correctAnswer": "word" // In ${targetLanguage}
-        }
-    4.  **Speaking:**
-        {
-          "type": "speaking",
-          "question": "Please read the following aloud.", // In ${questionLanguage}
-          "sentenceToRead": " A short, relevant word, letter, or phrase from the topic in ${targetLanguage}."
-        } 
-    5.  **Listening:**
-        {
-          "type": "listening",
-          "question": "Listen and type what you hear.", // In ${questionLanguage}
-          "correctAnswer": "The sentence to be synthesized and transcribed.", // In ${targetLanguage}
-          "sentenceToRead": "A relevant and simple sentence from the topic in ${targetLanguage}."
-        }
-
-    Now, generate the JSON array for the quiz about "${topic}".
+    You are an examiner writing a ${cefrBand} mock exam in ${targetLanguage} for a ${nativeLanguage} speaker, in the style of official exams such as the DELE, JLPT or TOPIK.
+    Cover these lessons across the paper: ${topics.map(topic => `"${topic}"`).join(', ')}.
+    Every item must be pitched exactly at ${cefrBand}: a learner below ${cefrBand} should find it hard, a learner at ${cefrBand} should manage it.
+    Instructions ("question" fields) are in ${nativeLanguage}; everything the learner reads, hears or says is in ${targetLanguage}.
+
+    Return ONLY a JSON object with these fields:
+    - "readingPassage": a ${targetLanguage} text of ${level <= 2 ? '80-120' : level <= 4 ? '150-220' : '250-320'} words (a notice, email, article or story) on one of the lessons' themes.
+    - "reading": exactly ${sizes.reading} "multiple-choice" questions about the passage (gist, details, vocabulary in context). Options in ${targetLanguage}; "correctAnswer" copied exactly from "options".
+    - "listening": exactly ${sizes.listening} "listening" questions. "sentenceToRead" and "correctAnswer" are the same ${targetLanguage} sentence, which the learner hears and must write down.
+    - "grammar": exactly ${sizes.grammar} questions mixing "multiple-choice", "fill-in-the-blank", "error-correction" and "ordering", testing the lessons' grammar and vocabulary.
+    - "speaking": exactly ${sizes.speaking} "speaking" questions; "sentenceToRead" is a ${targetLanguage} sentence the learner reads aloud.
+
+    Question object formats:
+    { "type": "multiple-choice", "question": "...", "options": ["...", "...", "...", "..."], "correctAnswer": "..." }
+    { "type": "fill-in-the-blank", "question": "Sentence with a ___ blank.", "correctAnswer": "word" }
+    { "type": "error-correction", "question": "...", "sentenceWithError": "Sentence with exactly ONE mistake.", "correctAnswer": "The same sentence with only that mistake fixed." }
+    { "type": "ordering", "question": "...", "tokens": ["Words", "in", "the", "correct", "order"], "correctAnswer": "Words in the correct order" }
+    { "type": "listening", "question": "...", "sentenceToRead": "...", "correctAnswer": "..." }
+    { "type": "speaking", "question": "...", "sentenceToRead": "..." }
   `;
+  return await callGeminiWithSchema(prompt, mockExamSchema(sizes), "gemini-2.5-flash");
+};
 
-  try {
-    const data = await callGeminiProxy(prompt, "gemini-2.5-flash");
-    const rawText = data.candidates[0].content.parts[0].text;
-    const quizData = cleanAndParseJson(rawText);
+/**
+ * Writes the questions for a live group quiz: short multiple-choice questions that can be
+ * read and answered against a timer.
+ * @param topic The group's lesson topic.
+ * @param targetLanguage Target language name.
+ * @param level The lesson level.
+ * @param count How many questions to write.
+ * @returns The questions. Throws if the response can't be validated.
+ */
+export const generateLiveQuizQuestions = async (
+  topic: string,
+  targetLanguage: string,
+  level: number,
+  count: number
+): Promise<LiveQuizQuestion[]> => {
+  const prompt = `
+    You are hosting a fast-paced quiz game for a group of ${targetLanguage} learners at level ${level} (1-5) who just studied "${topic}".
+    The players speak different native languages, so write everything in simple ${targetLanguage}.
 
-    if (!Array.isArray(quizData) || quizData.length === 0) {
-      throw new Error("AI returned an empty or invalid array for the quiz.");
-    }
+    Write exactly ${count} "multiple-choice" questions on the topic, easiest first.
+    - Each question must be readable and answerable in about 15 seconds: one short sentence, no long passages.
+    - "options" has exactly 4 short answers, only one of them correct, with plausible wrong answers that catch common mistakes.
+    - "correctAnswer" is copied exactly from "options".
 
-    return quizData;
-  } catch (error) {
-    console.error("Error generating quiz:", error);
-    throw new Error("Failed to generate quiz. The AI may have returned an invalid format.");
-  }
+    Respond ONLY with a JSON array of objects like:
+    { "type": "multiple-choice", "question": "...", "options": ["...", "...", "...", "..."], "correctAnswer": "..." }
+  `;
+  return await callGeminiWithSchema(prompt, liveQuizQuestionsSchema(count), "gemini-2.5-flash");
 };
 
 export const validateQuizAnswers = async (
@@ -581,27 +809,44 @@ export const validateQuizAnswers = async (
   targetLanguage: string,
   nativeLanguage: string
 ): Promise<ValidatedQuizResult[]> => {
+  // Settle everything that can be checked exactly; only the rest goes to the AI
+  const localGrades = questions.map((q, index) => gradeQuestionLocally(q, userAnswers[index], targetLanguage));
+  const results: ValidatedQuizResult[] = questions.map((q, index) => {
+    const pronunciationScore = getSpeakingScore(q, userAnswers[index]);
+    return {
+      userAnswer: userAnswers[index],
+      isCorrect: localGrades[index] === true,
+      ...(pronunciationScore !== null ? { pronunciationScore } : {}),
+    };
+  });
+  const ambiguousIndexes = localGrades.flatMap((grade, index) => grade === null ? [index] : []);
+  if (ambiguousIndexes.length === 0) {
+    return results;
+  }
+
   const prompt = `
     You are the **Master Grader AI**, an absolute expert in ${targetLanguage} semantics, grammar, and pragmatics. Your job is to evaluate student answers with a **focus on conceptual understanding and real-world communication**, not just strict matching to the answer key. The user is a ${nativeLanguage} speaker learning ${targetLanguage}.
 
+    These answers did NOT match the answer key exactly (case, accents and punctuation were already ignored). Decide whether each one is still acceptable.
+
     **Primary Goal:** Only mark an answer as FALSE if the student's answer demonstrates a clear misunderstanding of the concept or rule being tested. **Be generous, flexible, and assume the most positive intent.**
 
     **Detailed Grading Instructions (for the Master Grader AI):**
     
-    1.  **Multiple Choice & Fill-in-the-Blank:**
-        - **Allow** for minor spelling or punctuation errors, capitalization differences, or slight variations in phrasing if the **meaning is unambiguously correct and grammatically plausible**.
+    1.  **Fill-in-the-Blank:**
+        - **Allow** for minor spelling errors or slight variations in phrasing if the **meaning is unambiguously correct and grammatically plausible**.
         - **Allow** synonyms or grammatically equivalent phrases in place of the 'correctAnswer' if they are perfectly natural in ${targetLanguage}.
         - For numbers, accept both digit form (e.g., "3") and word form (e.g., "three").
 
-    2.  **Matching Questions (Crucial for Nuance):**
-        - For matching scenarios (e.g., matching a situation to a phrase or a term to a definition), check if the user's selected match is **conceptually valid** or **commonly used** in that context, even if it differs from the key's designated pairing.
-        - If the user's chosen pairing is reasonable and semantically acceptable for both the question's term and the selected definition, mark the pairing as **correct**. The goal is to check knowledge, not arbitrary pairings.
+    2.  **Ordering Questions:** The user's answer is the tokens in the order they arranged them. Mark as **correct** if the order they chose is also grammatical and natural with the same meaning as "correctAnswer".
+
+    3.  **Error Correction & Translation Questions (free text):**
+        - For error correction, mark as **correct** if the user fixed the mistake in "sentenceWithError" without introducing a new error. Other valid fixes count too.
+        - For translation, "correctAnswer" is only a model answer. Mark as **correct** if the user's translation conveys the meaning of "sourceSentence" and is grammatical in ${targetLanguage}, even with different word choice. Ignore minor spelling slips.
 
-    3.  **Listening & Speaking Questions:**
-        - For listening questions, mark as **correct** if the user's transcription is semantically equivalent, even if words are misspelled or minor function words (e.g., articles, prepositions) are missed or swapped.
-        - For speaking questions (which only report "completed"), analyze the provided correct sentence and check for any conceptual misunderstanding based on the topic. The overall mark should default to **TRUE** unless the sentence is highly unusual.
+    4.  **Listening Questions:** Mark as **correct** if the user's transcription is semantically equivalent, even if words are misspelled or minor function words (e.g., articles, prepositions) are missed or swapped.
 
-    4.  **Output Format:** Return a JSON array of objects, one for each question.
+    5.  **Output Format:** Return a JSON array of objects, one for each question, in the same order.
 
     **CRITICAL:** Your entire response must be ONLY the JSON array. Do not include any other text or explanations.
 
@@ -612,39 +857,73 @@ export const validateQuizAnswers = async (
     }
 
     **Quiz Data to Grade:**
-    ${JSON.stringify({ questions, userAnswers }, null, 2)}
+    ${JSON.stringify({
+      questions: ambiguousIndexes.map(index => questions[index]),
+      userAnswers: ambiguousIndexes.map(index => userAnswers[index]),
+    }, null, 2)}
   `;
 
   try {
-    const data = await callGeminiProxy(prompt, "gemini-2.5-flash");
-    const rawText = data.candidates[0].content.parts[0].text;
-    const validatedResults = cleanAndParseJson(rawText);
+    const validatedResults = await callGeminiWithSchema(prompt, quizGradesSchema(ambiguousIndexes.length), "gemini-2.5-flash");
+    ambiguousIndexes.forEach((questionIndex, i) => {
+      results[questionIndex].isCorrect = validatedResults[i].isCorrect;
+    });
+  } catch (error) {
+    // The ambiguous answers already failed the lenient local match, so they stay incorrect
+    console.error("Error validating quiz answers:", error);
+  }
+  return results;
+};
 
-    if (!Array.isArray(validatedResults) || validatedResults.length !== questions.length) {
-      throw new Error("AI returned an invalid format for quiz validation.");
-    }
+/**
+ * Adds an explanation in the learner's native language to every graded answer, and
+ * links each one to the lesson that teaches the concept it tested.
+ * @param questions The quiz questions.
+ * @param results The graded answers from validateQuizAnswers, in the same order.
+ * @param lessonTopics Lessons the AI may link to (usually the quiz's track, near its level).
+ * @param targetLanguage Target language name.
+ * @param nativeLanguage The learner's native language name.
+ * @returns The results with `explanation` and `relatedTopic` set, or the results
+ * unchanged if the explanations couldn't be generated.
+ */
+export const explainQuizResults = async (
+  questions: QuizQuestion[],
+  results: ValidatedQuizResult[],
+  lessonTopics: LessonTopicRef[],
+  targetLanguage: string,
+  nativeLanguage: string
+): Promise<ValidatedQuizResult[]> => {
+  const prompt = `
+    You are a patient ${targetLanguage} teacher going over a graded quiz with a student whose native language is ${nativeLanguage}.
+    For each question below, write a short explanation (2-3 sentences) in ${nativeLanguage}:
+    - If "isCorrect" is true: explain why the right answer is right.
+    - If "isCorrect" is false: explain why the right answer is right, and name the concept the student's answer shows they misunderstood. Skipped answers are empty.
+    Quote ${targetLanguage} words and sentences as they are; do not translate them away.
+
+    Then pick the lesson from this numbered list that best teaches the concept the question tested, as "topicNumber". Use null if none fits.
+    ${lessonTopics.length > 0 ? lessonTopics.map((topic, index) => `${index + 1}. ${topic.title}`).join('\n    ') : '(No lessons available: always use null.)'}
+
+    Return ONLY a JSON array with one object per question, in the same order:
+    { "explanation": "...", "topicNumber": 3 }
+
+    **Graded Quiz:**
+    ${JSON.stringify(questions.map((question, index) => ({
+      question,
+      userAnswer: results[index]?.userAnswer ?? '',
+      isCorrect: !!results[index]?.isCorrect,
+    })), null, 2)}
+  `;
 
-    return validatedResults;
+  try {
+    const explanations = await callGeminiWithSchema(prompt, quizExplanationsSchema(questions.length, lessonTopics.length), "gemini-2.5-flash");
+    return results.map((result, index) => ({
+      ...result,
+      explanation: explanations[index].explanation,
+      relatedTopic: explanations[index].topicNumber !== null ? lessonTopics[explanations[index].topicNumber - 1] : null,
+    }));
   } catch (error) {
-    console.error("Error validating quiz answers:", error);
-    // As a fallback, mark answers correct only if they are a strict match
-    return questions.map((q, index) => {
-        const answer = userAnswers[index];
-        let isCorrect = false;
-        if (q.type === 'multiple-choice' || q.type === 'fill-in-the-blank' || q.type === 'listening') {
-            if (typeof answer === 'string' && typeof q.correctAnswer === 'string') {
-                isCorrect = answer.toLowerCase().trim() === q.correctAnswer.toLowerCase().trim();
-            }
-        } else if (q.type === 'speaking') {
-            isCorrect = !!answer;
-        } else if (q.type === 'matching' && Array.isArray(answer)) {
-            isCorrect = q.pairs.every((pair, i) => {
-                const correctPairId = `term-${i}:def-${i}`;
-                return answer[i] === correctPairId;
-            });
-        }
-        return { userAnswer: userAnswers[index], isCorrect };
-    });
+    console.error("Error explaining quiz results:", error);
+    return results;
   }
 };
 
@@ -712,13 +991,11 @@ export const getNudgeResponse = async (messages: Message[], partner: Partner, us
   `;
 
   try {
-    const data = await callGeminiProxy(prompt);
-    const rawText = data.candidates[0].content.parts[0].text;
-    const aiResponse = cleanAndParseJson(rawText);
+    const aiResponse = await callGeminiWithSchema(prompt, chatReplySchema);
 
     const responseMessage: Message = {
       sender: 'ai',
-      text: aiResponse.text || "...",
+      text: aiResponse.text,
       translation: aiResponse.translation || ""
     };
 
@@ -754,15 +1031,13 @@ export const getInitialWelcomeMessage = async (partner: Partner): Promise<Messag
   `;
 
   try {
-    const data = await callGeminiProxy(prompt);
-    const rawText = data.candidates[0].content.parts[0].text;
-    const aiResponse = cleanAndParseJson(rawText);
+    const aiResponse = await callGeminiWithSchema(prompt, chatReplySchema);
 
     const responseMessage: Message = {
       sender: 'ai',
-      text: aiResponse.text || `Hi, I'm ${partner.name}. Let's chat!`,
-      translation: aiResponse.translation || "",
-      correction: aiResponse.correction || ""
+      text: aiResponse.text,
+      translation: aiResponse.translation,
+      correction: aiResponse.correction
     };
 
     return responseMessage;
@@ -773,6 +1048,75 @@ export const getInitialWelcomeMessage = async (partner: Partner): Promise<Messag
   }
 };
 
+/**
+ * Asks for key vocabulary from a lesson topic, for a flashcard session.
+ * @param topic The lesson topic title.
+ * @param teachMeType The lesson's track (e.g., "Grammar").
+ * @param targetLangName Target language name (e.g., "Spanish").
+ * @param level The lesson level.
+ * @param amount How many words to ask for.
+ * @returns The words, deduplicated. Throws if the response can't be validated.
+ */
+export const getTopicWordList = async (
+  topic: string,
+  teachMeType: string,
+  targetLangName: string,
+  level: number,
+  amount: number
+): Promise<string[]> => {
+  const prompt = `
+    Generate a JSON array of exactly ${amount} unique key vocabulary words or short phrases (nouns, verbs, adjectives; max 3 words each)
+    strictly in the ${targetLangName} language, directly related to the content of the lesson topic "${topic}" (which is a ${teachMeType} lesson).
+    Focus on learnable content words from the topic itself.
+    Absolutely DO NOT include meta-words like "grammar", "vocabulary", "lesson", "introduction", "overview", "example", "level", "review", etc.
+    Do not include English words unless the topic is specifically about English loanwords in ${targetLangName}.
+    Do not include proper nouns unless they are essential vocabulary for the topic (e.g., names of concepts).
+    Prioritize words likely to be useful for a learner at level ${level}.
+    Respond ONLY with the JSON array of strings, e.g., ["word1", "phrase two", "word3"].
+  `;
+  const words = await callGeminiWithSchema(prompt, wordListSchema, "gemini-2.5-flash-lite");
+  return [...new Set(words.map(word => word.trim()))];
+};
+
+/**
+ * Writes one multiple-choice placement question per lesson topic, pitched at that
+ * topic's level.
+ * @param topics Lesson topics with their levels (1-5).
+ * @param track The TeachMe track the topics come from.
+ * @param targetLangName Target language name (e.g., "Spanish").
+ * @param nativeLangName The learner's native language name, used for instructions.
+ * @returns The questions, in the same order as `topics`. Throws if the response can't be validated.
+ */
+export const generatePlacementQuestions = async (
+  topics: { title: string; level: number }[],
+  track: TeachMeType,
+  targetLangName: string,
+  nativeLangName: string
+): Promise<PlacementQuestion[]> => {
+  const prompt = `
+    You are writing a placement test that finds a ${nativeLangName} speaker's ${track.toLowerCase()} level in ${targetLangName}.
+    Levels run from 1 (complete beginner, A1) to 5 (advanced, C1).
+
+    Write exactly ${topics.length} multiple-choice questions, one for each topic below and in the same order.
+    Each question must test whether the learner has really mastered that topic at its level, so a learner below that level would likely get it wrong.
+    ${track === 'Conversation' ? 'Set each question in the topic\'s situation: ask for the most natural reply or phrase to use.' : ''}
+
+    Topics:
+    ${topics.map((topic, index) => `${index + 1}. [Level ${topic.level}] ${topic.title}`).join('\n    ')}
+
+    Rules:
+    - "question" is written in ${nativeLangName}, but any example sentence inside it is in ${targetLangName}.
+    - "options" has exactly 4 answers in ${targetLangName}, only one of them correct.
+    - "correctAnswer" is copied exactly from "options".
+    - Do not hint at the level or the topic title in the question.
+
+    Respond ONLY with a JSON array of objects like:
+    { "question": "...", "options": ["...", "...", "...", "..."], "correctAnswer": "..." }
+  `;
+  const questions = await callGeminiWithSchema(prompt, placementQuestionsSchema(topics.length), "gemini-2.5-flash");
+  return questions.map((question, index) => ({ ...question, topic: topics[index].title, level: topics[index].level }));
+};
+
 /**
  * Gets a simple definition for a word using Gemini.
  * @param word The word in the target language.
@@ -854,20 +1198,58 @@ For all other terms (regular words or phrases), provide the normal ${translation
   }
 };
 
+// Identifies a flashcard image in the server-side image cache (the server normalizes it)
+interface ImageCacheKey {
+  term: string;
+  languageName: string;
+  level: number;
+}
+
 /**
- * Generates an image for a word using the Imagen 4.0 fast proxy Cloud Function.
- * @param word The word in the target language.
- * @param langName The name of the target language.
+ * Looks up a previously generated or searched image for a word, without generating anything.
+ * @param cacheKey The word, language and level the image was made for.
+ * @param style 'icon' for Imagen generations, 'search' for image search results.
+ * @returns A promise resolving to the cached image URL, or null on a miss.
+ */
+const lookupCachedImage = async (cacheKey: ImageCacheKey, style: 'icon' | 'search'): Promise<string | null> => {
+  try {
+    const response = await fetch(IMAGE_CACHE_LOOKUP_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ cache: cacheKey, style }),
+    });
+    if (!response.ok) {
+      throw new Error(`Image cache lookup error (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data.imageUrl || null;
+  } catch (error) {
+    // A failed lookup just means we generate as usual
+    console.error("Error looking up cached image:", error);
+    return null;
+  }
+};
+
+// The signed-in user's ID token, for Cloud Functions that write shared data (the image
+// cache, the quiz bank)
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const idToken = await auth.currentUser?.getIdToken();
+  return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+};
+
+/**
+ * Generates an image for a word using the Imagen 4.0 fast proxy Cloud Function. The server
+ * writes the prompt itself and caches the result for reuse.
+ * @param cacheKey The word, language and level to draw.
  * @returns A promise resolving to the image URL string.
  */
-export const callImagenProxy = async (imagePrompt: string): Promise<string> => {
-    // Log only the beginning of potentially long prompts
-    console.log(`Requesting image generation with prompt: "${imagePrompt.substring(0,100)}..." via proxy.`);
+export const callImagenProxy = async (cacheKey: ImageCacheKey): Promise<string> => {
+    console.log(`Requesting image generation for "${cacheKey.term}" via proxy.`);
     try {
         const response = await fetch(IMAGEN_PROXY_URL, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt: imagePrompt }), // Send the provided prompt
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+          body: JSON.stringify({ cache: cacheKey }),
         });
 
         if (!response.ok) {
@@ -891,13 +1273,14 @@ export const callImagenProxy = async (imagePrompt: string): Promise<string> => {
 };
 
 // --- This is the new function to call our new search proxy ---
-const searchForImage = async (query: string): Promise<string> => {
-  console.log(`Requesting Image Search for "${query}"...`);
+// The server builds the search query; isLetter asks for a letter of the alphabet instead of a drawing
+const searchForImage = async (cacheKey: ImageCacheKey, isLetter: boolean): Promise<string> => {
+  console.log(`Requesting Image Search for "${cacheKey.term}"...`);
   try {
     const response = await fetch(IMAGE_SEARCH_PROXY_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ query }),
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+      body: JSON.stringify({ cache: cacheKey, isLetter }),
     });
     if (!response.ok) {
       const errorText = await response.text();
@@ -910,7 +1293,7 @@ const searchForImage = async (query: string): Promise<string> => {
     return data.imageUrl;
   } catch (error) {
     console.error("Error calling the Image Search proxy function:", error);
-    return `https://via.placeholder.com/300x200.png?text=Error+searching+${encodeURIComponent(query)}`;
+    return `https://via.placeholder.com/300x200.png?text=Error+searching+${encodeURIComponent(cacheKey.term)}`;
   }
 };
 
@@ -919,6 +1302,8 @@ const searchForImage = async (query: string): Promise<string> => {
 /**
  * Gets an image for a flashcard, deciding whether to
  * use Image Search or Imagen generation based on context and usage limits.
+ * Previously generated images are served from the server-side cache without
+ * counting against the Imagen usage limit.
  * @param word The word (e.g., "ㅜ" or "apple").
  * @param langName The language name (e.g., "Korean").
  * @param level The lesson level.
@@ -936,6 +1321,7 @@ export const generateImageForWord = async (
   subscriptionStatus: SubscriptionStatus
 ): Promise<string> => {
   const normalizedTopic = topicTitle ? topicTitle.toLowerCase() : "";
+  const cacheKey: ImageCacheKey = { term: word, languageName: langName, level };
   let useImagen = true; // Default to Imagen
 
   // Condition to fall back to Image Search immediately (e.g., simple characters)
@@ -951,6 +1337,15 @@ export const generateImageForWord = async (
       console.log(`Using Image Search (reason: simple character): "${word}"`);
   }
 
+  // A word that was already drawn is free for everyone, so check the cache before the usage limit
+  if (useImagen) {
+    const cachedImageUrl = await lookupCachedImage(cacheKey, 'icon');
+    if (cachedImageUrl) {
+      console.log(`Using cached generated image: "${word}"`);
+      return cachedImageUrl;
+    }
+  }
+
   // If Imagen is the plan, check limits based on subscription
   if (useImagen) {
     if (subscriptionStatus === 'subscriber') {
@@ -977,55 +1372,128 @@ export const generateImageForWord = async (
 
   // --- Perform the chosen image fetching method ---
   if (useImagen) {
-    // --- Generate Imagen Prompt (logic remains the same) ---
-    let descriptiveImagePrompt = `A simple, clear, minimalist drawing or icon representing the concept of "${word}" in ${langName}. White background, no text, no letters, simple icon style.`;
-    try {
-        const promptGenPrompt = `
-        You are an AI assistant helping create image generation prompts for language flashcards.
-        Given a word/phrase, its language, and the lesson topic, generate a concise, visually descriptive prompt suitable for an AI image generator (like Imagen 4.0).
-
-        **CRITICAL RULES:**
-        1.  Focus ONLY on visual elements. Describe the *concept* or *object* the word represents without literally writing the word.
-        2.  Do NOT include the original word "${word}" directly in the prompt if it's likely to cause the AI to render it as text. Instead, describe what it *looks like* or *represents*. (e.g., for "apple", prompt might be "A shiny red apple fruit").
-        3.  Explicitly include these style instructions in the prompt: "minimalist style, simple drawing, white background, no text, no letters, icon".
-        4.  Keep the prompt clear and relatively short (max 30 words).
-
-        Word/Phrase: "${word}"
-        Language: ${langName}
-        Lesson Topic: "${topicTitle || 'General Vocabulary'}"
-
-        Generate the image prompt now. Respond ONLY with the prompt text itself. Do not include quotation marks around your response or any conversational filler.`;
-
-      console.log(`Generating descriptive prompt for Imagen for word: "${word}"`);
-      const response = await callGeminiProxy(promptGenPrompt, "gemini-2.5-flash-lite");
-      const generatedPrompt = response?.candidates?.[0]?.content?.parts?.[0]?.text?.trim().replace(/^["']|["']$/g, '');
-
-      if (generatedPrompt) {
-        let finalPrompt = generatedPrompt;
-        if (!finalPrompt.includes("minimalist style")) finalPrompt += ", minimalist style";
-        if (!finalPrompt.includes("simple drawing")) finalPrompt += ", simple drawing";
-        if (!finalPrompt.includes("white background")) finalPrompt += ", white background";
-        if (!finalPrompt.includes("no text")) finalPrompt += ", no text";
-        if (!finalPrompt.includes("no letters")) finalPrompt += ", no letters";
-        if (!finalPrompt.includes("icon")) finalPrompt += ", icon style";
-        descriptiveImagePrompt = finalPrompt;
-        console.log(`Using generated prompt: "${descriptiveImagePrompt}"`);
-      } else {
-         console.warn("Gemini returned empty or invalid prompt for Imagen, using fallback.");
-      }
-    } catch (error) {
-      console.error("Error generating descriptive prompt for Imagen, using fallback:", error);
-    }
-    // --- Call Imagen Proxy ---
-    return await callImagenProxy(descriptiveImagePrompt);
+    return await callImagenProxy(cacheKey);
   } else {
-    // --- Call Image Search Proxy ---
-    const query = (level === 1 && word.length <= 2 && !normalizedTopic.includes('alphabet') && !normalizedTopic.includes('vowel') && !normalizedTopic.includes('consonant'))
-      ? `${langName} ${word} simple drawing icon` // More specific for non-alphabet simple words
-      : (level === 1 && word.length <= 2)
-          ? `${langName} letter ${word} alphabet` // Keep for alphabet characters
-          : `${langName} ${word} simple drawing icon`; // Generic fallback
-    return await searchForImage(query);
+    // Short level 1 items on alphabet lessons are letters; other short words get a drawing
+    const isLetter = level === 1 && word.length <= 2 && (
+      normalizedTopic.includes('alphabet') || normalizedTopic.includes('vowel') || normalizedTopic.includes('consonant'));
+    return await searchForImage(cacheKey, isLetter);
+  }
+};
+
+/**
+ * Builds a multi-blank cloze exercise. Gemini picks what to blank (the term, its
+ * articles/particles, conjugated forms) with a hint and accepted alternatives for each;
+ * clozeService then locates the blanks in the passage deterministically.
+ * @param word The card's term, or null to let the AI choose targets in custom text.
+ * @param targetLangName Target language name (e.g., "Spanish").
+ * @param userNativeLangName The user's native language, used for the hints.
+ * @param passage Text to blank out. If omitted, a short passage using the word is written.
+ * @param maxBlanks Upper bound on the number of blanks.
+ * @returns A promise resolving to the cloze passage.
+ */
+export const getClozePassage = async (
+  word: string | null,
+  targetLangName: string,
+  userNativeLangName: string,
+  passage?: string,
+  maxBlanks = 4
+): Promise<ClozePassage> => {
+  const passageInstructions = passage
+    ? `Use EXACTLY this ${targetLangName} text as the passage, unchanged:\n---\n${passage}\n---`
+    : `Write one or two simple, natural sentences (max 20 words total) in ${targetLangName} that use the word "${word}".`;
+  const targetInstructions = word
+    ? `The first blank must be the word "${word}" (or the inflected form of it used in the passage). Other blanks can be articles, particles or conjugated verbs that go with it.`
+    : `Choose the most useful words to practice: key vocabulary, articles, particles and conjugated verbs.`;
+
+  const prompt = `
+    You are creating a fill-in-the-blanks (cloze) exercise for a ${targetLangName} learner whose native language is ${userNativeLangName}.
+
+    ${passageInstructions}
+
+    Choose between 1 and ${maxBlanks} blanks. ${targetInstructions}
+
+    Rules:
+    1.  Each "answer" must be copied EXACTLY as it appears in the passage (same spelling and inflection).
+    2.  "hint" is a short clue in ${userNativeLangName} that does not give the answer away (e.g. "to be, 3rd person singular").
+    3.  "alternatives" lists other ${targetLangName} answers that would also be correct in that blank (may be empty).
+    4.  "kind" is one of "term", "article", "particle", "conjugation", "other".
+    5.  List blanks in the order they appear in the passage.
+
+    Respond ONLY with a valid JSON object like:
+    {
+      "passage": "El gato está en la casa.",
+      "blanks": [
+        { "answer": "está", "hint": "to be (location), he/she/it", "alternatives": [], "kind": "conjugation" },
+        { "answer": "la", "hint": "the (feminine)", "alternatives": [], "kind": "article" }
+      ]
+    }
+  `;
+
+  const clozeData = await callGeminiWithSchema(prompt, clozePassageSchema(passage), "gemini-2.5-flash-lite");
+  // Custom text is kept as the user wrote it even if the AI "corrects" its echo
+  const fullText = passage || clozeData.passage;
+  const cloze = buildClozePassage(fullText, clozeData.blanks.slice(0, maxBlanks));
+  if (cloze.blanks.length === 0) {
+    throw new Error("None of the AI's cloze answers appear in the passage.");
+  }
+  return cloze;
+};
+
+/**
+ * Fetches the conjugation table for one verb in one tense. Tables are generated once on
+ * the server and cached in Firestore, so every learner is graded against the same forms.
+ * Requires a signed-in user.
+ * @param verb The verb's infinitive (or dictionary form).
+ * @param tense The tense/mood, one of getConjugationTenses(languageName).
+ * @param languageName The language name (e.g., "Spanish").
+ * @returns A promise resolving to the table, or null if it couldn't be built.
+ */
+export const getConjugationTable = async (verb: string, tense: string, languageName: string): Promise<ConjugationTable | null> => {
+  try {
+    const response = await fetch(CONJUGATION_TABLE_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+      body: JSON.stringify({ verb, tense, languageName }),
+    });
+    if (!response.ok) {
+      throw new Error(`Conjugation table proxy error (${response.status}): ${await response.text()}`);
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`Error getting conjugation table for ${verb} (${tense}):`, error);
+    return null;
+  }
+};
+
+/**
+ * Picks the verbs and tenses to drill for a grammar topic (e.g. "Verbo 'Estar': Presente Indicativo").
+ * @param topicTitle The grammar topic's title.
+ * @param languageName The language name (e.g., "Spanish").
+ * @returns A promise resolving to the verb set; the topic's own tense comes first.
+ */
+export const getConjugationVerbSet = async (topicTitle: string, languageName: string): Promise<ConjugationVerbSet> => {
+  const allowedTenses = getConjugationTenses(languageName);
+  const prompt = `
+    A ${languageName} learner wants to drill verb conjugations for the grammar lesson "${topicTitle}".
+
+    1.  "verbs": list the verbs this lesson is about (2-6 verbs, dictionary/infinitive form, in ${languageName}). If the lesson covers a verb group (e.g. regular -AR verbs), pick common example verbs from it.
+    2.  "tenses": list up to 6 tenses/moods, copied exactly from this list: ${JSON.stringify(allowedTenses)}. The first one must be the tense the lesson teaches (or the closest one on the list); the rest are other common tenses worth practising with these verbs.
+
+    Respond ONLY with a valid JSON object, e.g.:
+    { "verbs": ["estar"], "tenses": ["Presente de indicativo", "Pretérito indefinido", "Pretérito imperfecto", "Futuro simple"] }
+  `;
+
+  try {
+    const verbSet = await callGeminiWithSchema(prompt, conjugationVerbSetSchema, "gemini-2.5-flash-lite");
+    // Tables are cached by tense name, so only the canonical names are kept; if none of the
+    // AI's tenses are on the list, the learner picks from the whole list
+    const matchedTenses = toCanonicalTenses(verbSet.tenses, languageName);
+    const tenses = matchedTenses.length > 0 ? matchedTenses : allowedTenses;
+    return { verbs: verbSet.verbs.map(verb => verb.trim()), tenses };
+  } catch (error) {
+    console.error(`Error getting verb set for "${topicTitle}":`, error);
+    return { verbs: [], tenses: [] };
   }
 };
 
@@ -1070,21 +1538,11 @@ export const getSentence = async (
     `;
     // --- END FIX ---
 
-    const response = await callGeminiProxy(prompt, "gemini-2.5-flash-lite");
-    
-    // --- START FIX: Parse JSON response ---
-    const rawText = response.candidates[0].content.parts[0].text;
-    const sentenceData = cleanAndParseJson(rawText); // Use the helper
-
-    if (!sentenceData.fullSentence || !sentenceData.sentenceWithBlank) {
-      throw new Error("AI response was missing required sentence fields.");
-    }
-    
+    const sentenceData = await callGeminiWithSchema(prompt, exampleSentenceSchema, "gemini-2.5-flash-lite");
     return {
       fullSentence: sentenceData.fullSentence,
       sentenceWithBlank: sentenceData.sentenceWithBlank
     };
-    // --- END FIX ---
 
   } catch (error) {
     console.error(`Error getting sentence for ${word} in ${targetLangName}:`, error);
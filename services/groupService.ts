@@ -1,12 +1,18 @@
 // stgisi414/langcampus-exchange/langcampus-exchange-3b6faae819bb48e19293301de447720f8c74f458/services/groupService.ts
 import { doc, setDoc, updateDoc, onSnapshot, arrayUnion, arrayRemove, deleteDoc, getDoc, deleteField } from "firebase/firestore";
 import { db } from '../firebaseConfig.ts';
-import { GroupChat, Message, Partner, UserProfileData, TeachMeCache, TeachMeType } from '../types.ts'; // Added TeachMeType
+import { GroupChat, Message, Partner, UserProfileData, TeachMeCache, TeachMeType, LiveQuiz, LiveQuizAnswer, LiveQuizQuestion } from '../types.ts'; // Added TeachMeType
 import * as geminiService from './geminiService';
+import { formatScoreboardMessage } from './liveQuizService';
 import { deleteAudioMessage } from './storageService.ts';
 
 const GROUPS_COLLECTION = 'groupChats';
 
+const LIVE_QUIZ_UPDATE_URL =
+    process.env.NODE_ENV === 'development'
+        ? "/liveQuizUpdate"
+        : "https://us-central1-langcampus-exchange.cloudfunctions.net/liveQuizUpdate";
+
 // 1. Creates the initial group document in Firestore and sets the user's activeGroupId
 export const createGroupInFirestore = async (
     groupId: string, 
@@ -165,4 +171,68 @@ export const updateLastMessage = async (groupId: string, message: string): Promi
     await updateDoc(groupRef, {
         lastMessage: message
     });
-};
\ No newline at end of file
+};
+
+// Sends one action to the liveQuizUpdate function. Returns the quiz it moved on, or null if
+// the call didn't move it (another member's did, or the quiz was already over).
+const updateLiveQuiz = async (body: Record<string, unknown>): Promise<LiveQuiz | null> => {
+    const response = await fetch(LIVE_QUIZ_UPDATE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await geminiService.getAuthHeaders()) },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        throw new Error(`Live quiz update error (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data.advanced === false ? null : data.quiz;
+};
+
+// 10. Starts a live group quiz (host only), replacing any earlier one. The server keeps the
+// answers out of the group document until each question is revealed.
+export const startLiveQuiz = async (groupId: string, topic: string, questions: LiveQuizQuestion[]): Promise<void> => {
+    await updateLiveQuiz({ action: 'start', groupId, topic, questions });
+};
+
+// 11. Records one member's answer to the open live quiz question
+export const submitLiveQuizAnswer = async (groupId: string, userId: string, questionIndex: number, answer: LiveQuizAnswer): Promise<void> => {
+    const groupRef = doc(db, GROUPS_COLLECTION, groupId);
+    await updateDoc(groupRef, { [`liveQuiz.answers.${userId}.${questionIndex}`]: answer });
+};
+
+// 12. Moves the live quiz on from the phase this member sees (to the answer reveal, the next
+// question or the end). Any member can, once the phase is due; throws if it isn't yet.
+export const advanceLiveQuiz = async (groupId: string, quiz: LiveQuiz): Promise<LiveQuiz | null> =>
+    updateLiveQuiz({ action: 'advance', groupId, quizId: quiz.id, fromIndex: quiz.currentIndex, fromPhase: quiz.phase });
+
+// 13. Ends the live quiz early (host only)
+export const endLiveQuiz = async (groupId: string, quiz: LiveQuiz): Promise<LiveQuiz | null> =>
+    updateLiveQuiz({ action: 'end', groupId, quizId: quiz.id });
+
+// 14. Posts a finished live quiz's scoreboard from the member whose client ended it, then the
+// bot partner's comments on the questions the group missed most
+export const postLiveQuizResults = async (
+    group: GroupChat,
+    quiz: LiveQuiz,
+    senderId: string,
+    senderName: string,
+    userProfile: UserProfileData
+): Promise<void> => {
+    const timestamp = Date.now();
+    const scoreboardMessage: Message = {
+        id: `msg-user-${timestamp}`,
+        sender: 'user',
+        text: `@bot ${formatScoreboardMessage(quiz)}`,
+        senderId,
+        senderName,
+        timestamp,
+    };
+    await addMessageToGroup(group.id, scoreboardMessage);
+
+    const groupTeachMeCache: TeachMeCache | null = group.groupTeachMeSettings
+        ? { topic: quiz.topic, language: group.groupTeachMeSettings.language, type: group.groupTeachMeSettings.type, content: '' }
+        : null;
+    const botResponse = await getGroupBotResponse([...group.messages, scoreboardMessage], group.partner, userProfile, true, groupTeachMeCache);
+    const botTimestamp = Date.now();
+    await addMessageToGroup(group.id, { ...botResponse, id: `msg-ai-${botTimestamp}`, timestamp: botTimestamp });
+};
@@ -0,0 +1,99 @@
+import { LiveQuiz, LiveQuizPlayerQuestion } from '../types.ts';
+
+// Live group quizzes. The liveQuizUpdate function drives the quiz through the group
+// document: it opens each question, reveals the answer when everyone has answered or time
+// is up, and ends the quiz. Any member's client asks it to move on when a phase is due, so
+// the quiz keeps going if the host leaves. Members only write their own answers.
+
+export const LIVE_QUIZ_QUESTION_COUNT = 8;
+// Matches the liveQuizUpdate function
+export const REVEAL_SECONDS = 5;
+// How many of the most-missed questions the bot partner is asked to go over
+const MOST_MISSED_LIMIT = 3;
+
+export interface ScoreboardEntry {
+  userId: string;
+  name: string;
+  score: number;
+}
+
+export interface MissedQuestion {
+  question: LiveQuizPlayerQuestion;
+  correctAnswer: string | null; // Null until the answer has been revealed
+  missedBy: number; // Players who answered wrong or not at all
+}
+
+// Everyone who answered at least one question
+const getPlayerIds = (quiz: LiveQuiz): string[] => Object.keys(quiz.answers || {});
+
+// A question's answer, once it has been revealed
+export const getRevealedAnswer = (quiz: LiveQuiz, questionIndex: number): string | null =>
+  quiz.revealedAnswers?.[questionIndex] ?? null;
+
+const isAnswerCorrect = (quiz: LiveQuiz, userId: string, questionIndex: number): boolean => {
+  const answer = getRevealedAnswer(quiz, questionIndex);
+  return answer !== null && quiz.answers?.[userId]?.[questionIndex]?.option === answer;
+};
+
+// True once every group member has answered the current question
+export const haveAllAnswered = (quiz: LiveQuiz, memberIds: string[]): boolean =>
+  memberIds.length > 0 && memberIds.every(userId => !!quiz.answers?.[userId]?.[quiz.currentIndex]);
+
+// How many players answered a question correctly
+export const countCorrect = (quiz: LiveQuiz, questionIndex: number): number =>
+  getPlayerIds(quiz).filter(userId => isAnswerCorrect(quiz, userId, questionIndex)).length;
+
+/**
+ * Ranks the players by correct answers. Correctness is worked out from the chosen
+ * options here rather than trusted from the players' clients.
+ */
+export const buildScoreboard = (quiz: LiveQuiz): ScoreboardEntry[] =>
+  getPlayerIds(quiz)
+    .map(userId => ({
+      userId,
+      name: Object.values(quiz.answers[userId])[0]?.playerName || 'Player',
+      score: quiz.questions.filter((_, index) => isAnswerCorrect(quiz, userId, index)).length,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+// The questions the most players got wrong, worst first; questions nobody missed are left out
+export const getMostMissed = (quiz: LiveQuiz, limit = MOST_MISSED_LIMIT): MissedQuestion[] => {
+  const players = getPlayerIds(quiz);
+  return quiz.questions
+    .map((question, index) => ({
+      question,
+      correctAnswer: getRevealedAnswer(quiz, index),
+      missedBy: players.filter(userId => !isAnswerCorrect(quiz, userId, index)).length,
+    }))
+    .filter(missed => missed.missedBy > 0)
+    .sort((a, b) => b.missedBy - a.missedBy)
+    .slice(0, limit);
+};
+
+/**
+ * Writes the scoreboard chat message, ending with the most-missed questions for the bot
+ * partner to explain.
+ */
+export const formatScoreboardMessage = (quiz: LiveQuiz): string => {
+  const scoreboard = buildScoreboard(quiz);
+  let message = `**Group Quiz Scoreboard**\n\n- **Topic:** ${quiz.topic}\n\n`;
+
+  if (scoreboard.length === 0) {
+    return `${message}Nobody answered any questions this time!`;
+  }
+  scoreboard.forEach(entry => {
+    // Players on the same score share a rank
+    const rank = scoreboard.findIndex(other => other.score === entry.score) + 1;
+    message += `- **#${rank} ${entry.name}**: ${entry.score}/${quiz.questions.length}\n`;
+  });
+
+  const mostMissed = getMostMissed(quiz);
+  if (mostMissed.length === 0) {
+    return `${message}\nEveryone got every question right! Some encouragement, please!`;
+  }
+  message += `\n**The questions we missed most. Can you explain them?**\n\n`;
+  mostMissed.forEach(({ question, correctAnswer, missedBy }) => {
+    message += `- **Question:** ${question.question}\n  - **Correct Answer:** \`${correctAnswer ?? 'not revealed'}\`\n  - **Missed by:** ${missedBy} of ${scoreboard.length}\n`;
+  });
+  return message;
+};
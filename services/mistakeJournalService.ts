@@ -0,0 +1,146 @@
+import { collection, doc, getDocs, setDoc, updateDoc, deleteDoc, query, orderBy, limit } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { CorrectionEdit, Flashcard, MistakeCategory, MistakeJournalEntry } from '../types.ts';
+import * as deckService from './deckService.ts';
+import { normalizeForComparison } from './textComparisonService.ts';
+
+const JOURNAL_SUBCOLLECTION = 'mistakeJournal';
+
+// Review cards made from journal entries go into one deck with this name per language
+export const MISTAKE_DECK_NAME = 'Mistake Journal';
+
+export const MISTAKE_CATEGORIES: MistakeCategory[] = [
+  'grammar', 'verb tense', 'agreement', 'word choice', 'word order', 'spelling', 'particle', 'punctuation', 'other',
+];
+
+const getJournalRef = (userId: string) => collection(db, "customers", userId, JOURNAL_SUBCOLLECTION);
+
+// Falls back to 'other' for anything the AI invents outside the known categories
+export const toMistakeCategory = (value: unknown): MistakeCategory => {
+  const category = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return MISTAKE_CATEGORIES.includes(category as MistakeCategory) ? category as MistakeCategory : 'other';
+};
+
+/**
+ * Reads the AI's list of edits to the user's sentence. Edits whose original span isn't
+ * in the sentence are dropped, so every edit that's kept can be shown in place.
+ * @param value The "edits" field from the AI's response.
+ * @param original The user's sentence.
+ */
+export const toCorrectionEdits = (value: unknown, original: string): CorrectionEdit[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(edit => {
+    if (typeof edit?.original !== 'string' || !edit.original.trim() || !original.includes(edit.original)) return [];
+    return [{
+      original: edit.original,
+      replacement: typeof edit.replacement === 'string' ? edit.replacement : '',
+      category: toMistakeCategory(edit.category),
+      explanation: typeof edit.explanation === 'string' ? edit.explanation.trim() : '',
+    }];
+  });
+};
+
+export type CorrectionSegment = { type: 'text'; text: string } | { type: 'edit'; edit: CorrectionEdit };
+
+/**
+ * Splits the user's sentence into unchanged text and edits, for an inline diff.
+ * @param original The user's sentence.
+ * @param edits The edits, from toCorrectionEdits.
+ * @returns The segments in sentence order, or null if the edits overlap and can't all be placed.
+ */
+export const buildCorrectionSegments = (original: string, edits: CorrectionEdit[]): CorrectionSegment[] | null => {
+  // The AI doesn't always list edits in sentence order
+  const ordered = [...edits].sort((a, b) => original.indexOf(a.original) - original.indexOf(b.original));
+  const segments: CorrectionSegment[] = [];
+  let cursor = 0;
+  for (const edit of ordered) {
+    const start = original.indexOf(edit.original, cursor);
+    if (start === -1) return null;
+    if (start > cursor) segments.push({ type: 'text', text: original.slice(cursor, start) });
+    segments.push({ type: 'edit', edit });
+    cursor = start + edit.original.length;
+  }
+  if (cursor < original.length) segments.push({ type: 'text', text: original.slice(cursor) });
+  return segments;
+};
+
+/**
+ * Saves a chat correction to the user's mistake journal.
+ * @param userId The UID of the user.
+ * @param entry The correction, without an ID.
+ */
+export const saveMistake = async (userId: string, entry: Omit<MistakeJournalEntry, 'id'>): Promise<MistakeJournalEntry | null> => {
+  const entryRef = doc(getJournalRef(userId)); // Let Firestore pick the ID
+  const newEntry: MistakeJournalEntry = { ...entry, id: entryRef.id };
+  try {
+    await setDoc(entryRef, newEntry);
+    return newEntry;
+  } catch (error) {
+    console.error("Error saving mistake journal entry:", error);
+    return null;
+  }
+};
+
+// Fetches the user's journal, newest first
+export const getMistakes = async (userId: string, maxEntries = 500): Promise<MistakeJournalEntry[]> => {
+  try {
+    const snapshot = await getDocs(query(getJournalRef(userId), orderBy('createdAt', 'desc'), limit(maxEntries)));
+    return snapshot.docs.map(d => d.data() as MistakeJournalEntry);
+  } catch (error) {
+    console.error("Error fetching mistake journal:", error);
+    return [];
+  }
+};
+
+export const deleteMistake = async (userId: string, entryId: string) => {
+  await deleteDoc(doc(getJournalRef(userId), entryId));
+};
+
+export interface MistakeSearchFilters {
+  text?: string;
+  languageCode?: string | null;
+  category?: MistakeCategory | null;
+}
+
+/**
+ * Filters journal entries in memory (Firestore has no full-text search). Every word of
+ * the search text must appear in the original, the correction or the explanation;
+ * case and accents are ignored.
+ */
+export const searchMistakes = (entries: MistakeJournalEntry[], filters: MistakeSearchFilters): MistakeJournalEntry[] => {
+  const words = normalizeForComparison(filters.text || '').split(' ').filter(Boolean);
+  return entries.filter(entry => {
+    if (filters.languageCode && entry.languageCode !== filters.languageCode) return false;
+    if (filters.category && entry.category !== filters.category) return false;
+    const searchable = normalizeForComparison(`${entry.original} ${entry.corrected} ${entry.explanation}`);
+    return words.every(word => searchable.includes(word));
+  });
+};
+
+/**
+ * Turns a journal entry into a review card: the corrected sentence is added to the
+ * language's "Mistake Journal" deck (created on first use), with the explanation as
+ * its definition.
+ * @param userId The UID of the user.
+ * @param entry The journal entry.
+ * @returns The ID of the deck the card was added to.
+ */
+export const addMistakeToDeck = async (userId: string, entry: MistakeJournalEntry): Promise<string> => {
+  const decks = await deckService.getDecks(userId);
+  const card: Flashcard = { id: deckService.createCardId(), term: entry.corrected, definition: entry.explanation };
+  const existingDeck = decks.find(deck => deck.name === MISTAKE_DECK_NAME && deck.languageCode === entry.languageCode);
+
+  let deckId: string;
+  if (existingDeck) {
+    deckId = existingDeck.id;
+    const isAlreadyInDeck = existingDeck.cards.some(c => normalizeForComparison(c.term) === normalizeForComparison(entry.corrected));
+    if (!isAlreadyInDeck) {
+      await deckService.saveDeckCards(userId, existingDeck, [...existingDeck.cards, card]);
+    }
+  } else {
+    deckId = (await deckService.createDeck(userId, MISTAKE_DECK_NAME, entry.languageCode, decks.length, [card])).id;
+  }
+
+  await updateDoc(doc(getJournalRef(userId), entry.id), { deckId });
+  return deckId;
+};
@@ -0,0 +1,147 @@
+import { MockExam, MockExamSectionKind, QuizPassage, QuizQuestion, TeachMeType, ValidatedQuizResult } from '../types.ts';
+import * as geminiService from './geminiService';
+import { getTrackTopics } from './placementService';
+
+// Timed mock exams modelled on DELE/JLPT/TOPIK-style papers: sections taken in order, no
+// feedback until the end, and a report that maps the score to a CEFR band.
+
+export const SECTION_ORDER: MockExamSectionKind[] = ['reading', 'listening', 'grammar', 'speaking'];
+
+export const SECTION_SIZES: Record<MockExamSectionKind, number> = { reading: 5, listening: 4, grammar: 8, speaking: 3 };
+
+export const SECTION_LABELS: Record<MockExamSectionKind, string> = {
+  reading: 'Reading', listening: 'Listening', grammar: 'Grammar & Vocabulary', speaking: 'Speaking',
+};
+
+// Higher levels get longer passages and sentences, so more time
+const EXAM_MINUTES_BY_LEVEL = [20, 25, 30, 35, 40];
+
+// Lessons each exam is written from, per track
+const TOPICS_PER_TRACK: Record<TeachMeType, number> = { Grammar: 2, Vocabulary: 2, Conversation: 1 };
+
+export const CEFR_BANDS = ['A1', 'A2', 'B1', 'B2', 'C1'] as const;
+export type CefrBand = typeof CEFR_BANDS[number];
+
+// Like the DELE, 60% overall passes, but no section may fall below 40%
+export const PASS_MARK = 0.6;
+export const SECTION_PASS_MARK = 0.4;
+// A score this high suggests the learner should sit the next level up
+const NEXT_LEVEL_MARK = 0.85;
+
+export interface SectionScore {
+  kind: MockExamSectionKind;
+  score: number;
+  total: number;
+}
+
+export interface MockExamReport {
+  band: CefrBand; // The band the exam was set at
+  achievedBand: CefrBand | 'Pre-A1';
+  passed: boolean;
+  percent: number; // 0..1
+  sections: SectionScore[];
+  isReadyForNextLevel: boolean;
+}
+
+export const toCefrBand = (level: number): CefrBand => CEFR_BANDS[Math.min(CEFR_BANDS.length, Math.max(1, level)) - 1];
+
+export const getExamDurationSeconds = (level: number): number =>
+  EXAM_MINUTES_BY_LEVEL[Math.min(EXAM_MINUTES_BY_LEVEL.length, Math.max(1, level)) - 1] * 60;
+
+/**
+ * Picks random lessons of one level across the tracks, for an exam to cover.
+ * @param languageName Target language name, as teachMeData is keyed.
+ * @param level The exam level.
+ */
+export const sampleExamTopics = (languageName: string, level: number): string[] =>
+  (Object.keys(TOPICS_PER_TRACK) as TeachMeType[]).flatMap(track =>
+    getTrackTopics(track, languageName)
+      .filter(topic => topic.level === level)
+      .sort(() => Math.random() - 0.5)
+      .slice(0, TOPICS_PER_TRACK[track])
+      .map(topic => topic.title)
+  );
+
+/**
+ * Writes a new mock exam for one level.
+ * @param languageName Target language name.
+ * @param nativeLanguageName The learner's native language name.
+ * @param level The exam level (1-5).
+ * @returns The exam. Throws if the language has no lessons at this level or the exam
+ * couldn't be generated.
+ */
+export const createMockExam = async (languageName: string, nativeLanguageName: string, level: number): Promise<MockExam> => {
+  const topics = sampleExamTopics(languageName, level);
+  if (topics.length === 0) throw new Error(`No ${languageName} lessons at level ${level} to write an exam from.`);
+
+  const paper = await geminiService.generateMockExam(topics, languageName, nativeLanguageName, level, toCefrBand(level), SECTION_SIZES);
+  return {
+    language: languageName,
+    level,
+    topics,
+    sections: SECTION_ORDER.map(kind => ({
+      kind,
+      ...(kind === 'reading' ? { passage: paper.readingPassage } : {}),
+      questions: paper[kind],
+    })),
+    durationSeconds: getExamDurationSeconds(level),
+  };
+};
+
+// All of an exam's questions in the order they're taken
+export const getExamQuestions = (exam: MockExam): QuizQuestion[] => exam.sections.flatMap(section => section.questions);
+
+// The reading passage and where its questions sit in getExamQuestions, to save with the attempt
+export const getExamPassage = (exam: MockExam): QuizPassage | null => {
+  let offset = 0;
+  for (const section of exam.sections) {
+    if (section.passage) {
+      return { text: section.passage, questionIndexes: section.questions.map((_, index) => offset + index) };
+    }
+    offset += section.questions.length;
+  }
+  return null;
+};
+
+/**
+ * Grades a finished exam with the normal quiz grader. Spoken answers are transcripts,
+ * scored against the sentence that was read.
+ * @param exam The exam.
+ * @param answers Answers in exam order; skipped questions are ''.
+ * @param nativeLanguage The learner's native language name.
+ * @returns One result per question, in exam order.
+ */
+export const gradeMockExam = async (exam: MockExam, answers: (string | string[])[], nativeLanguage: string): Promise<ValidatedQuizResult[]> => {
+  const questions = getExamQuestions(exam);
+  return await geminiService.validateQuizAnswers(questions, questions.map((_, index) => answers[index] ?? ''), exam.language, nativeLanguage);
+};
+
+/**
+ * Scores each section and maps the overall result to a CEFR band. A pass earns the
+ * exam's band; anything less earns the band below.
+ * @param exam The exam.
+ * @param results Graded answers in exam order.
+ */
+export const buildExamReport = (exam: MockExam, results: ValidatedQuizResult[]): MockExamReport => {
+  let offset = 0;
+  const sections = exam.sections.map(section => {
+    const sectionResults = results.slice(offset, offset + section.questions.length);
+    offset += section.questions.length;
+    return { kind: section.kind, score: sectionResults.filter(result => result?.isCorrect).length, total: section.questions.length };
+  });
+
+  const total = sections.reduce((sum, section) => sum + section.total, 0);
+  const percent = total > 0 ? sections.reduce((sum, section) => sum + section.score, 0) / total : 0;
+  const passed = percent >= PASS_MARK && sections.every(section => section.total === 0 || section.score / section.total >= SECTION_PASS_MARK);
+  const band = toCefrBand(exam.level);
+  const bandIndex = CEFR_BANDS.indexOf(band);
+
+  return {
+    band,
+    achievedBand: passed ? band : bandIndex > 0 ? CEFR_BANDS[bandIndex - 1] : 'Pre-A1',
+    passed,
+    percent,
+    sections,
+    isReadyForNextLevel: passed && percent >= NEXT_LEVEL_MARK && bandIndex < CEFR_BANDS.length - 1,
+  };
+};
@@ -0,0 +1,282 @@
+import { Flashcard, FlashcardDeck, FlashcardSessionRecord, SubscriptionStatus, UsageKey } from '../types.ts';
+import * as geminiService from './geminiService';
+import { buildClozePassage, renderClozeText } from './clozeService';
+import { getFlashcardReviewState, recordFlashcardReview, ReviewableCard } from './spacedRepetitionService';
+import { saveFlashcardSession } from './sessionHistoryService';
+
+// Offline flashcard study: downloaded decks and their images live in IndexedDB, and
+// review results / finished sessions made without a connection are queued there until
+// syncPendingWrites runs again online.
+
+const DB_NAME = 'langcampus-offline';
+const DB_VERSION = 1;
+const DECKS_STORE = 'decks';
+const IMAGES_STORE = 'images';
+const PENDING_STORE = 'pendingWrites';
+
+// A custom deck with every card's content pre-generated
+export interface OfflineDeck extends FlashcardDeck {
+  userId: string;
+  translationLanguageCode: string; // Language the pre-generated translations are in
+  downloadedAt: number;
+}
+
+interface OfflineImage {
+  url: string;
+  blob: Blob;
+}
+
+type PendingWrite =
+  | { id?: number; userId: string; type: 'review'; card: ReviewableCard; quality: number; reviewedAt: number }
+  | { id?: number; userId: string; type: 'session'; session: FlashcardSessionRecord };
+
+export interface DeckDownloadOptions {
+  targetLangName: string;
+  translationLanguageCode: string;
+  translationLangName: string;
+  nativeLangName: string;
+  level: number;
+  handleUsageCheck: (feature: UsageKey, action: () => Promise<void> | void) => Promise<void>;
+  subscriptionStatus: SubscriptionStatus;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// --- IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openOfflineDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DECKS_STORE)) db.createObjectStore(DECKS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE, { keyPath: 'url' });
+        if (!db.objectStoreNames.contains(PENDING_STORE)) db.createObjectStore(PENDING_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a retry on the next call
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request against a store and resolves with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openOfflineDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// --- Downloaded decks ---
+
+/**
+ * Fetches every deck this user has downloaded on this device.
+ * @param userId The UID of the user.
+ */
+export const getOfflineDecks = async (userId: string): Promise<OfflineDeck[]> => {
+  try {
+    const decks = await runRequest<OfflineDeck[]>(DECKS_STORE, 'readonly', store => store.getAll());
+    return decks.filter(deck => deck.userId === userId).sort((a, b) => a.order - b.order);
+  } catch (error) {
+    console.error("Error reading offline decks:", error);
+    return [];
+  }
+};
+
+/**
+ * Removes a downloaded deck and the images only it used.
+ * @param deck The downloaded deck.
+ */
+export const deleteOfflineDeck = async (deck: OfflineDeck): Promise<void> => {
+  try {
+    const otherDecks = (await runRequest<OfflineDeck[]>(DECKS_STORE, 'readonly', store => store.getAll()))
+      .filter(other => other.id !== deck.id);
+    const usedElsewhere = new Set(otherDecks.flatMap(other => other.cards.map(card => card.imageUrl)));
+    const imageUrls = deck.cards.map(card => card.imageUrl).filter((url): url is string => !!url && !usedElsewhere.has(url));
+
+    await Promise.all(imageUrls.map(url => runRequest(IMAGES_STORE, 'readwrite', store => store.delete(url))));
+    await runRequest(DECKS_STORE, 'readwrite', store => store.delete(deck.id));
+  } catch (error) {
+    console.error(`Error deleting offline deck ${deck.id}:`, error);
+  }
+};
+
+/**
+ * Returns a downloaded image as a Blob, or null if it isn't stored.
+ * @param url The image's original URL.
+ */
+export const getOfflineImage = async (url: string): Promise<Blob | null> => {
+  try {
+    const image = await runRequest<OfflineImage | undefined>(IMAGES_STORE, 'readonly', store => store.get(url));
+    return image?.blob ?? null;
+  } catch (error) {
+    console.error("Error reading offline image:", error);
+    return null;
+  }
+};
+
+// Stores an image so it can be shown offline. Images from hosts without CORS can't be
+// read, so those cards just show their URL (and no image) offline.
+const downloadImage = async (url: string) => {
+  if (await getOfflineImage(url)) return;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const image: OfflineImage = { url, blob: await response.blob() };
+    await runRequest(IMAGES_STORE, 'readwrite', store => store.put(image));
+  } catch (error) {
+    console.warn(`Could not download image for offline use: ${url}`, error);
+  }
+};
+
+// Generates whatever study content a card is missing, one activity at a time
+const fillCardContent = async (card: Flashcard, options: DeckDownloadOptions): Promise<Flashcard> => {
+  const { targetLangName, translationLangName, nativeLangName, level } = options;
+  const filled: Flashcard = { ...card };
+
+  if (!filled.translation) {
+    filled.translation = await geminiService.getTranslation(card.term, targetLangName, translationLangName, level);
+  }
+  if (!filled.definition) {
+    filled.definition = await geminiService.getDefinition(card.term, targetLangName, nativeLangName);
+  }
+  if (!filled.cloze) {
+    try {
+      filled.cloze = await geminiService.getClozePassage(card.term, targetLangName, nativeLangName, card.sentence, 3);
+    } catch (error) {
+      const text = card.sentence || (await geminiService.getSentence(card.term, targetLangName, nativeLangName)).fullSentence;
+      const cloze = buildClozePassage(text, [{ answer: card.term, kind: 'term' }]);
+      if (cloze.blanks.length > 0) filled.cloze = cloze;
+    }
+    if (filled.cloze) {
+      filled.sentence = filled.cloze.fullText;
+      filled.sentenceWithBlank = renderClozeText(filled.cloze);
+    }
+  }
+  if (!filled.imageUrl) {
+    filled.imageUrl = await geminiService.generateImageForWord(
+      card.term, targetLangName, level, null, options.handleUsageCheck, options.subscriptionStatus
+    );
+  }
+  if (filled.imageUrl) {
+    await downloadImage(filled.imageUrl);
+  }
+  return filled;
+};
+
+/**
+ * Pre-generates every card's translation, definition, cloze sentence and image, and
+ * stores the deck (with its images) in IndexedDB for offline study.
+ * @param userId The UID of the user.
+ * @param deck The custom deck to download.
+ * @param options Languages, level and usage-limit hooks used to generate content.
+ * @returns The downloaded deck.
+ */
+export const downloadDeckForOffline = async (userId: string, deck: FlashcardDeck, options: DeckDownloadOptions): Promise<OfflineDeck> => {
+  const cards: Flashcard[] = [];
+  // One card at a time, to stay well inside the AI proxies' rate limits
+  for (const card of deck.cards) {
+    cards.push(await fillCardContent(card, options));
+    options.onProgress?.(cards.length, deck.cards.length);
+  }
+
+  const offlineDeck: OfflineDeck = {
+    ...deck,
+    cards,
+    userId,
+    translationLanguageCode: options.translationLanguageCode,
+    downloadedAt: Date.now(),
+  };
+  await runRequest(DECKS_STORE, 'readwrite', store => store.put(offlineDeck));
+  return offlineDeck;
+};
+
+// --- Queued writes ---
+
+const queueWrite = async (write: PendingWrite) => {
+  try {
+    await runRequest(PENDING_STORE, 'readwrite', store => store.add(write));
+  } catch (error) {
+    console.error("Error queueing offline write:", error);
+  }
+};
+
+/**
+ * Records a review result, or queues it if the device is offline or the save fails.
+ * @param userId The UID of the user.
+ * @param card The card that was reviewed.
+ * @param quality The SM-2 answer grade.
+ */
+export const recordReviewOrQueue = async (userId: string, card: ReviewableCard, quality: number): Promise<void> => {
+  const reviewedAt = Date.now();
+  if (navigator.onLine && await recordFlashcardReview(userId, card, quality, new Date(reviewedAt))) return;
+  await queueWrite({ userId, type: 'review', card, quality, reviewedAt });
+};
+
+/**
+ * Saves a finished session, or queues it if the device is offline or the save fails.
+ * @param userId The UID of the user.
+ * @param session The finished session.
+ */
+export const saveSessionOrQueue = async (userId: string, session: FlashcardSessionRecord): Promise<void> => {
+  if (navigator.onLine && await saveFlashcardSession(userId, session)) return;
+  await queueWrite({ userId, type: 'session', session });
+};
+
+let syncInProgress: Promise<number> | null = null;
+
+/**
+ * Sends this user's queued reviews and sessions to Firestore, oldest first. Stops at the
+ * first failure so the rest stay queued, in order, for the next attempt.
+ * @param userId The UID of the user.
+ * @returns The number of writes that were synced.
+ */
+export const syncPendingWrites = (userId: string): Promise<number> => {
+  if (!navigator.onLine) return Promise.resolve(0);
+  // The 'online' event and app start can both trigger a sync; never send a write twice
+  if (!syncInProgress) {
+    syncInProgress = flushPendingWrites(userId).finally(() => { syncInProgress = null; });
+  }
+  return syncInProgress;
+};
+
+const flushPendingWrites = async (userId: string): Promise<number> => {
+  let synced = 0;
+  try {
+    const pending = (await runRequest<PendingWrite[]>(PENDING_STORE, 'readonly', store => store.getAll()))
+      .filter(write => write.userId === userId);
+
+    for (const write of pending) {
+      // A review made later on another device already rescheduled the card; applying
+      // this older one on top would roll its schedule back, so it's dropped instead
+      if (write.type === 'review') {
+        const saved = await getFlashcardReviewState(userId, write.card);
+        if (saved && saved.lastReviewedAt > write.reviewedAt) {
+          await runRequest(PENDING_STORE, 'readwrite', store => store.delete(write.id!));
+          continue;
+        }
+      }
+      const isSaved = write.type === 'review'
+        ? !!(await recordFlashcardReview(userId, write.card, write.quality, new Date(write.reviewedAt)))
+        : await saveFlashcardSession(userId, write.session);
+      if (!isSaved) break;
+      await runRequest(PENDING_STORE, 'readwrite', store => store.delete(write.id!));
+      synced++;
+    }
+  } catch (error) {
+    console.error("Error syncing offline flashcard results:", error);
+  }
+  return synced;
+};
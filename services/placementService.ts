@@ -0,0 +1,107 @@
+import { PlacementQuestion, PlacementResult, TeachMeType } from '../types.ts';
+import { grammarData, vocabData, conversationData } from '../teachMeData.ts';
+
+// Adaptive placement test. Each track is a short staircase: a right answer moves the
+// next question up a level, a wrong one moves it down, and the recommended level is the
+// highest level the learner held on to.
+
+export const PLACEMENT_TRACKS: TeachMeType[] = ['Grammar', 'Vocabulary', 'Conversation'];
+export const QUESTIONS_PER_TRACK = 5;
+export const START_LEVEL = 2;
+export const MAX_LEVEL = 5;
+
+// Enough for the longest run the staircase can spend on a middle level (it alternates
+// with a neighbour). At level 1 and MAX_LEVEL it can stay put, so those get a topic for
+// every question on the track.
+const TOPICS_PER_LEVEL = 3;
+
+export interface PlacementAnswer {
+  level: number;
+  isCorrect: boolean;
+}
+
+// Every standard lesson on a track, as { title, level }
+export const getTrackTopics = (track: TeachMeType, languageName: string): { title: string; level: number }[] => {
+  const data: { title: string; level: number }[] =
+    track === 'Grammar' ? (grammarData as Record<string, any[]>)[languageName] || []
+    : track === 'Vocabulary' ? vocabData
+    : (conversationData as Record<string, any[]>)[languageName] || [];
+  return data.map(topic => ({ title: topic.title, level: topic.level }));
+};
+
+/**
+ * Picks random lesson topics from every level of a track, to write the track's
+ * questions from. Only standard content is used.
+ * @param track The TeachMe track.
+ * @param languageName Target language name, as teachMeData is keyed (e.g., "Spanish").
+ * @returns Up to TOPICS_PER_LEVEL topics per level (QUESTIONS_PER_TRACK at level 1 and
+ * MAX_LEVEL), lowest level first. Empty if the language has no lessons on this track.
+ */
+export const samplePlacementTopics = (track: TeachMeType, languageName: string): { title: string; level: number }[] => {
+  const topics = getTrackTopics(track, languageName);
+  const sampled: { title: string; level: number }[] = [];
+  for (let level = 1; level <= MAX_LEVEL; level++) {
+    const atLevel = topics.filter(topic => topic.level === level);
+    for (let i = atLevel.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [atLevel[i], atLevel[j]] = [atLevel[j], atLevel[i]];
+    }
+    const isEdgeLevel = level === 1 || level === MAX_LEVEL;
+    sampled.push(...atLevel.slice(0, isEdgeLevel ? QUESTIONS_PER_TRACK : TOPICS_PER_LEVEL));
+  }
+  return sampled;
+};
+
+export const getNextLevel = (level: number, isCorrect: boolean): number =>
+  Math.min(MAX_LEVEL, Math.max(1, level + (isCorrect ? 1 : -1)));
+
+/**
+ * Finds the next unused question closest to a level, preferring the level below when two
+ * are equally close (a too-easy question says less, but is kinder to a struggling learner).
+ * @param questions The track's question bank.
+ * @param level The level the staircase wants.
+ * @param usedIndexes Indexes of questions already asked.
+ * @returns The index of the question, or -1 if the bank is used up.
+ */
+export const pickPlacementQuestion = (questions: PlacementQuestion[], level: number, usedIndexes: Set<number>): number => {
+  let bestIndex = -1;
+  questions.forEach((question, index) => {
+    if (usedIndexes.has(index)) return;
+    if (bestIndex === -1) { bestIndex = index; return; }
+    const distance = Math.abs(question.level - level);
+    const bestDistance = Math.abs(questions[bestIndex].level - level);
+    if (distance < bestDistance || (distance === bestDistance && question.level < questions[bestIndex].level)) {
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+};
+
+/**
+ * The highest level where the learner got at least one question right and no more wrong
+ * than right. A single right answer at a level counts on its own; a wrong answer there
+ * only outweighs it once there are more wrong than right.
+ * @param answers The track's answers, in order.
+ */
+export const recommendLevel = (answers: PlacementAnswer[]): number => {
+  let recommended = 1;
+  for (let level = 1; level <= MAX_LEVEL; level++) {
+    const atLevel = answers.filter(answer => answer.level === level);
+    const correct = atLevel.filter(answer => answer.isCorrect).length;
+    if (correct > 0 && correct >= atLevel.length - correct) recommended = level;
+  }
+  return recommended;
+};
+
+/**
+ * The placement test's recommended level for a track, if the learner has taken the test
+ * for this language.
+ * @param placementLevels The user's stored placement results.
+ * @param languageCode Target language code.
+ * @param track The TeachMe track.
+ */
+export const getPlacementLevel = (
+  placementLevels: Record<string, PlacementResult> | undefined,
+  languageCode: string,
+  track: TeachMeType
+): number | null => placementLevels?.[languageCode]?.levels[track] ?? null;
@@ -0,0 +1,79 @@
+import { collection, doc, getDoc, getDocs, setDoc, query, where } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { PronunciationScore } from '../types.ts';
+import { getReviewId } from './spacedRepetitionService.ts';
+
+const SCORES_SUBCOLLECTION = 'pronunciationScores';
+const MAX_RECENT_SCORES = 10;
+
+// Scores below this are treated as "keeps mispronouncing" when building drills
+export const WEAK_PRONUNCIATION_THRESHOLD = 75;
+
+/**
+ * Saves one pronunciation attempt for a card and updates its running stats.
+ * @param userId The UID of the user.
+ * @param term The word or phrase that was spoken.
+ * @param languageCode The language it was spoken in.
+ * @param score The attempt's score from 0 to 100.
+ */
+export const savePronunciationScore = async (
+  userId: string,
+  term: string,
+  languageCode: string,
+  score: number
+): Promise<PronunciationScore | null> => {
+  const id = getReviewId(languageCode, term);
+  const scoreRef = doc(db, "customers", userId, SCORES_SUBCOLLECTION, id);
+  const roundedScore = Math.round(Math.max(0, Math.min(100, score)));
+
+  try {
+    const snap = await getDoc(scoreRef);
+    const previous = snap.exists() ? (snap.data() as PronunciationScore) : undefined;
+    const attempts = (previous?.attempts ?? 0) + 1;
+    const recentScores = [...(previous?.recentScores ?? []), roundedScore].slice(-MAX_RECENT_SCORES);
+
+    const nextScore: PronunciationScore = {
+      id,
+      term: term.trim(),
+      languageCode,
+      lastScore: roundedScore,
+      bestScore: Math.max(previous?.bestScore ?? 0, roundedScore),
+      // Running mean over every attempt, not just the recent window
+      averageScore: Math.round((((previous?.averageScore ?? 0) * (attempts - 1)) + roundedScore) / attempts),
+      attempts,
+      recentScores,
+      updatedAt: Date.now(),
+    };
+
+    await setDoc(scoreRef, nextScore);
+    return nextScore;
+  } catch (error) {
+    console.error(`Error saving pronunciation score for "${term}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetches the words a learner mispronounces most, judged by their recent attempts.
+ * @param userId The UID of the user.
+ * @param languageCode The language to drill.
+ * @param limit Maximum number of words to return.
+ */
+export const getWeakPronunciations = async (userId: string, languageCode: string, limit = 15): Promise<PronunciationScore[]> => {
+  const scoresRef = collection(db, "customers", userId, SCORES_SUBCOLLECTION);
+
+  try {
+    const snapshot = await getDocs(query(scoresRef, where('languageCode', '==', languageCode)));
+    const recentAverage = (s: PronunciationScore) =>
+      s.recentScores.reduce((sum, value) => sum + value, 0) / Math.max(1, s.recentScores.length);
+
+    return snapshot.docs
+      .map(d => d.data() as PronunciationScore)
+      .filter(s => recentAverage(s) < WEAK_PRONUNCIATION_THRESHOLD)
+      .sort((a, b) => recentAverage(a) - recentAverage(b))
+      .slice(0, limit);
+  } catch (error) {
+    console.error("Error fetching weak pronunciations:", error);
+    return [];
+  }
+};
@@ -0,0 +1,156 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { QuizBankItem, QuizQuestion, TeachMeType, ValidatedQuizResult } from '../types.ts';
+import { getAuthHeaders } from './geminiService';
+
+// Shared bank of generated quiz questions. Quizzes on a topic are assembled from questions
+// other learners have already been given, and new ones are only generated until the bank
+// is deep enough. Questions that get reported, or that almost nobody answers correctly
+// (usually a wrong answer key), are retired. Learners only read the bank; every write goes
+// through the quizBankUpdate function, which generates the banked quizzes itself, counts
+// each user's answer to a question once and decides retirement.
+
+const BANKS_COLLECTION = 'quizBanks';
+const ITEMS_SUBCOLLECTION = 'items';
+
+const QUIZ_BANK_UPDATE_URL =
+  process.env.NODE_ENV === 'development'
+    ? "/quizBankUpdate"
+    : "https://us-central1-langcampus-exchange.cloudfunctions.net/quizBankUpdate";
+
+// How many of each question type a quiz has, matching the quizBankUpdate function's quiz prompt
+export const QUIZ_TYPE_COUNTS: Record<QuizQuestion['type'], number> = {
+  'multiple-choice': 3,
+  'matching': 2,
+  'fill-in-the-blank': 2,
+  'ordering': 1,
+  'error-correction': 1,
+  'translation': 1,
+  'speaking': 1,
+  'listening': 1,
+};
+
+// Quizzes are served from the bank once it holds this many questions per quiz slot, so
+// learners retaking a topic don't keep getting the same quiz
+const BANK_DEPTH = 3;
+
+const getItemsRef = (bankId: string) => collection(db, BANKS_COLLECTION, bankId, ITEMS_SUBCOLLECTION);
+
+/**
+ * Builds the document ID of the bank for one quiz topic.
+ * @param targetLanguage Target language name.
+ * @param nativeLanguage The learner's native language name (instructions are written in it).
+ * @param type The TeachMe track the topic is on.
+ * @param topic The lesson title.
+ * @param level The quiz level.
+ */
+export const getBankId = (targetLanguage: string, nativeLanguage: string, type: TeachMeType, topic: string, level: number) =>
+  encodeURIComponent(`${targetLanguage}_${nativeLanguage}_${type}_${level}_${topic.trim()}`.toLowerCase());
+
+type BankUpdate =
+  | { action: 'generate'; quiz: { targetLanguage: string; nativeLanguage: string; type: TeachMeType; topic: string; level: number } }
+  | { action: 'results'; bankId: string; questions: QuizQuestion[]; results: boolean[] }
+  | { action: 'report'; bankId: string; questions: QuizQuestion[] };
+
+// Sends one write to the quizBankUpdate function and returns its JSON reply
+const updateBank = async (body: BankUpdate): Promise<any> => {
+  const response = await fetch(QUIZ_BANK_UPDATE_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Quiz bank update error (${response.status}): ${await response.text()}`);
+  }
+  return response.json();
+};
+
+const pickRandom = <T>(items: T[], count: number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, count);
+};
+
+/**
+ * Assembles a quiz from a bank's active questions.
+ * @param bankId The bank, from getBankId.
+ * @returns A quiz with the usual mix of question types, or null if the bank isn't deep
+ * enough yet (or couldn't be read) and a new quiz should be generated.
+ */
+export const getBankedQuiz = async (bankId: string): Promise<QuizQuestion[] | null> => {
+  try {
+    const snapshot = await getDocs(query(getItemsRef(bankId), where('retired', '==', false)));
+    const items = snapshot.docs.map(d => d.data() as QuizBankItem);
+    const types = Object.keys(QUIZ_TYPE_COUNTS) as QuizQuestion['type'][];
+    const byType = types.map(type => items.filter(item => item.question.type === type));
+
+    if (byType.some((typeItems, i) => typeItems.length < QUIZ_TYPE_COUNTS[types[i]] * BANK_DEPTH)) return null;
+    return byType.flatMap((typeItems, i) => pickRandom(typeItems, QUIZ_TYPE_COUNTS[types[i]]).map(item => item.question));
+  } catch (error) {
+    console.error("Error reading quiz bank:", error);
+    return null;
+  }
+};
+
+/**
+ * Generates a new quiz on a topic. The quizBankUpdate function writes it and adds its
+ * questions to the topic's bank, so learners never put questions of their own in a bank.
+ * @param targetLanguage Target language name.
+ * @param nativeLanguage The learner's native language name (instructions are written in it).
+ * @param type The TeachMe track the topic is on.
+ * @param topic The lesson title.
+ * @param level The quiz level.
+ * @returns The quiz questions. Throws if the quiz couldn't be generated.
+ */
+export const generateBankedQuiz = async (
+  targetLanguage: string,
+  nativeLanguage: string,
+  type: TeachMeType,
+  topic: string,
+  level: number
+): Promise<QuizQuestion[]> => {
+  const data = await updateBank({ action: 'generate', quiz: { targetLanguage, nativeLanguage, type, topic: topic.trim(), level } });
+  return data.questions;
+};
+
+/**
+ * Counts a finished quiz's answers against the banked questions, retiring any that turn
+ * out to be broken. Questions that aren't in the bank are ignored.
+ * @param bankId The bank the quiz came from.
+ * @param questions The quiz questions.
+ * @param results Graded answers, in the same order.
+ */
+export const recordQuizResults = async (bankId: string, questions: QuizQuestion[], results: ValidatedQuizResult[]): Promise<void> => {
+  // Unanswered questions (no result) aren't counted
+  const answered = questions.map((question, i) => ({ question, result: results[i] })).filter(({ result }) => !!result);
+  if (answered.length === 0) return;
+  try {
+    await updateBank({
+      action: 'results',
+      bankId,
+      questions: answered.map(({ question }) => question),
+      results: answered.map(({ result }) => result.isCorrect),
+    });
+  } catch (error) {
+    console.error("Error recording quiz results in the quiz bank:", error);
+  }
+};
+
+/**
+ * Reports a banked question as wrong. Each user counts once, and enough reports retire it.
+ * @param bankId The bank the question came from.
+ * @param question The question being reported.
+ * @returns true if the report was recorded (or the user had already reported it).
+ */
+export const reportQuizItem = async (bankId: string, question: QuizQuestion): Promise<boolean> => {
+  try {
+    const data = await updateBank({ action: 'report', bankId, questions: [question] });
+    return data.reported === true;
+  } catch (error) {
+    console.error("Error reporting quiz question:", error);
+    return false;
+  }
+};
@@ -0,0 +1,116 @@
+import { QuizQuestion } from '../types.ts';
+import { LANGUAGES } from '../constants.ts';
+import { normalizeForComparison, isUnspacedScript, alignTokens, scoreAlignment } from './textComparisonService.ts';
+
+// Deterministic quiz grading. Objectively checkable answers are settled here; anything
+// that could still be right in a way a string comparison can't see (a synonym, another
+// valid word order, a free translation) is left for the AI grader.
+
+interface LanguageGradingRules {
+  keepAccents?: boolean; // Diacritics change the word (tones, vowel signs), so they must match
+  foldings?: ((text: string) => string)[]; // Alternative spellings that count as equal
+}
+
+// Keyed by the base language code ('de' for 'de-DE')
+const LANGUAGE_RULES: Record<string, LanguageGradingRules> = {
+  // "Mädchen", "Maedchen" and "Madchen" are all accepted; "ß" may be written "ss"
+  de: {
+    foldings: [
+      text => text.replace(/ß/g, 'ss'),
+      text => text.replace(/ß/g, 'ss').replace(/ä/gi, 'ae').replace(/ö/gi, 'oe').replace(/ü/gi, 'ue'),
+    ],
+  },
+  // Й and и are different letters, as are dakuten/handakuten kana (が/か, パ/ハ)
+  ru: { keepAccents: true },
+  ja: { keepAccents: true },
+  // Hamza forms of alef and the tatweel stretch character are optional in typed Arabic
+  ar: { foldings: [text => text.replace(/[أإآ]/g, 'ا').replace(/ـ/g, '').replace(/ى/g, 'ي')] },
+  vi: { keepAccents: true },
+  hi: { keepAccents: true },
+};
+
+const getLanguageRules = (language: string): LanguageGradingRules => {
+  const code = LANGUAGES.find(l => l.name === language)?.code || language;
+  return LANGUAGE_RULES[code.split('-')[0].toLowerCase()] || {};
+};
+
+// Exact comparison, for answers where any difference matters; only Unicode form and
+// surrounding or repeated whitespace are ignored
+const isSameText = (a: string, b: string): boolean => {
+  const clean = (text: string) => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  return clean(a) === clean(b);
+};
+
+/**
+ * Compares two answers with accent, case and punctuation tolerance, plus the target
+ * language's own spelling rules. Spaces are ignored for Chinese/Japanese-style scripts.
+ * @param expected The answer key.
+ * @param actual The learner's answer.
+ * @param language The target language's code or name.
+ */
+export const answersMatch = (expected: string, actual: string, language: string): boolean => {
+  const rules = getLanguageRules(language);
+  const ignoreSpaces = isUnspacedScript(expected);
+  const normalize = (text: string) => {
+    const normalized = normalizeForComparison(text, rules.keepAccents);
+    return ignoreSpaces ? normalized.replace(/\s/g, '') : normalized;
+  };
+
+  if (normalize(expected) === normalize(actual)) return true;
+  return (rules.foldings || []).some(fold => normalize(fold(expected)) === normalize(fold(actual)));
+};
+
+// Minimum pronunciation score (0-100) for a spoken answer to count as correct, in quizzes
+// and in the flashcard review modes alike.
+export const SPEAKING_PASS_SCORE = 70;
+
+/**
+ * Scores a spoken answer by aligning its transcript with the sentence word by word.
+ * @param question The quiz question.
+ * @param answer The learner's answer.
+ * @returns A score from 0 to 100, or null if this isn't a speaking question with a transcript.
+ */
+export const getSpeakingScore = (question: QuizQuestion, answer: string | string[] | undefined): number | null => {
+  if (question.type !== 'speaking' || typeof answer !== 'string' || !answer.trim()) return null;
+  return scoreAlignment(alignTokens(question.sentenceToRead, answer));
+};
+
+/**
+ * Grades one answer without the AI.
+ * @param question The quiz question.
+ * @param answer The learner's answer (matching answers are "term-i:def-j" pairs).
+ * @param language The target language's code or name.
+ * @returns true or false when the answer can be settled locally, or null when it needs
+ * the AI grader.
+ */
+export const gradeQuestionLocally = (question: QuizQuestion, answer: string | string[] | undefined, language: string): boolean | null => {
+  if (question.type === 'matching') {
+    return Array.isArray(answer) && question.pairs.every((_, i) => answer[i] === `term-${i}:def-${i}`);
+  }
+  if (typeof answer !== 'string' || !answer.trim()) return false; // Skipped
+
+  switch (question.type) {
+    case 'multiple-choice':
+      // The answer is one of the options, so only the key itself can be right
+      return isSameText(question.correctAnswer, answer);
+    case 'speaking':
+      // The answer is the transcript of the recording
+      return getSpeakingScore(question, answer)! >= SPEAKING_PASS_SCORE;
+    case 'error-correction':
+      if (isSameText(question.sentenceWithError, answer)) return false; // Nothing was fixed
+      // The mistake may be one the lenient comparison ignores (an accent, a capital, a
+      // comma), so it only settles the answer when it can tell the two sentences apart
+      if (answersMatch(question.sentenceWithError, question.correctAnswer, language)) {
+        return isSameText(question.correctAnswer, answer) || null;
+      }
+      if (answersMatch(question.sentenceWithError, answer, language)) return false;
+      return answersMatch(question.correctAnswer, answer, language) || null;
+    case 'fill-in-the-blank':
+    case 'listening':
+    case 'ordering':
+    case 'translation':
+      return answersMatch(question.correctAnswer, answer, language) || null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,59 @@
+import { collection, doc, getDocs, setDoc, query, orderBy, limit } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { QuizAttempt, QuizQuestion, ValidatedQuizResult } from '../types.ts';
+
+const ATTEMPTS_SUBCOLLECTION = 'quizAttempts';
+
+const getAttemptsRef = (userId: string) => collection(db, "customers", userId, ATTEMPTS_SUBCOLLECTION);
+
+// Firestore rejects arrays directly inside arrays, so matching answers (string[]) are
+// stored wrapped in an object and unwrapped again on read
+type StoredResult = Omit<ValidatedQuizResult, 'userAnswer'> & { userAnswer: { value: string | string[] } };
+type StoredAttempt = Omit<QuizAttempt, 'results'> & { results: StoredResult[] };
+
+/**
+ * Saves a finished quiz with its graded answers.
+ * @param userId The UID of the user.
+ * @param attempt The attempt, without an ID.
+ * @returns The saved attempt, or null if the save failed.
+ */
+export const saveQuizAttempt = async (userId: string, attempt: Omit<QuizAttempt, 'id'>): Promise<QuizAttempt | null> => {
+  const attemptRef = doc(getAttemptsRef(userId)); // Let Firestore pick the ID
+  const newAttempt: QuizAttempt = { ...attempt, id: attemptRef.id };
+  const stored: StoredAttempt = {
+    ...newAttempt,
+    retakeOf: newAttempt.retakeOf ?? null,
+    passage: newAttempt.passage ?? null,
+    results: newAttempt.results.map(result => ({ ...result, userAnswer: { value: result.userAnswer ?? '' } })),
+  };
+  try {
+    await setDoc(attemptRef, stored);
+    return newAttempt;
+  } catch (error) {
+    console.error("Error saving quiz attempt:", error);
+    return null;
+  }
+};
+
+/**
+ * Fetches the user's quiz attempts, newest first.
+ * @param userId The UID of the user.
+ * @param maxAttempts Maximum number of attempts to fetch.
+ */
+export const getQuizAttempts = async (userId: string, maxAttempts = 100): Promise<QuizAttempt[]> => {
+  try {
+    const snapshot = await getDocs(query(getAttemptsRef(userId), orderBy('createdAt', 'desc'), limit(maxAttempts)));
+    return snapshot.docs.map(d => {
+      const stored = d.data() as StoredAttempt;
+      return { ...stored, results: stored.results.map(result => ({ ...result, userAnswer: result.userAnswer.value })) };
+    });
+  } catch (error) {
+    console.error("Error fetching quiz attempts:", error);
+    return [];
+  }
+};
+
+// The questions a learner got wrong (or skipped) in an attempt, for a retake. Questions
+// about a reading passage are left out, since a retake quiz has nowhere to show it.
+export const getMissedQuestions = (attempt: QuizAttempt): QuizQuestion[] =>
+  attempt.questions.filter((_, index) => !attempt.results[index]?.isCorrect && !attempt.passage?.questionIndexes.includes(index));
@@ -0,0 +1,114 @@
+import { addDoc, collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { FlashcardSessionRecord } from '../types.ts';
+
+const SESSIONS_SUBCOLLECTION = 'flashcardSessions';
+
+// A word needs this many graded attempts before it can show up as "weak"
+export const MIN_ATTEMPTS_FOR_WEAK_WORD = 2;
+
+/**
+ * Saves a finished flashcard session.
+ * @param userId The UID of the user.
+ * @param session The session to save.
+ * @returns True if the session was saved.
+ */
+export const saveFlashcardSession = async (userId: string, session: FlashcardSessionRecord): Promise<boolean> => {
+  try {
+    await addDoc(collection(db, "customers", userId, SESSIONS_SUBCOLLECTION), session);
+    return true;
+  } catch (error) {
+    console.error("Error saving flashcard session:", error);
+    return false;
+  }
+};
+
+/**
+ * Fetches the user's most recent flashcard sessions, newest first.
+ * @param userId The UID of the user.
+ * @param maxSessions Maximum number of sessions to fetch.
+ */
+export const getFlashcardSessions = async (userId: string, maxSessions = 300): Promise<FlashcardSessionRecord[]> => {
+  const sessionsRef = collection(db, "customers", userId, SESSIONS_SUBCOLLECTION);
+  try {
+    const snapshot = await getDocs(query(sessionsRef, orderBy('finishedAt', 'desc'), limit(maxSessions)));
+    return snapshot.docs.map(d => ({ ...(d.data() as FlashcardSessionRecord), id: d.id }));
+  } catch (error) {
+    console.error("Error fetching flashcard sessions:", error);
+    return [];
+  }
+};
+
+export interface AccuracyStat {
+  key: string; // Topic name or activity type
+  attempts: number;
+  accuracy: number; // 0..1
+}
+
+export interface WeakWordStat {
+  term: string;
+  topic?: string | null;
+  attempts: number;
+  misses: number;
+  accuracy: number; // 0..1
+}
+
+// Groups graded card results by a key and averages their scores
+const accuracyBy = (sessions: FlashcardSessionRecord[], keyOf: (session: FlashcardSessionRecord, topic?: string | null) => string | null): AccuracyStat[] => {
+  const totals = new Map<string, { attempts: number; score: number }>();
+  sessions.forEach(session => session.results.forEach(result => {
+    const key = keyOf(session, result.topic);
+    if (!key) return;
+    const total = totals.get(key) || { attempts: 0, score: 0 };
+    total.attempts += 1;
+    total.score += result.score;
+    totals.set(key, total);
+  }));
+  return Array.from(totals, ([key, { attempts, score }]) => ({ key, attempts, accuracy: score / attempts }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempts - a.attempts);
+};
+
+/**
+ * Accuracy per topic, weakest first. Uses each card's own topic, so due sessions count too.
+ */
+export const getTopicAccuracy = (sessions: FlashcardSessionRecord[]): AccuracyStat[] =>
+  accuracyBy(sessions, (session, topic) => topic ?? session.topic);
+
+/**
+ * Accuracy per activity type, weakest first.
+ */
+export const getActivityAccuracy = (sessions: FlashcardSessionRecord[]): AccuracyStat[] =>
+  accuracyBy(sessions, session => session.activityType);
+
+/**
+ * Counts cards studied per local day ('YYYY-MM-DD'), for the review heatmap.
+ */
+export const getDailyCardCounts = (sessions: FlashcardSessionRecord[]): Record<string, number> =>
+  sessions.reduce<Record<string, number>>((counts, session) => {
+    counts[session.date] = (counts[session.date] || 0) + session.cardCount;
+    return counts;
+  }, {});
+
+/**
+ * Finds the words the learner misses most, by accuracy across every graded attempt.
+ * @param sessions The sessions to analyse.
+ * @param maxWords Maximum number of words to return.
+ */
+export const getWeakestWords = (sessions: FlashcardSessionRecord[], maxWords = 20): WeakWordStat[] => {
+  const words = new Map<string, WeakWordStat & { score: number }>();
+  sessions.forEach(session => session.results.forEach(result => {
+    if (!result.term) return;
+    const key = `${session.languageCode}_${result.term.trim().toLowerCase()}`;
+    const word = words.get(key) || { term: result.term, topic: result.topic ?? session.topic, attempts: 0, misses: 0, accuracy: 0, score: 0 };
+    word.attempts += 1;
+    word.score += result.score;
+    if (!result.correct) word.misses += 1;
+    words.set(key, word);
+  }));
+
+  return Array.from(words.values())
+    .filter(word => word.attempts >= MIN_ATTEMPTS_FOR_WEAK_WORD && word.misses > 0)
+    .map(({ score, ...word }) => ({ ...word, accuracy: score / word.attempts }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.misses - a.misses)
+    .slice(0, maxWords);
+};
@@ -0,0 +1,175 @@
+import { collection, doc, getDoc, getDocs, setDoc, query, where } from "firebase/firestore";
+import { db } from '../firebaseConfig.ts';
+import { FlashcardReviewState, TeachMeType } from '../types.ts';
+
+const REVIEWS_SUBCOLLECTION = 'flashcardReviews';
+
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 grades answers on a 0-5 scale; anything below 3 counts as a lapse.
+export const REVIEW_QUALITY = {
+  correct: 4,
+  incorrect: 1,
+};
+
+// Maps a 0-100 accuracy score (e.g. pronunciation similarity) onto the SM-2 scale
+export const qualityFromScore = (score: number): number => {
+  if (score >= 95) return 5;
+  if (score >= 85) return 4;
+  if (score >= 70) return 3;
+  if (score >= 50) return 2;
+  return 1;
+};
+
+export interface ReviewableCard {
+  term: string;
+  languageCode: string;
+  topic?: string | null;
+  teachMeType?: TeachMeType;
+  level?: number;
+  deckId?: string;
+}
+
+// Formats a date in 'YYYY-MM-DD' format (local time, same as usage tracking)
+export const toDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Builds the Firestore document ID for a card. The same word studied under
+ * different topics shares one schedule, so the topic is not part of the key.
+ */
+export const getReviewId = (languageCode: string, term: string) =>
+  encodeURIComponent(`${languageCode}_${term.trim().toLowerCase()}`);
+
+/**
+ * Applies one SM-2 step to a card's schedule.
+ * @param previous The card's current state, or undefined if it has never been reviewed.
+ * @param quality The answer grade from 0 (blackout) to 5 (perfect recall).
+ * @param now The review time, injectable for predictable results.
+ * @returns The scheduling fields for the card's next state.
+ */
+export const scheduleReview = (
+  previous: Pick<FlashcardReviewState, 'easeFactor' | 'interval' | 'repetitions' | 'lapses'> | undefined,
+  quality: number,
+  now: Date = new Date()
+): Pick<FlashcardReviewState, 'easeFactor' | 'interval' | 'repetitions' | 'lapses' | 'dueDate' | 'lastReviewedAt'> => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  let easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  let repetitions = previous?.repetitions ?? 0;
+  let lapses = previous?.lapses ?? 0;
+  let interval: number;
+
+  if (q < 3) {
+    // Forgotten: start the learning steps again and see it tomorrow
+    if (repetitions > 0) lapses += 1;
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round((previous?.interval ?? 1) * easeFactor);
+    }
+  }
+
+  easeFactor = Math.max(MIN_EASE_FACTOR, easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  return {
+    easeFactor: Number(easeFactor.toFixed(2)),
+    interval,
+    repetitions,
+    lapses,
+    dueDate: toDateString(addDays(now, interval)),
+    lastReviewedAt: now.getTime(),
+  };
+};
+
+/**
+ * Records a review result for a card and reschedules it.
+ * @param userId The UID of the user.
+ * @param card The card that was reviewed.
+ * @param quality The SM-2 answer grade (see REVIEW_QUALITY).
+ * @param reviewedAt When the answer was given (earlier than now for reviews synced after being offline).
+ * @returns The card's new review state, or null if saving failed.
+ */
+export const recordFlashcardReview = async (
+  userId: string,
+  card: ReviewableCard,
+  quality: number,
+  reviewedAt: Date = new Date()
+): Promise<FlashcardReviewState | null> => {
+  const id = getReviewId(card.languageCode, card.term);
+  const reviewRef = doc(db, "customers", userId, REVIEWS_SUBCOLLECTION, id);
+
+  try {
+    const snap = await getDoc(reviewRef);
+    const previous = snap.exists() ? (snap.data() as FlashcardReviewState) : undefined;
+
+    const nextState: FlashcardReviewState = {
+      id,
+      term: card.term.trim(),
+      languageCode: card.languageCode,
+      // Keep the original topic so due cards can still show where they came from
+      topic: previous?.topic ?? card.topic ?? null,
+      ...((card.teachMeType ?? previous?.teachMeType) && { teachMeType: card.teachMeType ?? previous?.teachMeType }),
+      ...((card.level ?? previous?.level) !== undefined && { level: card.level ?? previous?.level }),
+      ...((card.deckId ?? previous?.deckId) && { deckId: card.deckId ?? previous?.deckId }),
+      ...scheduleReview(previous, quality, reviewedAt),
+    };
+
+    await setDoc(reviewRef, nextState);
+    return nextState;
+  } catch (error) {
+    console.error(`Error recording review for "${card.term}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Fetches a card's saved review state. Unlike the other helpers here it throws if the
+ * read fails, so callers can tell "never reviewed" from "couldn't check".
+ * @param userId The UID of the user.
+ * @param card The card to look up.
+ * @returns The card's review state, or null if it has never been reviewed.
+ */
+export const getFlashcardReviewState = async (userId: string, card: ReviewableCard): Promise<FlashcardReviewState | null> => {
+  const snap = await getDoc(doc(db, "customers", userId, REVIEWS_SUBCOLLECTION, getReviewId(card.languageCode, card.term)));
+  return snap.exists() ? (snap.data() as FlashcardReviewState) : null;
+};
+
+/**
+ * Fetches every card that is due today (or overdue) for a language, across all topics.
+ * Most overdue cards come first.
+ * @param userId The UID of the user.
+ * @param languageCode The language being studied.
+ */
+export const getDueFlashcards = async (userId: string, languageCode: string): Promise<FlashcardReviewState[]> => {
+  const reviewsRef = collection(db, "customers", userId, REVIEWS_SUBCOLLECTION);
+  // Only the date is filtered server-side so no composite index is needed
+  const dueQuery = query(reviewsRef, where('dueDate', '<=', toDateString(new Date())));
+
+  try {
+    const snapshot = await getDocs(dueQuery);
+    return snapshot.docs
+      .map(d => d.data() as FlashcardReviewState)
+      .filter(state => state.languageCode === languageCode)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.easeFactor - b.easeFactor);
+  } catch (error) {
+    console.error("Error fetching due flashcards:", error);
+    return [];
+  }
+};
@@ -53,4 +53,26 @@ export const deleteAudioMessage = async (audioUrl: string): Promise<void> => {
     } catch (error) {
         console.warn("Error deleting audio file from Storage:", audioUrl, error);
     }
-};
\ No newline at end of file
+};
+
+export const uploadDeckImage = async (imageFile: Blob, userId: string): Promise<string> => {
+    const extension = (imageFile.type.split('/')[1] || 'png').split('+')[0]; // 'image/svg+xml' -> 'svg'
+    const fileName = `${userId}_${Date.now()}.${extension}`;
+    const imageRef = ref(storage, `deck_images/${userId}/${fileName}`);
+
+    const snapshot = await uploadBytes(imageRef, imageFile, {
+        contentType: imageFile.type,
+        cacheControl: 'public, max-age=604800',
+    });
+
+    return getDownloadURL(snapshot.ref);
+};
+
+export const deleteDeckImage = async (imageUrl: string): Promise<void> => {
+    try {
+        const fileRef = ref(storage, imageUrl);
+        await deleteObject(fileRef);
+    } catch (error) {
+        console.warn("Error deleting deck image from Storage:", imageUrl, error);
+    }
+};
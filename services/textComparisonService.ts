@@ -0,0 +1,160 @@
+// Local, deterministic text comparison helpers used to grade learner answers
+// without a round trip to the AI.
+
+// Combining marks on Latin and Greek letters are accents; on other scripts they change
+// the letter itself (が/か, й/и, Thai and Indic vowel signs), so those are kept
+const ACCENT_MARKS = /([\p{Script=Latin}\p{Script=Greek}])\p{M}+/gu;
+
+/**
+ * Normalizes text for lenient comparison: lower-cases it, removes accents from Latin and
+ * Greek letters, drops punctuation and symbols, and collapses whitespace.
+ * @param text The text to normalize.
+ * @param keepAccents Keep diacritics (for graders that treat accents as significant).
+ */
+export const normalizeForComparison = (text: string, keepAccents = false): string => {
+  let normalized = text.normalize('NFKC').toLocaleLowerCase();
+  if (!keepAccents) {
+    normalized = normalized.normalize('NFD').replace(ACCENT_MARKS, '$1').normalize('NFC');
+  }
+  return normalized
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Computes the Levenshtein edit distance between two sequences (characters or tokens).
+ */
+export const levenshteinDistance = <T>(a: ArrayLike<T>, b: ArrayLike<T>): number => {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j] + 1, // deletion
+        currentRow[j - 1] + 1, // insertion
+        previousRow[j - 1] + substitutionCost // substitution
+      );
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+};
+
+/**
+ * Scores how closely two texts match at the character level, after normalization.
+ * Works for languages without spaces (Chinese, Japanese) as well as alphabetic ones.
+ * @returns A similarity from 0 (nothing in common) to 1 (identical after normalization).
+ */
+export const characterSimilarity = (expected: string, actual: string): number => {
+  // Array.from keeps surrogate pairs (e.g. rare CJK characters) as single characters
+  const a = Array.from(normalizeForComparison(expected).replace(/\s/g, ''));
+  const b = Array.from(normalizeForComparison(actual).replace(/\s/g, ''));
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / longest;
+};
+
+export type TokenDiffType = 'match' | 'substitution' | 'missing' | 'insertion';
+
+export interface TokenDiff {
+  type: TokenDiffType;
+  expected?: string; // Token from the reference text (absent for insertions)
+  actual?: string; // Token from the learner's text (absent for missing tokens)
+}
+
+// Scripts written without spaces between words; these are compared character by character
+const UNSPACED_SCRIPT_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// True for text in a script written without spaces between words
+export const isUnspacedScript = (text: string): boolean => UNSPACED_SCRIPT_PATTERN.test(text);
+
+/**
+ * Splits text into comparable tokens: words for spaced languages, characters for
+ * Chinese/Japanese/Thai-style scripts. Punctuation-only tokens are dropped.
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens = isUnspacedScript(text)
+    ? Array.from(text).filter(char => !/\s/.test(char))
+    : text.split(/\s+/);
+  return tokens.filter(token => normalizeForComparison(token) !== '');
+};
+
+/**
+ * Aligns a learner's text against a reference text token by token (word-level
+ * Levenshtein with a backtrace). Tokens are compared after normalization, so case,
+ * accents and punctuation never count as mistakes; the original tokens are returned
+ * for display.
+ * @param expected The reference text.
+ * @param actual What the learner typed or said.
+ */
+export const alignTokens = (expected: string, actual: string): TokenDiff[] => {
+  const expectedTokens = tokenize(expected);
+  const actualTokens = tokenize(actual);
+  const expectedKeys = expectedTokens.map(t => normalizeForComparison(t));
+  const actualKeys = actualTokens.map(t => normalizeForComparison(t));
+  const rows = expectedKeys.length;
+  const cols = actualKeys.length;
+
+  // distances[i][j] = edit distance between the first i expected and first j actual tokens
+  const distances: number[][] = Array.from({ length: rows + 1 }, (_, i) =>
+    Array.from({ length: cols + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      const substitutionCost = expectedKeys[i - 1] === actualKeys[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(
+        distances[i - 1][j] + 1,
+        distances[i][j - 1] + 1,
+        distances[i - 1][j - 1] + substitutionCost
+      );
+    }
+  }
+
+  // Walk back from the bottom-right corner to recover the operations
+  const diff: TokenDiff[] = [];
+  let i = rows;
+  let j = cols;
+  // On ties, prefer matches, then gaps, then substitutions, so "la manzana" vs "manzana"
+  // reads as one missing word rather than two substitutions
+  while (i > 0 || j > 0) {
+    const isMatch = i > 0 && j > 0 && expectedKeys[i - 1] === actualKeys[j - 1];
+    if (isMatch && distances[i][j] === distances[i - 1][j - 1]) {
+      diff.push({ type: 'match', expected: expectedTokens[i - 1], actual: actualTokens[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && distances[i][j] === distances[i - 1][j] + 1) {
+      diff.push({ type: 'missing', expected: expectedTokens[i - 1] });
+      i--;
+    } else if (j > 0 && distances[i][j] === distances[i][j - 1] + 1) {
+      diff.push({ type: 'insertion', actual: actualTokens[j - 1] });
+      j--;
+    } else {
+      diff.push({ type: 'substitution', expected: expectedTokens[i - 1], actual: actualTokens[j - 1] });
+      i--;
+      j--;
+    }
+  }
+  return diff.reverse();
+};
+
+/**
+ * Scores an alignment as word accuracy: 1 minus the word error rate (substituted, missing
+ * and extra words over the reference length), from 0 to 100. Deterministic, so scores
+ * from different attempts can be compared.
+ * @param diff The alignment from alignTokens.
+ */
+export const scoreAlignment = (diff: TokenDiff[]): number => {
+  const referenceLength = diff.filter(token => token.type !== 'insertion').length;
+  const errors = diff.filter(token => token.type !== 'match').length;
+  if (referenceLength === 0) return errors === 0 ? 100 : 0;
+  return Math.round(Math.max(0, 1 - errors / referenceLength) * 100);
+};
+
+// True when two texts are the same once case, accents and punctuation are ignored
+export const isLenientMatch = (expected: string, actual: string): boolean =>
+  normalizeForComparison(expected) === normalizeForComparison(actual);
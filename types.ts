@@ -34,6 +34,7 @@ export interface Message {
   senderName?: string;
   text: string;
   correction?: string;
+  mistake?: ChatMistake; // Structured form of `correction`, used to fill the mistake journal
   translation?: string;
   audioUrl?: string;
   audioDuration?: number;
@@ -45,6 +46,37 @@ export interface Message {
   };
 }
 
+export type MistakeCategory = 'grammar' | 'verb tense' | 'agreement' | 'word choice' | 'word order' | 'spelling' | 'particle' | 'punctuation' | 'other';
+
+// One change a partner made to the user's sentence
+export interface CorrectionEdit {
+  original: string; // The span as the user wrote it
+  replacement: string; // What it should be; empty to delete the span
+  category: MistakeCategory;
+  explanation: string;
+}
+
+export interface ChatMistake {
+  original?: string; // The user's sentence as they wrote it (not on older messages)
+  corrected: string; // The user's whole sentence, corrected
+  category: MistakeCategory; // The main kind of error
+  edits?: CorrectionEdit[]; // In sentence order (not on older messages)
+}
+
+// A chat correction saved to customers/{uid}/mistakeJournal
+export interface MistakeJournalEntry {
+  id: string;
+  original: string; // What the user wrote
+  corrected: string;
+  explanation: string; // The partner's full correction text
+  category: MistakeCategory;
+  edits?: CorrectionEdit[]; // Each change, with its own category (not on older entries)
+  languageCode: string; // Language the user was writing in
+  partnerName: string;
+  createdAt: number;
+  deckId?: string | null; // Set once the entry has been turned into a review card
+}
+
 export interface Flashcard {
     id: string;
     term: string; // The word/phrase in the target language
@@ -53,6 +85,60 @@ export interface Flashcard {
     imageUrl?: string; // URL for the generated image
     sentence?: string; // ADDED: Example sentence in target language
     sentenceWithBlank?: string;
+    topic?: string | null; // Source topic, used by the review scheduler and image prompts
+    level?: number;
+    deckId?: string; // Set for cards that belong to a custom deck
+    cloze?: ClozePassage; // Multi-blank version of `sentence`, built for the 'sentence' activity
+    conjugation?: ConjugationPrompt; // Set for conjugation drill cards; `term` holds the expected form
+}
+
+export interface ConjugationForm {
+    person: string; // e.g. "1st person singular"
+    pronoun: string; // Subject pronoun(s) in the target language, may be empty
+    form: string;
+    alternatives: string[];
+}
+
+// Cached in conjugationTables/{hash}, one per verb/tense/language
+export interface ConjugationTable {
+    verb: string;
+    tense: string;
+    languageName: string;
+    forms: ConjugationForm[];
+    createdAt: number;
+}
+
+export interface ConjugationPrompt {
+    verb: string;
+    tense: string;
+    person: string;
+    pronoun: string;
+    alternatives: string[];
+}
+
+// Verbs and tenses the AI picked for a grammar topic
+export interface ConjugationVerbSet {
+    verbs: string[];
+    tenses: string[];
+}
+
+export type ClozeBlankKind = 'term' | 'article' | 'particle' | 'conjugation' | 'other';
+
+export interface ClozeBlank {
+    id: number;
+    answer: string; // Exactly as written in the passage
+    alternatives: string[]; // Other answers that are also accepted
+    hint?: string;
+    kind: ClozeBlankKind;
+}
+
+// A passage split into plain text and blanks, in reading order
+export type ClozeSegment = { type: 'text'; text: string } | { type: 'blank'; blankId: number };
+
+export interface ClozePassage {
+    fullText: string;
+    segments: ClozeSegment[];
+    blanks: ClozeBlank[];
 }
 
 export type QuizQuestion = {
@@ -77,6 +163,21 @@ export type QuizQuestion = {
   question: string; // The text to be synthesized into speech
   correctAnswer: string; // The text the user should transcribe
   sentenceToRead: string; // The actual sentence to read
+} | {
+  type: 'ordering';
+  question: string; // The instruction text
+  tokens: string[]; // The sentence's words or chunks, in the correct order (shuffled for display)
+  correctAnswer: string; // The full sentence
+} | {
+  type: 'error-correction';
+  question: string; // The instruction text
+  sentenceWithError: string; // A sentence containing exactly one mistake
+  correctAnswer: string; // The corrected sentence
+} | {
+  type: 'translation';
+  question: string; // The instruction text
+  sourceSentence: string; // The sentence to translate, in the learner's native language
+  correctAnswer: string; // A model translation in the target language
 };
 
 export interface YouTubeVideo {
@@ -90,14 +191,97 @@ export interface YouTubeCache {
   timestamp: number;
 }
 
+// A TeachMe lesson, identified by where it lives in teachMeData
+export interface LessonTopicRef {
+  title: string;
+  level: number;
+  type: TeachMeType;
+}
+
 export interface ValidatedQuizResult {
   userAnswer: string | string[];
   isCorrect: boolean;
+  explanation?: string; // In the learner's native language; missing if explaining failed
+  relatedTopic?: LessonTopicRef | null; // The lesson that teaches the tested concept
+  pronunciationScore?: number; // 0-100, for spoken answers; see quizGradingService.getSpeakingScore
+}
+
+// A multiple-choice placement question written for one lesson topic
+export interface PlacementQuestion {
+  topic: string;
+  level: number;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+}
+
+// Recommended starting levels from the placement test, per TeachMe track
+export interface PlacementResult {
+  levels: Partial<Record<TeachMeType, number>>; // Tracks with no topics for the language are left out
+  testedAt: number;
+}
+
+export type MockExamSectionKind = 'reading' | 'listening' | 'grammar' | 'speaking';
+
+export interface MockExamSection {
+  kind: MockExamSectionKind;
+  passage?: string; // Reading text the section's questions are about
+  questions: QuizQuestion[];
+}
+
+// A timed exam over several lessons of one level, sections in the order they're taken
+export interface MockExam {
+  language: string; // Target language name
+  level: number;
+  topics: string[]; // Lessons the exam was written from
+  sections: MockExamSection[];
+  durationSeconds: number;
+}
+
+// A question in the shared quiz bank, stored in quizBanks/{bankId}/items. One bank per
+// language, native language, track, level and topic.
+export interface QuizBankItem {
+  id: string; // Hash of the question, so the same question is only banked once
+  question: QuizQuestion;
+  timesAnswered: number;
+  timesCorrect: number;
+  reporters: string[]; // UIDs of users who reported the question as wrong
+  retired: boolean; // Retired items are never served again
+  createdAt: number;
+}
+
+// One finished quiz, stored in customers/{uid}/quizAttempts
+export interface QuizAttempt {
+  id: string;
+  topic: string;
+  language: string; // Target language name, as the quiz was generated in
+  level: number;
+  questions: QuizQuestion[];
+  results: ValidatedQuizResult[]; // Same order as questions; skipped answers are ''
+  score: number;
+  total: number;
+  retakeOf?: string | null; // ID of the attempt whose missed questions this retook
+  passage?: QuizPassage | null; // Mock exams: the reading text some questions are about
+  createdAt: number;
+}
+
+export interface QuizPassage {
+  text: string;
+  questionIndexes: number[]; // Indexes into QuizAttempt.questions
+}
+
+// The older part of a long solo chat, condensed so prompts only need the recent messages
+export interface ChatSummary {
+  text: string;
+  keyFacts: string[]; // What the partner should remember about the user
+  summarizedCount: number; // How many messages, from the start of the chat, it covers
+  updatedAt: number;
 }
 
 export interface SavedChat {
   partner: Partner;
   messages: Message[];
+  summary?: ChatSummary | null;
 }
 
 export interface GroupTeachMeSettings {
@@ -107,6 +291,33 @@ export interface GroupTeachMeSettings {
   topic: string;
 }
 
+// Live group quizzes use only multiple-choice questions, so everyone can be graded instantly
+export type LiveQuizQuestion = Extract<QuizQuestion, { type: 'multiple-choice' }>;
+
+export interface LiveQuizAnswer {
+  option: string;
+  playerName: string; // For the scoreboard, since the members map has no names
+  answeredAt: number;
+}
+
+// What players see of a live quiz question: its answer only arrives when it's revealed
+export type LiveQuizPlayerQuestion = Omit<LiveQuizQuestion, 'correctAnswer'>;
+
+// A quiz the host runs for the whole group, synced through the group document. Only the
+// liveQuizUpdate function moves it along; members write nothing but their own answers.
+export interface LiveQuiz {
+  id: string;
+  topic: string;
+  questions: LiveQuizPlayerQuestion[];
+  currentIndex: number;
+  phase: 'question' | 'reveal' | 'finished'; // 'reveal' shows the answer before the next question
+  phaseStartedAt: number;
+  phaseEndsAt: number; // Server time after which any member can move the quiz on
+  secondsPerQuestion: number;
+  answers: { [userId: string]: { [questionIndex: string]: LiveQuizAnswer } };
+  revealedAnswers: { [questionIndex: string]: string }; // Each question's answer, from its reveal on
+}
+
 export interface GroupChat {
   id: string; // Unique ID for the group/websocket room
   creatorId: string; // The UID of the person who started the group (the topic controller)
@@ -117,6 +328,7 @@ export interface GroupChat {
   messages: Message[]; // Stored messages for the chat history
   teachMeContent?: string | null; // <--- Field to store the actual lesson content
   groupTeachMeSettings?: GroupTeachMeSettings | null; // <--- ADDED: Field to store the topic, type, and level
+  liveQuiz?: LiveQuiz | null; // The host's current or last group quiz
 }
 
 export interface Language {
@@ -163,10 +375,85 @@ export interface FlashcardSettings {
   mode?: FlashcardMode; // Make sure FlashcardMode is exported or defined here
   amount?: number;
   translationTargetLanguageCode?: string; // Add this for the new selector
+  speakingTarget?: SpeakingTarget; // What the learner says ('speaking') or hears ('dictation')
+  source?: FlashcardSource; // Where session cards come from (defaults to 'teachMe')
+  deckId?: string | null; // Selected custom deck when source is 'deck'
+  conjugationTopic?: string | null; // Grammar topic used as the verb set for 'conjugation'
+  conjugationTenses?: string[];
+}
+
+export type FlashcardSource = 'teachMe' | 'deck';
+
+export type SpeakingTarget = 'term' | 'sentence';
+
+export interface FlashcardSessionCardResult {
+  term: string;
+  topic?: string | null; // The card's own topic (due sessions mix topics)
+  correct: boolean;
+  score: number; // 0..1; partial credit for cloze, 0/1 elsewhere
+}
+
+// One finished flashcard session, stored in customers/{uid}/flashcardSessions
+export interface FlashcardSessionRecord {
+  id?: string;
+  languageCode: string;
+  topic: string | null; // TeachMe topic, deck name, or a label for drills/due sessions
+  deckId?: string | null;
+  activityType: FlashcardActivityType;
+  mode: FlashcardMode;
+  cardCount: number;
+  score: number;
+  results: FlashcardSessionCardResult[]; // Only graded cards; study sessions may have none
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  date: string; // 'YYYY-MM-DD' in local time, for the daily heatmap
 }
 
-export type FlashcardActivityType = 'translation' | 'definition' | 'image' | 'sentence';
-export type FlashcardMode = 'study' | 'review';
+// Per-card pronunciation history, stored in customers/{uid}/pronunciationScores
+export interface PronunciationScore {
+  id: string; // Same key as the card's FlashcardReviewState
+  term: string;
+  languageCode: string;
+  lastScore: number; // 0-100
+  bestScore: number;
+  averageScore: number;
+  attempts: number;
+  recentScores: number[]; // Most recent last, capped in pronunciationService
+  updatedAt: number;
+}
+
+// A user-owned deck, stored in customers/{uid}/flashcardDecks
+export interface FlashcardDeck {
+  id: string;
+  name: string;
+  languageCode: string; // Language the deck's terms are written in
+  description?: string;
+  order: number; // Position in the user's deck list
+  cards: Flashcard[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type FlashcardActivityType = 'translation' | 'definition' | 'image' | 'sentence' | 'speaking' | 'dictation' | 'conjugation';
+export type FlashcardMode = 'study' | 'review' | 'due';
+
+// SM-2 scheduling state for a single card, stored in customers/{uid}/flashcardReviews
+export interface FlashcardReviewState {
+  id: string; // Stable key built from languageCode + normalized term
+  term: string;
+  languageCode: string;
+  topic: string | null;
+  teachMeType?: TeachMeType;
+  level?: number;
+  easeFactor: number; // SM-2 ease, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Times the card was forgotten after being learned
+  dueDate: string; // 'YYYY-MM-DD'
+  lastReviewedAt: number;
+  deckId?: string; // Set when the card came from a custom deck
+}
 
 export interface UserData {
   uid: string;
@@ -196,4 +483,5 @@ export interface UserData {
   contentPreference?: 'standard' | 'pg13' | 'r21plus';
 
   flashcardSettings?: FlashcardSettings;
+  placementLevels?: Record<string, PlacementResult>; // Keyed by target language code
 }
@@ -24,6 +24,11 @@ export default defineConfig(({ mode }) => {
             changeOrigin: true,
             rewrite: (path) => path.replace(/^\/geminiProxy/, '/geminiProxy'),
           },
+          '/geminiStreamProxy': {
+            target: 'http://localhost:5001/langcampus-exchange/us-central1',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/geminiStreamProxy/, '/geminiStreamProxy'),
+          },
           '/googleCloudTTS': {
             target: 'http://localhost:5001/langcampus-exchange/us-central1', // FIX: localhost
             changeOrigin: true,
@@ -49,6 +54,26 @@ export default defineConfig(({ mode }) => {
             changeOrigin: true,
             rewrite: (path) => path.replace(/^\/imageSearchProxy/, '/imageSearchProxy')
           },
+          '/imageCacheLookup': {
+            target: 'http://localhost:5001/langcampus-exchange/us-central1',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/imageCacheLookup/, '/imageCacheLookup')
+          },
+          '/conjugationTable': {
+            target: 'http://localhost:5001/langcampus-exchange/us-central1',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/conjugationTable/, '/conjugationTable')
+          },
+          '/quizBankUpdate': {
+            target: 'http://localhost:5001/langcampus-exchange/us-central1',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/quizBankUpdate/, '/quizBankUpdate')
+          },
+          '/liveQuizUpdate': {
+            target: 'http://localhost:5001/langcampus-exchange/us-central1',
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/liveQuizUpdate/, '/liveQuizUpdate')
+          },
         },
       },
     };